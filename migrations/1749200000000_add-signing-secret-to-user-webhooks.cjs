@@ -0,0 +1,28 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+const TABLE_NAME = 'user_webhooks';
+const COLUMN_NAME = 'signing_secret';
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn(TABLE_NAME, {
+        [COLUMN_NAME]: {
+            type: 'TEXT',
+            notNull: false, // Null means no provider-native signature verification for this link
+            comment: 'Provider signing secret (e.g. Stripe whsec_..., GitHub webhook secret) used to verify native request signatures on incoming events.'
+        }
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn(TABLE_NAME, COLUMN_NAME);
+};
@@ -0,0 +1,74 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const TABLE_NAME = 'webhook_deliveries';
+
+// Function to get the update trigger SQL
+const CREATE_UPDATE_TRIGGER = (tableName) => `
+CREATE TRIGGER update_${tableName}_updated_at BEFORE UPDATE
+ON ${tableName} FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+`;
+
+// Function to get the drop trigger SQL
+const DROP_UPDATE_TRIGGER = (tableName) => `
+DROP TRIGGER IF EXISTS update_${tableName}_updated_at ON ${tableName};
+`;
+
+/**
+ * Outbox of agent deliveries. Each row is one attempt-tracked job that hands a logged
+ * webhook_events row to the agent (conversation creation + agent run).
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.createTable(TABLE_NAME, {
+        id: {
+            type: 'uuid',
+            primaryKey: true,
+            default: pgm.func('uuid_generate_v4()'),
+        },
+        webhook_event_id: {
+            type: 'uuid',
+            notNull: true,
+            references: 'webhook_events',
+            onDelete: 'CASCADE',
+        },
+        // pending | processing | failed (retry scheduled) | succeeded | dead_lettered
+        status: { type: 'varchar(50)', notNull: true, default: 'pending' },
+        attempts: { type: 'integer', notNull: true, default: 0 },
+        max_attempts: { type: 'integer', notNull: true },
+        next_attempt_at: {
+            type: 'timestamptz',
+            notNull: true,
+            default: pgm.func('current_timestamp'),
+        },
+        locked_at: { type: 'timestamptz', notNull: false },
+        last_error: { type: 'text', notNull: false },
+        completed_at: { type: 'timestamptz', notNull: false },
+        created_at: {
+            type: 'timestamptz',
+            notNull: true,
+            default: pgm.func('current_timestamp'),
+        },
+        updated_at: {
+            type: 'timestamptz',
+            notNull: true,
+            default: pgm.func('current_timestamp'),
+        },
+    });
+
+    pgm.addIndex(TABLE_NAME, ['status', 'next_attempt_at']);
+    pgm.addIndex(TABLE_NAME, 'webhook_event_id');
+
+    pgm.sql(CREATE_UPDATE_TRIGGER(TABLE_NAME));
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.sql(DROP_UPDATE_TRIGGER(TABLE_NAME));
+    pgm.dropTable(TABLE_NAME);
+};
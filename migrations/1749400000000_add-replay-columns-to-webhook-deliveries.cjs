@@ -0,0 +1,37 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const TABLE_NAME = 'webhook_deliveries';
+
+/**
+ * Lets a delivery target another agent or conversation than the one recorded on its event,
+ * and records whether it was created by the ingress route or by a replay.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn(TABLE_NAME, {
+        agent_id_override: {
+            type: 'varchar(255)',
+            notNull: false, // Null means the event's agent_id is used
+        },
+        conversation_id_override: {
+            type: 'varchar(255)',
+            notNull: false, // Null means the event's conversation_id is used
+        },
+        trigger: {
+            type: 'varchar(50)',
+            notNull: true,
+            default: 'ingress', // ingress | replay
+        },
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn(TABLE_NAME, ['agent_id_override', 'conversation_id_override', 'trigger']);
+};
@@ -0,0 +1,50 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const UNIQUE_INDEX_NAME = 'webhook_events_deduplication_key_unique';
+
+/**
+ * Adds provider delivery-ID deduplication:
+ * - webhooks.deduplication_key_mapping: where to read the delivery ID (`header:<name>` or a payload path).
+ * - webhook_events.deduplication_key / outcome / duplicate_of_event_id: the extracted key and how the event was handled.
+ * A partial unique index guarantees a key is accepted at most once per user-webhook link;
+ * duplicates are still recorded, with outcome 'duplicate'.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('webhooks', {
+        deduplication_key_mapping: {
+            type: 'text',
+            notNull: false, // Null disables deduplication for the webhook
+        },
+    });
+
+    pgm.addColumn('webhook_events', {
+        deduplication_key: { type: 'text', notNull: false },
+        outcome: { type: 'varchar(50)', notNull: true, default: 'accepted' },
+        duplicate_of_event_id: {
+            type: 'uuid',
+            notNull: false,
+            references: 'webhook_events',
+            onDelete: 'SET NULL',
+        },
+    });
+
+    pgm.addIndex('webhook_events', ['webhook_id', 'client_user_id', 'deduplication_key'], {
+        name: UNIQUE_INDEX_NAME,
+        unique: true,
+        where: "deduplication_key IS NOT NULL AND outcome <> 'duplicate'",
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropIndex('webhook_events', [], { name: UNIQUE_INDEX_NAME });
+    pgm.dropColumn('webhook_events', ['deduplication_key', 'outcome', 'duplicate_of_event_id']);
+    pgm.dropColumn('webhooks', 'deduplication_key_mapping');
+};
@@ -0,0 +1,26 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Adds webhook_events.content_type: the media type of the original request body.
+ * Form, XML, text and binary bodies are stored normalized in `payload`; this records what was received.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('webhook_events', {
+        content_type: {
+            type: 'varchar(255)',
+            notNull: false, // Null when the request had no Content-Type header (and for events logged before this migration)
+        },
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn('webhook_events', 'content_type');
+};
@@ -0,0 +1,23 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Adds webhook_agent_links.enabled so each agent linked to a user-webhook can be paused
+ * without unlinking it. Incoming events fan out to every enabled link.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('webhook_agent_links', {
+        enabled: { type: 'boolean', notNull: true, default: true },
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn('webhook_agent_links', 'enabled');
+};
@@ -0,0 +1,28 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Adds payload-based agent routing to webhook_agent_links:
+ * - routing_rule: predicate (see src/lib/predicates.ts) an event must match for the agent to receive it.
+ * - priority: evaluation order of routing rules (ascending); the first matching rule wins.
+ * - is_default: the agent receives events that matched no routing rule.
+ * Links with neither a rule nor the default flag keep receiving every event.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('webhook_agent_links', {
+        routing_rule: { type: 'jsonb', notNull: false },
+        priority: { type: 'integer', notNull: true, default: 0 },
+        is_default: { type: 'boolean', notNull: true, default: false },
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn('webhook_agent_links', ['routing_rule', 'priority', 'is_default']);
+};
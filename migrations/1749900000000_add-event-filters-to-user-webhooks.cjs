@@ -0,0 +1,29 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Adds event filters to user-webhook links:
+ * - user_webhooks.event_filters: named predicates (see src/lib/eventFilters.ts); matching events are dropped.
+ * - webhook_events.matched_filter: the filter that dropped an event recorded with outcome 'filtered'.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('user_webhooks', {
+        event_filters: { type: 'jsonb', notNull: true, default: '[]' },
+    });
+
+    pgm.addColumn('webhook_events', {
+        matched_filter: { type: 'jsonb', notNull: false },
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn('webhook_events', 'matched_filter');
+    pgm.dropColumn('user_webhooks', 'event_filters');
+};
@@ -0,0 +1,30 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Adds customizable agent messages (see src/lib/messageTemplate.ts):
+ * - webhooks.agent_message_template: template of the message sent to agents for the webhook's events.
+ * - webhook_agent_links.message_template: per-agent override of the webhook template.
+ * Null falls back to the next level, then to the built-in message.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('webhooks', {
+        agent_message_template: { type: 'text', notNull: false },
+    });
+
+    pgm.addColumn('webhook_agent_links', {
+        message_template: { type: 'text', notNull: false },
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn('webhook_agent_links', 'message_template');
+    pgm.dropColumn('webhooks', 'agent_message_template');
+};
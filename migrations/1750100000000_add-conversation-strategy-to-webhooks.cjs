@@ -0,0 +1,26 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Adds conversation strategies to webhook definitions (see src/lib/conversationStrategy.ts):
+ * - conversation_strategy: 'mapped' (conversation_id_identification_mapping, the previous behaviour),
+ *   'per_event', 'fixed' or 'hashed'.
+ * - conversation_hash_fields: value expressions hashed into the conversation ID by 'hashed'.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('webhooks', {
+        conversation_strategy: { type: 'varchar(50)', notNull: true, default: 'mapped' },
+        conversation_hash_fields: { type: 'jsonb', notNull: false },
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn('webhooks', ['conversation_strategy', 'conversation_hash_fields']);
+};
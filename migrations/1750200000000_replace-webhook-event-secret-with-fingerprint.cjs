@@ -0,0 +1,55 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Stops storing plaintext URL secrets on webhook events:
+ * - webhook_events.secret_fingerprint: SHA-256 hex of the secret the event was received with
+ *   (see computeSecretFingerprint in src/lib/crypto.ts), backfilled from webhook_secret.
+ * - webhook_events.webhook_secret is dropped. The user-webhook link of an event is still referenced
+ *   by webhook_id, client_user_id and client_organization_id.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('webhook_events', {
+        secret_fingerprint: { type: 'varchar(64)', notNull: false },
+    });
+
+    pgm.sql(`
+        UPDATE webhook_events
+        SET secret_fingerprint = encode(sha256(convert_to(webhook_secret, 'UTF8')), 'hex');
+    `);
+
+    pgm.alterColumn('webhook_events', 'secret_fingerprint', { notNull: true });
+    pgm.dropColumn('webhook_events', 'webhook_secret');
+};
+
+/**
+ * Restores the webhook_secret column from the current secret of each event's user-webhook link.
+ * Fingerprints cannot be reversed, so events of deleted links get an empty secret.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.addColumn('webhook_events', {
+        webhook_secret: { type: 'text', notNull: false },
+    });
+
+    pgm.sql(`
+        UPDATE webhook_events we
+        SET webhook_secret = COALESCE(
+            (
+                SELECT uw.webhook_secret FROM user_webhooks uw
+                WHERE uw.webhook_id = we.webhook_id
+                  AND uw.client_user_id = we.client_user_id
+                  AND uw.client_organization_id = we.client_organization_id
+                LIMIT 1
+            ),
+            ''
+        );
+    `);
+
+    pgm.alterColumn('webhook_events', 'webhook_secret', { notNull: true });
+    pgm.dropColumn('webhook_events', 'secret_fingerprint');
+};
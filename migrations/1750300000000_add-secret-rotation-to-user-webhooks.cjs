@@ -0,0 +1,36 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Adds URL secret rotation with a grace period:
+ * - user_webhooks.previous_webhook_secret: the secret replaced by the last rotation, still accepted
+ *   until previous_webhook_secret_expires_at.
+ * - webhook_events.secret_version: whether an event was received with the 'current' or the 'previous' secret.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('user_webhooks', {
+        previous_webhook_secret: { type: 'text', notNull: false },
+        previous_webhook_secret_expires_at: { type: 'timestamptz', notNull: false },
+    });
+    pgm.addIndex('user_webhooks', ['previous_webhook_secret'], {
+        name: 'idx_user_webhooks_previous_webhook_secret',
+        where: 'previous_webhook_secret IS NOT NULL',
+    });
+
+    pgm.addColumn('webhook_events', {
+        secret_version: { type: 'varchar(20)', notNull: true, default: 'current' },
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn('webhook_events', 'secret_version');
+    pgm.dropIndex('user_webhooks', ['previous_webhook_secret'], { name: 'idx_user_webhooks_previous_webhook_secret' });
+    pgm.dropColumns('user_webhooks', ['previous_webhook_secret', 'previous_webhook_secret_expires_at']);
+};
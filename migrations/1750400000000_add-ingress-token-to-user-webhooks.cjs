@@ -0,0 +1,31 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Adds user_webhooks.ingress_token: the opaque token of the short webhook URL (/in/:ingressToken),
+ * which replaces the client user and organization IDs in the URLs handed to providers.
+ * Existing links get a token too; their legacy long-form URLs keep working.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('user_webhooks', {
+        ingress_token: { type: 'varchar(64)', notNull: false },
+    });
+
+    // Same format as generateIngressToken in src/lib/ingress.ts (32 hex characters)
+    pgm.sql(`UPDATE user_webhooks SET ingress_token = replace(uuid_generate_v4()::text, '-', '');`);
+
+    pgm.alterColumn('user_webhooks', 'ingress_token', { notNull: true });
+    pgm.addConstraint('user_webhooks', 'user_webhooks_ingress_token_unique', { unique: ['ingress_token'] });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropConstraint('user_webhooks', 'user_webhooks_ingress_token_unique');
+    pgm.dropColumn('user_webhooks', 'ingress_token');
+};
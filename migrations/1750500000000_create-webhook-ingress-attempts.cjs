@@ -0,0 +1,58 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const TABLE_NAME = 'webhook_ingress_attempts';
+
+/**
+ * Log of every request to the incoming webhook routes, accepted or rejected, so support can
+ * answer "why didn't my agent react?". The link columns are null when the request could not be
+ * resolved to a user-webhook link (e.g. an unknown secret on the legacy route).
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.createTable(TABLE_NAME, {
+        id: {
+            type: 'uuid',
+            primaryKey: true,
+            default: pgm.func('uuid_generate_v4()'),
+        },
+        webhook_id: {
+            type: 'uuid',
+            notNull: false,
+            references: 'webhooks',
+            onDelete: 'CASCADE',
+        },
+        client_user_id: { type: 'varchar(255)', notNull: false },
+        client_organization_id: { type: 'varchar(255)', notNull: false },
+        webhook_event_id: {
+            type: 'uuid',
+            notNull: false,
+            references: 'webhook_events',
+            onDelete: 'SET NULL',
+        },
+        method: { type: 'varchar(10)', notNull: true },
+        path: { type: 'text', notNull: true }, // Without the query string, which may hold the secret
+        status_code: { type: 'integer', notNull: true },
+        // Rejection reason, or what happened to an acknowledged event (e.g. filtered, duplicate)
+        reason: { type: 'text', notNull: false },
+        latency_ms: { type: 'integer', notNull: true },
+        headers_summary: { type: 'jsonb', notNull: true },
+        created_at: {
+            type: 'timestamptz',
+            notNull: true,
+            default: pgm.func('current_timestamp'),
+        },
+    });
+
+    pgm.addIndex(TABLE_NAME, ['webhook_id', 'client_user_id', 'created_at']);
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropTable(TABLE_NAME);
+};
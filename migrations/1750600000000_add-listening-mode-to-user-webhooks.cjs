@@ -0,0 +1,53 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const TABLE_NAME = 'webhook_samples';
+
+/**
+ * Listening mode: while user_webhooks.listening_since is set, incoming events of the link are
+ * captured in webhook_samples instead of being processed, so the conversation ID mapping can be
+ * chosen from real payloads. Only the latest samples of each link are kept.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('user_webhooks', {
+        listening_since: { type: 'timestamptz', notNull: false },
+    });
+
+    pgm.createTable(TABLE_NAME, {
+        id: {
+            type: 'uuid',
+            primaryKey: true,
+            default: pgm.func('uuid_generate_v4()'),
+        },
+        webhook_id: {
+            type: 'uuid',
+            notNull: true,
+            references: 'webhooks',
+            onDelete: 'CASCADE',
+        },
+        client_user_id: { type: 'varchar(255)', notNull: true },
+        client_organization_id: { type: 'varchar(255)', notNull: true },
+        payload: { type: 'jsonb', notNull: true }, // The normalized payload
+        content_type: { type: 'varchar(255)', notNull: false },
+        headers: { type: 'jsonb', notNull: true }, // Without the headers that may hold credentials
+        created_at: {
+            type: 'timestamptz',
+            notNull: true,
+            default: pgm.func('current_timestamp'),
+        },
+    });
+
+    pgm.addIndex(TABLE_NAME, ['webhook_id', 'client_user_id', 'client_organization_id', 'created_at']);
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropTable(TABLE_NAME);
+    pgm.dropColumn('user_webhooks', 'listening_since');
+};
@@ -0,0 +1,31 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Reintroduces an optional JSON Schema of the payload on webhook definitions (the former
+ * event_payload_schema column was dropped in 1747053190175). Incoming events that do not conform
+ * are rejected ('reject') or recorded with their validation errors ('flag').
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('webhooks', {
+        payload_schema: { type: 'jsonb', notNull: false }, // Null disables payload validation
+        payload_schema_mode: { type: 'varchar(50)', notNull: true, default: 'flag' },
+    });
+
+    pgm.addColumn('webhook_events', {
+        // Set when the payload did not conform to the webhook's payload schema ('flag' mode)
+        payload_validation_errors: { type: 'jsonb', notNull: false },
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn('webhook_events', 'payload_validation_errors');
+    pgm.dropColumn('webhooks', ['payload_schema', 'payload_schema_mode']);
+};
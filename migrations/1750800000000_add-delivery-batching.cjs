@@ -0,0 +1,43 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const TABLE_NAME = 'webhook_deliveries';
+
+/**
+ * Opt-in debounce batching of agent deliveries (see the `batching` setting of webhook definitions):
+ * - webhooks.batching: { windowSeconds, maxBatchSize, maxWaitSeconds }, null disables batching.
+ * - webhook_deliveries.batch_key: deliveries with the same key (webhook, user link, agent and
+ *   sanitized conversation ID) are coalesced into one agent run.
+ * - webhook_deliveries.batched_into_delivery_id: set on deliveries coalesced into another one
+ *   (status 'batched'); their outcome is the outcome of that delivery.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('webhooks', {
+        batching: { type: 'jsonb', notNull: false },
+    });
+
+    pgm.addColumn(TABLE_NAME, {
+        batch_key: { type: 'text', notNull: false }, // Null for deliveries that are never batched
+        batch_max_size: { type: 'integer', notNull: false },
+        batched_into_delivery_id: {
+            type: 'uuid',
+            notNull: false,
+            references: TABLE_NAME,
+            onDelete: 'SET NULL',
+        },
+    });
+    pgm.addIndex(TABLE_NAME, ['batch_key', 'status'], { where: 'batch_key IS NOT NULL' });
+    pgm.addIndex(TABLE_NAME, 'batched_into_delivery_id', { where: 'batched_into_delivery_id IS NOT NULL' });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn(TABLE_NAME, ['batch_key', 'batch_max_size', 'batched_into_delivery_id']);
+    pgm.dropColumn('webhooks', 'batching');
+};
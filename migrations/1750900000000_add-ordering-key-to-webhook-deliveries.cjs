@@ -0,0 +1,42 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const TABLE_NAME = 'webhook_deliveries';
+
+/**
+ * Serializes the agent runs of each conversation:
+ * - webhook_deliveries.ordering_key: user link, agent and conversation ID of the delivery
+ *   (overrides included). Deliveries with the same key are processed one at a time, in creation order.
+ *   Backfilled for the deliveries not yet completed.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn(TABLE_NAME, {
+        ordering_key: { type: 'text', notNull: false },
+    });
+
+    pgm.sql(`
+        UPDATE webhook_deliveries d
+        SET ordering_key = json_build_array(
+            e.client_user_id,
+            e.client_organization_id,
+            COALESCE(d.agent_id_override, e.agent_id),
+            COALESCE(d.conversation_id_override, e.conversation_id)
+        )::text
+        FROM webhook_events e
+        WHERE e.id = d.webhook_event_id
+          AND d.status IN ('pending', 'processing', 'failed');
+    `);
+
+    pgm.addIndex(TABLE_NAME, ['ordering_key', 'status'], { where: 'ordering_key IS NOT NULL' });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn(TABLE_NAME, 'ordering_key');
+};
@@ -0,0 +1,26 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * How incoming webhook requests are answered:
+ * - webhooks.response_mode: 'async' acknowledges once the event is queued; 'sync' waits for the
+ *   agent's reply and answers with it, formatted for the provider (e.g. TwiML for Twilio).
+ * - webhooks.sync_response: { timeoutMs, fallbackMessage } of the 'sync' mode, null uses the defaults.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('webhooks', {
+        response_mode: { type: 'varchar(50)', notNull: true, default: 'async' },
+        sync_response: { type: 'jsonb', notNull: false },
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn('webhooks', ['response_mode', 'sync_response']);
+};
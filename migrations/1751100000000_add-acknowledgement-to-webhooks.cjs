@@ -0,0 +1,24 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Custom acknowledgement responses for providers expecting a specific answer:
+ * - webhooks.acknowledgement: { statusCode, contentType, bodyTemplate, ackInternalFailures },
+ *   null keeps the JSON envelope.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('webhooks', {
+        acknowledgement: { type: 'jsonb', notNull: false },
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn('webhooks', 'acknowledgement');
+};
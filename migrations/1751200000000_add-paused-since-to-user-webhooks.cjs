@@ -0,0 +1,31 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Pausing of user-webhook links, distinct from the DISABLED status:
+ * - user_webhooks.paused_since: set while the link is paused. Incoming events are still accepted and
+ *   recorded, but their deliveries are held with status 'paused' until the link is resumed, when they
+ *   are either released in order or discarded (status 'discarded').
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('user_webhooks', {
+        paused_since: { type: 'timestamptz', notNull: false }, // Null while the link is not paused
+    });
+};
+
+/**
+ * Held deliveries are released before the column is dropped, so no event stays buffered forever.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.sql(`
+        UPDATE webhook_deliveries
+        SET status = 'pending', next_attempt_at = NOW()
+        WHERE status = 'paused';
+    `);
+    pgm.dropColumn('user_webhooks', 'paused_since');
+};
@@ -0,0 +1,52 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const TABLE_NAME = 'webhook_ingress_attempts';
+const UNATTRIBUTED_INDEX_NAME = 'webhook_ingress_attempts_unattributed_created_at_index';
+
+// Must match the defaults of WEBHOOK_INGRESS_ATTEMPT_LIMIT and WEBHOOK_UNATTRIBUTED_INGRESS_ATTEMPT_LIMIT
+// (see src/services/ingressAttemptService.ts)
+const ATTEMPT_LIMIT = 200;
+const UNATTRIBUTED_ATTEMPT_LIMIT = 1000;
+
+/**
+ * Retention of the ingress attempt log, now pruned on each insert:
+ * - only the latest attempts of each user-webhook link are kept,
+ * - attempts that could not be attributed to a link (null webhook_id) have their own, global limit.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.createIndex(TABLE_NAME, ['created_at'], {
+        name: UNATTRIBUTED_INDEX_NAME,
+        where: 'webhook_id IS NULL',
+    });
+    pgm.sql(`
+        DELETE FROM ${TABLE_NAME}
+        WHERE id IN (
+            SELECT id FROM (
+                SELECT id, webhook_id, ROW_NUMBER() OVER (
+                    PARTITION BY webhook_id, client_user_id, client_organization_id
+                    ORDER BY created_at DESC
+                ) AS position
+                FROM ${TABLE_NAME}
+                WHERE webhook_id IS NOT NULL
+                UNION ALL
+                SELECT id, webhook_id, ROW_NUMBER() OVER (ORDER BY created_at DESC) AS position
+                FROM ${TABLE_NAME}
+                WHERE webhook_id IS NULL
+            ) ranked
+            WHERE ranked.position > CASE WHEN ranked.webhook_id IS NULL THEN ${UNATTRIBUTED_ATTEMPT_LIMIT} ELSE ${ATTEMPT_LIMIT} END
+        );
+    `);
+};
+
+/**
+ * Pruned attempts cannot be restored; only the index is dropped.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropIndex(TABLE_NAME, ['created_at'], { name: UNATTRIBUTED_INDEX_NAME });
+};
@@ -0,0 +1,25 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Reply of the agent run of a delivery:
+ * - webhook_deliveries.agent_reply: text the agent answered with, set when the delivery succeeds.
+ *   Ingress requests of 'sync' webhooks poll it, so the answer reaches them whichever instance
+ *   processed the delivery.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.addColumn('webhook_deliveries', {
+        agent_reply: { type: 'text', notNull: false }, // Null until succeeded, or when the agent returned no text
+    });
+};
+
+/**
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropColumn('webhook_deliveries', 'agent_reply');
+};
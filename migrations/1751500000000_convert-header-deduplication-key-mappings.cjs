@@ -0,0 +1,31 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+/**
+ * Deduplication key mappings are now value expressions (see src/lib/valueExpressions.ts):
+ * - webhooks.deduplication_key_mapping: `header:<name>` becomes `$headers.<name>`. Payload paths
+ *   are already valid expressions.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.sql(`
+        UPDATE webhooks
+        SET deduplication_key_mapping = '$headers.' || btrim(substring(deduplication_key_mapping FROM 8))
+        WHERE lower(deduplication_key_mapping) LIKE 'header:%';
+    `);
+};
+
+/**
+ * Converts the header references back; other expressions have no former equivalent and are kept.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.sql(`
+        UPDATE webhooks
+        SET deduplication_key_mapping = 'header:' || substring(deduplication_key_mapping FROM 10)
+        WHERE deduplication_key_mapping ~ '^\\$headers\\.[A-Za-z0-9!#$%&''*+.^_\`|~-]+$';
+    `);
+};
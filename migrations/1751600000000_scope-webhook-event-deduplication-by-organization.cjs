@@ -0,0 +1,36 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+// @ts-check
+
+/** @type {import('node-pg-migrate').ColumnDefinitions | undefined} */
+exports.shorthands = undefined;
+
+const UNIQUE_INDEX_NAME = 'webhook_events_deduplication_key_unique';
+const INDEX_WHERE = "deduplication_key IS NOT NULL AND outcome <> 'duplicate'";
+
+/**
+ * Scopes deduplication keys to the whole user-webhook link, organization included, like every
+ * other per-link key: the unique index becomes (webhook_id, client_user_id, client_organization_id,
+ * deduplication_key).
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.up = async (pgm) => {
+    pgm.dropIndex('webhook_events', [], { name: UNIQUE_INDEX_NAME });
+    pgm.addIndex('webhook_events', ['webhook_id', 'client_user_id', 'client_organization_id', 'deduplication_key'], {
+        name: UNIQUE_INDEX_NAME,
+        unique: true,
+        where: INDEX_WHERE,
+    });
+};
+
+/**
+ * Fails if the same key was accepted for one client user in several organizations.
+ * @param {import('node-pg-migrate').MigrationBuilder} pgm
+ */
+exports.down = async (pgm) => {
+    pgm.dropIndex('webhook_events', [], { name: UNIQUE_INDEX_NAME });
+    pgm.addIndex('webhook_events', ['webhook_id', 'client_user_id', 'deduplication_key'], {
+        name: UNIQUE_INDEX_NAME,
+        unique: true,
+        where: INDEX_WHERE,
+    });
+};
@@ -3,13 +3,12 @@
  */
 import { Response, NextFunction, Request } from "express";
 import {
-  Webhook,
   ServiceResponse,
   SuccessResponse,
   UtilityProvider,
   ErrorResponse,
-  WebhookData,
 } from "@agent-base/types";
+import { WebhookDefinition, WebhookDefinitionData } from "../types/webhook.js";
 import {
   createWebhook,
 } from "../services/webhookDefinitionService.js";
@@ -23,7 +22,7 @@ import { AuthenticatedRequest } from "../middleware/auth.js";
  */
 export const createWebhookController = async (
   req: Request,
-  res: Response<ServiceResponse<Webhook>>,
+  res: Response<ServiceResponse<WebhookDefinition>>,
   next: NextFunction,
 ) => {
   console.log(">>> Entering createWebhookController");
@@ -38,12 +37,12 @@ export const createWebhookController = async (
         .json(formatValidationError(validationResult.error));
     }
 
-    const webhookData : WebhookData = {
+    const webhookData : WebhookDefinitionData = {
       ...validationResult.data,
       webhookProviderId: validationResult.data
         .webhookProviderId as UtilityProvider,
       conversationIdIdentificationMapping:
-        validationResult.data.conversationIdIdentificationMapping,
+        validationResult.data.conversationIdIdentificationMapping ?? '',
       creatorClientUserId: clientUserId,
       creatorClientOrganizationId: clientOrganizationId,
     };
@@ -58,7 +57,7 @@ export const createWebhookController = async (
       clientUserId,
       clientOrganizationId,
     );
-    const response: SuccessResponse<Webhook> = {
+    const response: SuccessResponse<WebhookDefinition> = {
       success: true,
       data: newWebhook,
       hint: "Now you can link this webhook to the user by calling the webhook link user tool",
@@ -0,0 +1,45 @@
+/**
+ * Controller for listing the agents linked to a webhook for the caller.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { findAgentLinks } from '../services/agentWebhookLinkService.js';
+import { WebhookIdParamsSchema } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+import { WebhookAgentLink } from '../types/webhook.js';
+
+/**
+ * Handles GET /:webhookId/agents.
+ * Lists every linked agent, oldest link first, including disabled ones.
+ * Each incoming event is delivered to all enabled agents.
+ */
+export const getAgentLinksController = async (
+    req: Request,
+    res: Response<ServiceResponse<WebhookAgentLink[]>>,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const paramsValidation = WebhookIdParamsSchema.safeParse(req.params);
+        if (!paramsValidation.success) {
+            res.status(400).json(formatValidationError(paramsValidation.error));
+            return;
+        }
+        const { webhookId } = paramsValidation.data;
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        const agentLinks = await findAgentLinks(webhookId, clientUserId, clientOrganizationId);
+
+        const response: SuccessResponse<WebhookAgentLink[]> = {
+            success: true,
+            data: agentLinks,
+            hint: agentLinks.length === 0
+                ? 'Link an agent to this webhook by calling the webhook link agent tool.'
+                : undefined,
+        };
+        res.status(200).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Get Agent Links:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,49 @@
+/**
+ * Controller for listing failed and dead-lettered agent deliveries of the caller.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { listFailedDeliveries } from '../services/deliveryQueueService.js';
+import { FailedDeliveriesQuerySchema } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../types/delivery.js';
+
+/**
+ * Handles GET /deliveries/failed.
+ * Optional query parameters: `status` (failed | dead_lettered, both when omitted) and `limit` (max 100).
+ * Each delivery includes its failure reason (`lastError`) and attempt count.
+ */
+export const getFailedDeliveriesController = async (
+    req: Request,
+    res: Response<ServiceResponse<WebhookDelivery[]>>,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        const queryValidation = FailedDeliveriesQuerySchema.safeParse(req.query);
+        if (!queryValidation.success) {
+            res.status(400).json(formatValidationError(queryValidation.error));
+            return;
+        }
+        const { status, limit } = queryValidation.data;
+        const statuses = status
+            ? [status as WebhookDeliveryStatus]
+            : [WebhookDeliveryStatus.FAILED, WebhookDeliveryStatus.DEAD_LETTERED];
+
+        const deliveries = await listFailedDeliveries(clientUserId, clientOrganizationId, statuses, limit);
+
+        const response: SuccessResponse<WebhookDelivery[]> = {
+            success: true,
+            data: deliveries,
+            hint: deliveries.length > 0
+                ? 'Fix the cause reported in lastError, then replay deliveries with POST /deliveries/replay.'
+                : undefined,
+        };
+        res.status(200).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Get Failed Deliveries:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,54 @@
+/**
+ * Controller for listing the requests received on the incoming webhook URL of the caller's
+ * user-webhook link, accepted or rejected, to answer "why didn't my agent react?".
+ */
+import { Request, Response, NextFunction } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { listIngressAttempts } from '../services/ingressAttemptService.js';
+import { IngressAttemptsQuerySchema, WebhookIdParamsSchema } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+import { WebhookIngressAttempt } from '../types/ingress.js';
+
+/**
+ * Handles GET /:webhookId/ingress-attempts.
+ * Optional query parameter: `limit` (max 100, default 50). Newest attempts first.
+ * Each attempt includes its status code, rejection reason and the agent deliveries of the recorded event.
+ */
+export const getIngressAttemptsController = async (
+    req: Request,
+    res: Response<ServiceResponse<WebhookIngressAttempt[]>>,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const paramsValidation = WebhookIdParamsSchema.safeParse(req.params);
+        if (!paramsValidation.success) {
+            res.status(400).json(formatValidationError(paramsValidation.error));
+            return;
+        }
+        const { webhookId } = paramsValidation.data;
+
+        const queryValidation = IngressAttemptsQuerySchema.safeParse(req.query);
+        if (!queryValidation.success) {
+            res.status(400).json(formatValidationError(queryValidation.error));
+            return;
+        }
+        const { limit } = queryValidation.data;
+
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        const attempts = await listIngressAttempts(webhookId, clientUserId, clientOrganizationId, limit);
+
+        const response: SuccessResponse<WebhookIngressAttempt[]> = {
+            success: true,
+            data: attempts,
+            hint: attempts.length === 0
+                ? 'No request was received for this webhook yet. Check that the webhook URL is configured in the provider dashboard.'
+                : undefined,
+        };
+        res.status(200).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Get Ingress Attempts:', error);
+        next(error);
+    }
+};
@@ -3,7 +3,8 @@
  */
 import { Request, Response, NextFunction } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.js';
-import { ServiceResponse, ErrorResponse, WebhookEvent } from '@agent-base/types';
+import { ServiceResponse, ErrorResponse } from '@agent-base/types';
+import { WebhookEventDetails } from '../types/webhook.js';
 import { getLatestWebhookEventsForUserOrgService } from '../services/getWebhookEventsService.js';
 
 const DEFAULT_EVENT_LIMIT = 10;
@@ -20,7 +21,7 @@ const MAX_EVENT_LIMIT = 100;
  */
 export const getLatestWebhookEventsController = async (
     req: Request,
-    res: Response<ServiceResponse<WebhookEvent[]>>,
+    res: Response<ServiceResponse<WebhookEventDetails[]>>,
     next: NextFunction
 ): Promise<void> => {
     try {
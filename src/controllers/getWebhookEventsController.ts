@@ -3,7 +3,8 @@
  */
 import { Request, Response, NextFunction } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.js'; // Corrected import path
-import { ServiceResponse, ErrorResponse, WebhookEvent } from '@agent-base/types';
+import { ServiceResponse, ErrorResponse } from '@agent-base/types';
+import { WebhookEventDetails } from '../types/webhook.js';
 import { getWebhookEventsService } from '../services/getWebhookEventsService.js'; // Placeholder for the service function
 
 /**
@@ -16,7 +17,7 @@ import { getWebhookEventsService } from '../services/getWebhookEventsService.js'
  */
 export const getWebhookEventsController = async (
     req: Request, // Use standard Request first
-    res: Response<ServiceResponse<WebhookEvent[]>>, // Use the specific type here
+    res: Response<ServiceResponse<WebhookEventDetails[]>>, // Use the specific type here
     next: NextFunction
 ): Promise<void> => {
     try {
@@ -0,0 +1,70 @@
+/**
+ * Controller for listing the samples captured while the caller's user-webhook link was listening,
+ * with ranked candidate paths for the webhook's conversationIdIdentificationMapping and a payload
+ * schema inferred from them.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { findUserWebhookListeningSince } from '../services/userWebhookLinkService.js';
+import { listWebhookSamples } from '../services/webhookSampleService.js';
+import { WebhookIdParamsSchema } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+import { MappingSuggestion, suggestConversationMappings } from '../lib/mappingSuggestions.js';
+import { PayloadSchema, inferPayloadSchema } from '../lib/payloadSchema.js';
+import { WebhookSample } from '../types/webhook.js';
+
+interface WebhookSamples {
+    webhookId: string;
+    listening: boolean;
+    listeningSince: Date | null;
+    samples: WebhookSample[];         // Newest first
+    suggestions: MappingSuggestion[]; // Best first
+    inferredPayloadSchema: PayloadSchema | null; // A payloadSchema all samples conform to; null without samples
+}
+
+/**
+ * Handles GET /:webhookId/samples.
+ * Suggestions are computed from all captured samples; the more samples, the better they get.
+ */
+export const getWebhookSamplesController = async (
+    req: Request,
+    res: Response<ServiceResponse<WebhookSamples>>,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const paramsValidation = WebhookIdParamsSchema.safeParse(req.params);
+        if (!paramsValidation.success) {
+            res.status(400).json(formatValidationError(paramsValidation.error));
+            return;
+        }
+        const { webhookId } = paramsValidation.data;
+
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        const listeningSince = await findUserWebhookListeningSince(webhookId, clientUserId, clientOrganizationId);
+        const samples = await listWebhookSamples(webhookId, clientUserId, clientOrganizationId);
+        const payloads = samples.map(sample => sample.payload);
+        const suggestions = suggestConversationMappings(payloads);
+        const inferredPayloadSchema = payloads.length > 0 ? inferPayloadSchema(payloads) : null;
+
+        let hint: string | undefined;
+        if (samples.length === 0) {
+            hint = listeningSince
+                ? 'No event captured yet. Trigger a few events in the provider, then call this endpoint again.'
+                : 'No samples. Start listening with PUT /:webhookId/listening, then trigger a few events in the provider.';
+        } else if (suggestions.length > 0) {
+            hint = `Set the best suggestion with PUT /:webhookId: { "conversationIdIdentificationMapping": "${suggestions[0].path}" }, then stop listening with PUT /:webhookId/listening.`;
+        }
+
+        const response: SuccessResponse<WebhookSamples> = {
+            success: true,
+            data: { webhookId, listening: listeningSince !== null, listeningSince, samples, suggestions, inferredPayloadSchema },
+            hint,
+        };
+        res.status(200).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Get Webhook Samples:', error);
+        next(error);
+    }
+};
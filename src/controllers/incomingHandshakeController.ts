@@ -0,0 +1,131 @@
+/**
+ * Controller: Answer Provider Verification Handshake (GET)
+ * Some providers verify the webhook URL with a GET request before sending any event
+ * (e.g. Meta/WhatsApp `hub.challenge`). This controller authenticates the request with the
+ * URL secret, answers the challenge and marks the WEBHOOK_URL_INPUTED confirmation on success.
+ * POST handshakes (Slack, Microsoft Graph, Zoom) are answered by incomingWebhookController.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { ServiceResponse, UserWebhook } from '@agent-base/types';
+import {
+    findUserWebhookBySecret,
+    findUserWebhookByIngressToken,
+    findUserWebhookSigningSecret,
+} from '../services/userWebhookLinkService.js';
+import { getWebhookById } from '../services/webhookDefinitionService.js';
+import { confirmWebhookUrlInput } from '../services/webhookUrlConfirmationService.js';
+import { resolveHandshake, getSupportedHandshakeProviders } from '../lib/handshakes.js';
+import { extractIngressSecret } from '../lib/ingress.js';
+import { setIngressAttemptContext } from '../middleware/ingressAttemptLog.js';
+
+interface IncomingHandshakeParams {
+    // Legacy long-form URL
+    webhookProviderId?: string;
+    subscribedEventId?: string;
+    clientUserId?: string;
+    clientOrganizationId?: string;
+    // Short URL (/in/:ingressToken)
+    ingressToken?: string;
+}
+
+interface IncomingHandshakeQuery {
+    secret?: string; // Can also be sent in the X-Webhook-Secret header
+    [key: string]: unknown; // Provider challenge parameters, e.g. hub.challenge
+}
+
+/**
+ * Controller for GET /in/:ingressToken and the legacy
+ * GET /incoming/:webhookProviderId/:subscribedEventId/:clientUserId/:clientOrganizationId
+ */
+export const incomingHandshakeController = async (req: Request<IncomingHandshakeParams, {}, any, IncomingHandshakeQuery>, res: Response<ServiceResponse<string>>, next: NextFunction) => {
+    try {
+        const { ingressToken } = req.params;
+        const secret = extractIngressSecret(req.headers, req.query);
+        const hasLegacyPath = !!(req.params.webhookProviderId && req.params.subscribedEventId && req.params.clientUserId && req.params.clientOrganizationId);
+
+        if ((!ingressToken && !hasLegacyPath) || !secret) {
+            return res.status(400).json({
+                success: false,
+                error: 'Bad Request',
+                details: "Missing ingress token or required parameters in URL path (webhookProviderId, subscribedEventId, clientUserId, clientOrganizationId), or secret (query parameter or X-Webhook-Secret header).",
+                hint: "Ensure the webhook URL is in the format /in/:ingressToken?secret=YOUR_SECRET"
+            });
+        }
+
+        const userWebhook: UserWebhook | null = ingressToken
+            ? await findUserWebhookByIngressToken(ingressToken, secret)
+            : await findUserWebhookBySecret(secret);
+        if (!userWebhook) {
+            const requestLabel = ingressToken
+                ? `IngressToken=${ingressToken}`
+                : `Provider=${req.params.webhookProviderId}, Event=${req.params.subscribedEventId}, ClientUser=${req.params.clientUserId}`;
+            console.error(`Verification handshake failed: No UserWebhook found for ${requestLabel} with the provided secret.`);
+            return res.status(401).json({
+                success: false,
+                error: 'Unauthorized',
+                details: "Webhook request could not be authenticated. The secret may be invalid.",
+                hint: "Verify the webhook secret in the URL entered in the provider dashboard."
+            });
+        }
+
+        setIngressAttemptContext(res, {
+            webhookId: userWebhook.webhookId,
+            clientUserId: userWebhook.clientUserId,
+            clientOrganizationId: userWebhook.clientOrganizationId,
+        });
+
+        const webhook = await getWebhookById(userWebhook.webhookId);
+        if (!webhook) {
+            console.error(`Verification handshake failed: No webhook definition found for UserWebhook: ${userWebhook.webhookId}`);
+            return res.status(500).json({
+                success: false,
+                error: 'Internal Server Error',
+                details: `No webhook definition found for UserWebhook: ${userWebhook.webhookId}`,
+                hint: "Contact customer service to report this issue."
+            });
+        }
+        if (!ingressToken && (webhook.webhookProviderId !== req.params.webhookProviderId || webhook.subscribedEventId !== req.params.subscribedEventId)) {
+            console.error(`Verification handshake failed: Webhook definition mismatch for UserWebhook: ${userWebhook.webhookId}`);
+            return res.status(400).json({
+                success: false,
+                error: 'Bad Request',
+                details: `Webhook URL parameters (Provider, Event) do not match the webhook definition for UserWebhook: ${userWebhook.webhookId}`,
+                hint: "Request the user to update the webhook URL in the webhook provider portal."
+            });
+        }
+        const { webhookProviderId } = webhook;
+
+        const signingSecret = await findUserWebhookSigningSecret(userWebhook.webhookId, userWebhook.clientUserId, userWebhook.clientOrganizationId);
+        const handshake = resolveHandshake(webhookProviderId, {
+            method: req.method,
+            query: req.query,
+            body: {},
+            webhookSecret: secret,
+            signingSecret,
+        });
+        if (!handshake) {
+            return res.status(400).json({
+                success: false,
+                error: 'Bad Request',
+                details: `No verification challenge recognized for provider '${webhookProviderId}'. Webhook events must be sent with POST.`,
+                hint: `Verification handshakes are supported for: ${getSupportedHandshakeProviders().join(', ')}.`
+            });
+        }
+
+        if (handshake.verified) {
+            console.log(`Verification handshake answered for UserWebhook: ${userWebhook.webhookId}, Provider=${webhookProviderId}.`);
+            try {
+                await confirmWebhookUrlInput(webhook, userWebhook.clientUserId, userWebhook.clientOrganizationId);
+            } catch (confirmError) {
+                // The provider still gets its answer; the user can confirm the URL manually
+                console.error(`Could not mark the webhook URL as inputed for UserWebhook: ${userWebhook.webhookId}:`, confirmError);
+            }
+        } else {
+            console.error(`Verification handshake failed for UserWebhook: ${userWebhook.webhookId}, Provider=${webhookProviderId}. Reason: ${handshake.reason}`);
+        }
+        (res as Response).status(handshake.statusCode).type(handshake.contentType).send(handshake.body);
+    } catch (error) {
+        console.error('[Controller Error] Incoming Handshake:', error);
+        next(error);
+    }
+};
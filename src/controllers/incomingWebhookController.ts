@@ -7,73 +7,167 @@ import { Request, Response, NextFunction } from 'express';
 import {
     SuccessResponse,
     ErrorResponse,
-    AgentUserWebhook,     // For the linked agent
     UserWebhook,
-    Webhook,
     ServiceResponse,
     WebhookStatus,          // For the validated user webhook link
     // WebhookStatus,     // No longer checking status here, service does
 } from '@agent-base/types';
 import { WebhookRecord } from '../types/db.js'; // For the webhook definition details
+import {
+    ConversationStrategy,
+    PayloadSchemaMode,
+    WebhookAgentLink,
+    WebhookDefinition,
+    WebhookEventOutcome,
+    WebhookResponseMode,
+    WebhookSecretVersion,
+} from '../types/webhook.js';
 import {
     findUserWebhookBySecret, // New service function
+    findUserWebhookByIngressToken,
+    findUserWebhookSigningSecret,
+    findUserWebhookEventFilters,
+    findUserWebhookListeningSince,
 } from '../services/userWebhookLinkService.js';
+import { captureWebhookSample } from '../services/webhookSampleService.js';
 import {
-    findAgentLink,
+    findAgentLinks,
 } from '../services/agentWebhookLinkService.js';
-import { extractValueFromJson } from '../lib/jsonUtils.js'; // Still needed for conversation_id
 import { getWebhookById } from '../services/webhookDefinitionService.js';
-import { processResolvedWebhook } from '../services/webhookProcessorService.js';
+import { ingestResolvedWebhook } from '../services/webhookProcessorService.js';
+import { triggerDeliveryWorker, waitForDeliveryReply } from '../services/deliveryWorkerService.js';
+import { getSignatureVerifier, getSignatureToleranceSeconds } from '../lib/signatureVerification.js';
+import { RawBodyRequest } from '../middleware/rawBody.js';
+import { extractDeduplicationKey } from '../lib/deduplication.js';
+import { ParsedPayload, getMediaType, parseIncomingPayload } from '../lib/payloadParser.js';
+import { resolveHandshake } from '../lib/handshakes.js';
+import { buildDeliveryTargets, routeToAgentLinks } from '../lib/agentRouting.js';
+import { findMatchingEventFilter } from '../lib/eventFilters.js';
+import { resolveConversationId } from '../lib/conversationStrategy.js';
+import { validatePayload } from '../lib/payloadSchema.js';
+import { extractIngressSecret } from '../lib/ingress.js';
+import { setIngressAttemptContext } from '../middleware/ingressAttemptLog.js';
+import { confirmWebhookUrlInput } from '../services/webhookUrlConfirmationService.js';
+import { formatSyncResponse } from '../lib/syncResponses.js';
+import { renderAcknowledgement } from '../lib/acknowledgements.js';
+import { DEFAULT_SYNC_RESPONSE_TIMEOUT_MS } from '../lib/schemas.js';
 
 interface IncomingWebhookParams {
-    webhookProviderId: string;
-    subscribedEventId: string;
-    clientUserId: string;
-    clientOrganizationId: string;
+    // Legacy long-form URL
+    webhookProviderId?: string;
+    subscribedEventId?: string;
+    clientUserId?: string;
+    clientOrganizationId?: string;
+    // Short URL (/in/:ingressToken)
+    ingressToken?: string;
 }
 
 interface IncomingWebhookQuery {
-    secret: string;
+    secret?: string; // Can also be sent in the X-Webhook-Secret header
+    [key: string]: unknown; // Provider handshake parameters, e.g. validationToken
 }
 
-// This assumes your Express router is set up to handle a route like:
-// POST /incoming/:webhookProviderId/:subscribedEventId/:clientUserId
-// And that this controller is the handler for it.
+/**
+ * Answers a request of a 'sync' webhook definition with a reply (or its fallback) formatted for the provider.
+ */
+const sendSyncResponse = (res: Response, webhook: WebhookDefinition, reply: string | null, payload: Record<string, any>) => {
+    const syncResponse = formatSyncResponse(webhook.webhookProviderId, {
+        reply: reply ?? webhook.syncResponse?.fallbackMessage ?? null,
+        payload,
+    });
+    return res.status(syncResponse.statusCode).type(syncResponse.contentType).send(syncResponse.body);
+};
+
+/**
+ * Acknowledges an event with the webhook's custom acknowledgement, or the JSON envelope.
+ * The outcome is kept as the reason of the ingress attempt, since a custom body does not describe it.
+ */
+const sendAcknowledgement = (
+    res: Response,
+    webhook: WebhookDefinition,
+    outcome: string,
+    event: { payload: Record<string, any>; eventId?: string; conversationId?: string }
+) => {
+    if (!webhook.acknowledgement) {
+        return res.status(200).json({ success: true, data: outcome });
+    }
+    setIngressAttemptContext(res, { reason: outcome });
+    const acknowledgement = renderAcknowledgement(webhook.acknowledgement, {
+        ...event,
+        webhookProviderId: webhook.webhookProviderId,
+        subscribedEventId: webhook.subscribedEventId,
+        webhookId: webhook.id,
+    });
+    return res.status(acknowledgement.statusCode).type(acknowledgement.contentType).send(acknowledgement.body);
+};
+
+/**
+ * Answers an event not processed because of the setup of the link (status, agents, conversation mapping):
+ * with the error, or with the custom acknowledgement when it is configured to acknowledge such failures,
+ * so providers do not disable the endpoint.
+ */
+const sendSetupFailure = (
+    res: Response,
+    webhook: WebhookDefinition,
+    statusCode: number,
+    error: ErrorResponse,
+    payload: Record<string, any>
+) => {
+    if (webhook.acknowledgement?.ackInternalFailures) {
+        return sendAcknowledgement(res, webhook, `Not processed: ${error.details ?? error.error}`, { payload });
+    }
+    return res.status(statusCode).json(error);
+};
+
+// This controller handles both webhook URL forms (see lib/ingress.ts):
+// POST /in/:ingressToken
+// POST /incoming/:webhookProviderId/:subscribedEventId/:clientUserId/:clientOrganizationId (legacy)
 export const incomingWebhookController = async (req: Request<IncomingWebhookParams, {}, any, IncomingWebhookQuery>, res: Response<ServiceResponse<string>>, next: NextFunction) => {
     try {
-        const { webhookProviderId, subscribedEventId, clientUserId, clientOrganizationId } = req.params;
-        const { secret } = req.query;
-        const payload = req.body;
+        const { ingressToken } = req.params;
+        const secret = extractIngressSecret(req.headers, req.query);
+        const hasLegacyPath = !!(req.params.webhookProviderId && req.params.subscribedEventId && req.params.clientUserId && req.params.clientOrganizationId);
+        const requestLabel = ingressToken
+            ? `IngressToken=${ingressToken}`
+            : `Provider=${req.params.webhookProviderId}, Event=${req.params.subscribedEventId}, ClientUser=${req.params.clientUserId}`;
 
         // Basic validation of inputs
-        if (!webhookProviderId || !subscribedEventId || !clientUserId || !clientOrganizationId || !secret) {
-            console.error(`Webhook resolution failed: Missing required parameters in URL path (webhookProviderId, subscribedEventId, clientUserId, clientOrganizationId) or query (secret).`);
+        if ((!ingressToken && !hasLegacyPath) || !secret) {
+            console.error(`Webhook resolution failed: Missing ingress token or required parameters in URL path, or secret (query or X-Webhook-Secret header).`);
             return res.status(400).json({
                 success: false,
                 error: 'Bad Request',
-                details: "Missing required parameters in URL path (webhookProviderId, subscribedEventId, clientUserId, clientOrganizationId) or query (secret).",
-                hint: "Ensure the webhook URL is in the format /incoming/:webhookProviderId/:subscribedEventId/:clientUserId/:clientOrganizationId?secret=YOUR_SECRET"
+                details: "Missing ingress token or required parameters in URL path (webhookProviderId, subscribedEventId, clientUserId, clientOrganizationId), or secret (query parameter or X-Webhook-Secret header).",
+                hint: "Ensure the webhook URL is in the format /in/:ingressToken?secret=YOUR_SECRET"
             });
         }
 
-        if (!payload || typeof payload !== 'object' || Object.keys(payload).length === 0) {
-            console.error(`Webhook resolution failed: Request body is missing, not an object, or is empty. A JSON payload is expected.`);
+        // Normalize JSON, form, XML, text and binary bodies into an object for the mappings
+        let parsedPayload: ParsedPayload;
+        try {
+            parsedPayload = parseIncomingPayload(req.body, req.headers);
+        } catch (parseError) {
+            const reason = parseError instanceof Error ? parseError.message : String(parseError);
+            console.error(`Webhook resolution failed: Request body could not be parsed as '${getMediaType(req.headers)}'. ${reason}`);
             return res.status(400).json({
                 success: false,
                 error: 'Bad Request',
-                details: "Request body is missing, not an object, or is empty. A JSON payload is expected.",
-                hint: "Ensure the webhook event sends a valid JSON payload in the request body."
+                details: `Request body could not be parsed: ${reason}`,
+                hint: "Ensure the Content-Type header matches the request body."
             });
         }
+        const { payload, contentType } = parsedPayload;
 
-        console.log(`Incoming webhook: Provider=${webhookProviderId}, Event=${subscribedEventId}, ClientUser=${clientUserId}`);
+        console.log(`Incoming webhook: ${requestLabel}`);
         // console.log(`Payload:`, JSON.stringify(payload, null, 2)); // Be cautious logging full payloads in production
 
         // 1. Find and validate the UserWebhook link and its definition using the secret
-        const findUserWebhookResult : UserWebhook | null = await findUserWebhookBySecret(secret);
+        const findUserWebhookResult : UserWebhook | null = ingressToken
+            ? await findUserWebhookByIngressToken(ingressToken, secret)
+            : await findUserWebhookBySecret(secret);
 
         if (!findUserWebhookResult) {
-            console.error(`Webhook resolution failed: No active UserWebhook found for Provider=${webhookProviderId}, Event=${subscribedEventId}, ClientUser=${clientUserId} with the provided secret.`);
+            console.error(`Webhook resolution failed: No active UserWebhook found for ${requestLabel} with the provided secret.`);
             return res.status(401).json({ // 401 Unauthorized, as the secret/combination is invalid
                 success: false,
                 error: 'Unauthorized',
@@ -81,28 +175,20 @@ export const incomingWebhookController = async (req: Request<IncomingWebhookPara
                 hint: "Verify the webhook secret and ensure the user's webhook link is active and correctly configured for this provider and event."
             });
         }
-        if (findUserWebhookResult.status == WebhookStatus.UNSET) {
-            console.error(`Webhook resolution failed: UserWebhook is unset for Provider=${webhookProviderId}, Event=${subscribedEventId}, ClientUser=${clientUserId} with the provided secret.`);
-            return res.status(401).json({ // 401 Unauthorized, as the secret/combination is invalid
-                success: false,
-                error: 'Unauthorized',
-                details: "The webhook user link is not setup",
-                hint: "Link the webhook to the user by calling the webhook link user tool"
-            });
-        }
-        if (findUserWebhookResult.status == WebhookStatus.DISABLED) {
-            console.error(`Webhook resolution failed: UserWebhook is disabled for Provider=${webhookProviderId}, Event=${subscribedEventId}, ClientUser=${clientUserId} with the provided secret.`);
-            return res.status(401).json({ // 401 Unauthorized, as the secret/combination is invalid
-                success: false,
-                error: 'Disabled',
-                details: "The webhook is disabled for the current user",
-                hint: "Ask the user to enable the webhook if he wants event payloads to be processed"
-            });
-        }
 
         // 2. Get the webhook definition
         const userWebhook = findUserWebhookResult;
-        const webhook : Webhook | null = await getWebhookById(userWebhook.webhookId);
+        setIngressAttemptContext(res, {
+            webhookId: userWebhook.webhookId,
+            clientUserId: userWebhook.clientUserId,
+            clientOrganizationId: userWebhook.clientOrganizationId,
+        });
+        // A rotated secret is still accepted during its grace period
+        const secretVersion = secret === userWebhook.webhookSecret ? WebhookSecretVersion.CURRENT : WebhookSecretVersion.PREVIOUS;
+        if (secretVersion === WebhookSecretVersion.PREVIOUS) {
+            console.warn(`Incoming webhook for UserWebhook: ${userWebhook.webhookId}, ClientUser: ${userWebhook.clientUserId} used a rotated secret still in its grace period. The provider should be updated with the new webhook URL.`);
+        }
+        const webhook : WebhookDefinition | null = await getWebhookById(userWebhook.webhookId);
         if (!webhook) {
             console.error(`Webhook resolution failed: No webhook definition found for UserWebhook: ${userWebhook.webhookId}`);
             return res.status(500).json({
@@ -112,7 +198,8 @@ export const incomingWebhookController = async (req: Request<IncomingWebhookPara
                 hint: "Contact customer service to report this issue."
             });
         }
-        if (webhook.webhookProviderId !== webhookProviderId || webhook.subscribedEventId !== subscribedEventId) {
+        // The short URL carries no provider or event; the legacy path must match the definition
+        if (!ingressToken && (webhook.webhookProviderId !== req.params.webhookProviderId || webhook.subscribedEventId !== req.params.subscribedEventId)) {
             console.error(`Webhook resolution failed: Webhook definition mismatch for UserWebhook: ${userWebhook.webhookId}`);
             return res.status(400).json({
                 success: false,
@@ -121,57 +208,271 @@ export const incomingWebhookController = async (req: Request<IncomingWebhookPara
                 hint: "Request the user to update the webhook URL in the webhook provider portal."
             });
         }
+        const { webhookProviderId, subscribedEventId } = webhook;
         
-        // 3. Find the linked agent for this user and webhook
-        const agentLink: AgentUserWebhook | null = await findAgentLink(userWebhook.webhookId, userWebhook.clientUserId, userWebhook.clientOrganizationId);
+        // 3. Verify the provider-native signature when a signing secret is configured on the link
+        const signingSecret = await findUserWebhookSigningSecret(userWebhook.webhookId, userWebhook.clientUserId, userWebhook.clientOrganizationId);
+        if (signingSecret) {
+            const verifier = getSignatureVerifier(webhookProviderId);
+            if (!verifier) {
+                // Fail closed: the URL secret alone must not be enough once a signing secret is expected
+                console.error(`Webhook resolution failed: Signing secret configured for UserWebhook: ${userWebhook.webhookId} but no signature verifier exists for provider ${webhookProviderId}.`);
+                return res.status(401).json({
+                    success: false,
+                    error: 'Unauthorized',
+                    details: `A signing secret is configured for this webhook, but signatures of provider '${webhookProviderId}' cannot be verified.`,
+                    hint: "Clear the signing secret of the webhook (PUT /:webhookId/signing-secret with null), or use a provider with signature verification."
+                });
+            }
+            const verification = verifier({
+                rawBody: (req as RawBodyRequest).rawBody ?? Buffer.from(''),
+                headers: req.headers,
+                url: `${process.env.WEBHOOK_URL ?? ''}${req.originalUrl}`,
+                body: payload,
+                signingSecret,
+                toleranceSeconds: getSignatureToleranceSeconds(),
+            });
+            if (!verification.valid) {
+                console.error(`Webhook resolution failed: Signature verification failed for UserWebhook: ${userWebhook.webhookId}, Provider=${webhookProviderId}. Reason: ${verification.reason}`);
+                return res.status(401).json({
+                    success: false,
+                    error: 'Unauthorized',
+                    details: `Webhook signature verification failed: ${verification.reason}`,
+                    hint: "Ensure the signing secret configured for this webhook matches the one shown in the provider dashboard."
+                });
+            }
+        }
+
+        // 4. Answer provider verification handshakes (Slack url_verification, Graph validationToken, Zoom url_validation).
+        // Handshakes happen while the link is still being set up, so they run before the status checks.
+        const handshake = resolveHandshake(webhookProviderId, {
+            method: req.method,
+            query: req.query,
+            body: payload,
+            webhookSecret: secret,
+            signingSecret,
+        });
+        if (handshake) {
+            if (handshake.verified) {
+                console.log(`Verification handshake answered for UserWebhook: ${userWebhook.webhookId}, Provider=${webhookProviderId}.`);
+                try {
+                    await confirmWebhookUrlInput(webhook, userWebhook.clientUserId, userWebhook.clientOrganizationId);
+                } catch (confirmError) {
+                    // The provider still gets its answer; the user can confirm the URL manually
+                    console.error(`Could not mark the webhook URL as inputed for UserWebhook: ${userWebhook.webhookId}:`, confirmError);
+                }
+            } else {
+                console.error(`Verification handshake failed for UserWebhook: ${userWebhook.webhookId}, Provider=${webhookProviderId}. Reason: ${handshake.reason}`);
+            }
+            return (res as Response).status(handshake.statusCode).type(handshake.contentType).send(handshake.body);
+        }
+
+        // A disabled link accepts nothing, not even samples
+        if (userWebhook.status == WebhookStatus.DISABLED) {
+            console.error(`Webhook resolution failed: UserWebhook is disabled for Provider=${webhookProviderId}, Event=${subscribedEventId}, ClientUser=${userWebhook.clientUserId} with the provided secret.`);
+            return sendSetupFailure(res, webhook, 401, { // 401 Unauthorized, as the secret/combination is invalid
+                success: false,
+                error: 'Disabled',
+                details: "The webhook is disabled for the current user",
+                hint: "Ask the user to enable the webhook if he wants event payloads to be processed"
+            }, payload);
+        }
+
+        // 5. Capture the event as a sample while the link is listening (see PUT /:webhookId/listening).
+        // Listening is used to set up the mappings, so it runs before the unset status and agent checks.
+        const listeningSince = await findUserWebhookListeningSince(userWebhook.webhookId, userWebhook.clientUserId, userWebhook.clientOrganizationId);
+        if (listeningSince && !parsedPayload.isEmpty) {
+            const sample = await captureWebhookSample({
+                webhookId: userWebhook.webhookId,
+                clientUserId: userWebhook.clientUserId,
+                clientOrganizationId: userWebhook.clientOrganizationId,
+                payload,
+                contentType,
+                headers: req.headers,
+            });
+            console.log(`Webhook event for UserWebhook: ${userWebhook.webhookId} captured as sample ${sample.sampleId} (listening since ${listeningSince.toISOString()}), not processed.`);
+            return sendAcknowledgement(res, webhook, "Webhook event captured as a sample (listening mode); not processed", { payload });
+        }
+
+        if (userWebhook.status == WebhookStatus.UNSET) {
+            console.error(`Webhook resolution failed: UserWebhook is unset for Provider=${webhookProviderId}, Event=${subscribedEventId}, ClientUser=${userWebhook.clientUserId} with the provided secret.`);
+            return sendSetupFailure(res, webhook, 401, { // 401 Unauthorized, as the secret/combination is invalid
+                success: false,
+                error: 'Unauthorized',
+                details: "The webhook user link is not setup",
+                hint: "Link the webhook to the user by calling the webhook link user tool"
+            }, payload);
+        }
+
+        // Empty-body pings (endpoint checks) are acknowledged once authenticated, with nothing to deliver
+        if (parsedPayload.isEmpty) {
+            console.log(`Empty webhook ping acknowledged for UserWebhook: ${userWebhook.webhookId}, Provider=${webhookProviderId}.`);
+            return sendAcknowledgement(res, webhook, "Webhook ping acknowledged", { payload });
+        }
 
-        if (!agentLink) {
+        // 6. Check the payload against the webhook's payload schema: reject it, or flag it on the recorded event
+        const payloadValidationErrors = webhook.payloadSchema ? validatePayload(webhook.payloadSchema, payload) : [];
+        if (payloadValidationErrors.length > 0) {
+            if (webhook.payloadSchemaMode === PayloadSchemaMode.REJECT) {
+                console.error(`Webhook resolution failed: Payload does not conform to the payload schema of webhook ID: ${webhook.id}. ${payloadValidationErrors.length} error(s).`);
+                return res.status(422).json({
+                    success: false,
+                    error: 'Unprocessable Entity',
+                    details: `Webhook payload does not conform to the payload schema: ${payloadValidationErrors.map(error => error.message).join(' ')}`,
+                    hint: "Update the webhook definition's payloadSchema, or set payloadSchemaMode to 'flag' to deliver non-conforming events."
+                });
+            }
+            console.warn(`Payload does not conform to the payload schema of webhook ID: ${webhook.id}. The event is flagged with ${payloadValidationErrors.length} validation error(s).`);
+        }
+
+        // 7. Find the linked agents for this user and webhook; enabled ones are routed in step 10
+        const agentLinks: WebhookAgentLink[] = await findAgentLinks(userWebhook.webhookId, userWebhook.clientUserId, userWebhook.clientOrganizationId);
+
+        if (agentLinks.length === 0) {
             console.error(`No agent link found for UserWebhook: ${userWebhook.webhookId}, ClientUser: ${userWebhook.clientUserId}`);
-            return res.status(404).json({
+            return sendSetupFailure(res, webhook, 404, {
                 success: false,
                 error: 'Not Found',
                 details: `An active user webhook link was found, but no AI agent is configured to handle events for this user (Client ID: ${userWebhook.clientUserId}) and webhook definition (ID: ${userWebhook.webhookId}).`,
                 hint: "Link an AI agent to this webhook"
-            });
+            }, payload);
         }
-
-        // 4. Extract conversationId if mapping exists
-        let conversationIdString: string | null = null;
-        const extractedConvId = extractValueFromJson(payload, webhook.conversationIdIdentificationMapping);
-        if (extractedConvId !== null && extractedConvId !== undefined) {
-            conversationIdString = String(extractedConvId);
+        if (!agentLinks.some(link => link.enabled)) {
+            console.error(`All agent links are disabled for UserWebhook: ${userWebhook.webhookId}, ClientUser: ${userWebhook.clientUserId}`);
+            return sendSetupFailure(res, webhook, 404, {
+                success: false,
+                error: 'Not Found',
+                details: `All AI agents linked to this webhook (ID: ${userWebhook.webhookId}) are disabled for this user (Client ID: ${userWebhook.clientUserId}).`,
+                hint: "Enable at least one linked agent to process events for this webhook"
+            }, payload);
         }
-        
+
+        // 8. Resolve conversationId with the webhook's conversation strategy (mapped, per_event, fixed or hashed)
+        const conversationIdString = resolveConversationId(webhook, {
+            payload,
+            headers: req.headers,
+            query: req.query,
+            webhookId: webhook.id,
+            clientUserId: userWebhook.clientUserId,
+            clientOrganizationId: userWebhook.clientOrganizationId,
+        });
+
         if (!conversationIdString) {
-            console.error(`conversationId could not be extracted for webhook ID: ${webhook.id} using mapping '${webhook.conversationIdIdentificationMapping}'. This is a required field for resolution.`);
-            return res.status(400).json({
+            const source = webhook.conversationStrategy === ConversationStrategy.HASHED
+                ? `hash fields ${JSON.stringify(webhook.conversationHashFields)}`
+                : `mapping '${webhook.conversationIdIdentificationMapping}'`;
+            console.error(`conversationId could not be extracted for webhook ID: ${webhook.id} using ${source}. This is a required field for resolution.`);
+            return sendSetupFailure(res, webhook, 400, {
                 success: false,
                 error: 'Bad Request',
-                details: `Could not extract 'conversationId' from the webhook payload using the defined mapping '${webhook.conversationIdIdentificationMapping}'.Payload: ${JSON.stringify(payload)}`,
-                hint: "Update the webhook definition's conversation ID mapping, it doesn't match any field in the payload."
-            });
+                details: `Could not extract 'conversationId' from the webhook payload using the defined ${source}.Payload: ${JSON.stringify(payload)}`,
+                hint: "Update the webhook definition's conversation settings, they don't match any field in the payload."
+            }, payload);
         }
 
-        const processingParams = {
+        const baseProcessingParams = {
             platformUserId: userWebhook.platformUserId, // Construct PlatformUserId object
             clientUserId: userWebhook.clientUserId,   // Get from the validated userWebhook link
             clientOrganizationId: userWebhook.clientOrganizationId,   // Get from the validated userWebhook link
-            agentId: agentLink.agentId,             // Get from the validated agent link
-            conversationId: conversationIdString, // Use the extracted string
             webhookProviderId: webhook.webhookProviderId, // Use validated provider ID
             subscribedEventId: webhook.subscribedEventId, // Use validated event ID
-            payload: payload,                     // The request body
+            payload: payload,                     // The normalized request body
+            contentType,                          // The original media type of the body
             webhookId: webhook.id,                // Get ID from the webhook definition
-            webhookSecret: secret                 // The secret from the query param
+            webhookSecret: secret,                // The secret from the query param
+            secretVersion,                        // Whether the secret is current or rotated
+            // Provider delivery ID used to drop retries of an already accepted event
+            deduplicationKey: extractDeduplicationKey(webhook.deduplicationKeyMapping, { payload, headers: req.headers, query: req.query }),
+            // Flags an event not conforming to the payload schema ('flag' mode)
+            payloadValidationErrors: payloadValidationErrors.length > 0 ? payloadValidationErrors : null
+        };
+
+        // 9. Drop events matching an event filter of the user-webhook link.
+        // They are still recorded (against the primary agent, so they can be replayed) but never delivered.
+        const eventFilters = await findUserWebhookEventFilters(userWebhook.webhookId, userWebhook.clientUserId, userWebhook.clientOrganizationId);
+        const matchedFilter = findMatchingEventFilter(eventFilters, payload);
+        if (matchedFilter) {
+            const enabledLinks = agentLinks.filter(link => link.enabled);
+            const { webhookEventId, outcome } = await ingestResolvedWebhook({
+                ...baseProcessingParams,
+                targets: buildDeliveryTargets(agentLinks, enabledLinks.slice(0, 1), conversationIdString),
+                matchedFilter,
+            });
+            setIngressAttemptContext(res, { webhookEventId });
+            console.log(`Webhook event for ${webhookProviderId}/${subscribedEventId} matched event filter '${matchedFilter.name}'. Recorded as event ${webhookEventId} (${outcome}), not delivered.`);
+            // Acknowledge so the provider does not retry: filtering is a deliberate choice of the user
+            return sendAcknowledgement(res, webhook, `Webhook event filtered by '${matchedFilter.name}'; not delivered`, {
+                payload,
+                eventId: webhookEventId,
+                conversationId: conversationIdString,
+            });
+        }
+
+        // 10. Apply the payload routing rules of the agent links
+        const { recipients, matchedRuleLink } = routeToAgentLinks(agentLinks, payload);
+        if (recipients.length === 0) {
+            // Acknowledge so the provider does not retry: routing is a deliberate choice of the user
+            console.warn(`No agent routing rule matched for UserWebhook: ${userWebhook.webhookId} and no default agent is linked. Event not delivered.`);
+            return sendAcknowledgement(res, webhook, "No agent routing rule matched and no default agent is linked; event not delivered", {
+                payload,
+                conversationId: conversationIdString,
+            });
+        }
+        if (matchedRuleLink) {
+            console.log(`Routing rule of agent ${matchedRuleLink.agentId} matched for UserWebhook: ${userWebhook.webhookId}.`);
+        }
+
+        const processingParams = {
+            ...baseProcessingParams,
+            targets: buildDeliveryTargets(agentLinks, recipients, conversationIdString), // One delivery per routed agent
+            // Debounces deliveries of the same conversation, if enabled; a 'sync' request needs its own agent run
+            batching: webhook.responseMode === WebhookResponseMode.SYNC ? null : webhook.batching,
         };
 
-        // Trigger the background processing (fire and forget - no await)
-        processResolvedWebhook(processingParams);
+        // Durably log the event and enqueue its deliveries before acknowledging.
+        // If this fails the provider gets a 500 and will retry, so nothing is silently dropped.
+        const { webhookEventId, outcome, deliveryIds, duplicateOfEventId, paused } = await ingestResolvedWebhook(processingParams);
+        setIngressAttemptContext(res, { webhookEventId });
+        if (outcome === WebhookEventOutcome.DUPLICATE) {
+            // Acknowledge retries with 200 so the provider stops resending; the agent already has the event.
+            console.log(`Duplicate webhook event for ${webhookProviderId}/${subscribedEventId} (key '${processingParams.deduplicationKey}', original event ${duplicateOfEventId}). Recorded as event ${webhookEventId}, not delivered.`);
+            if (webhook.responseMode === WebhookResponseMode.SYNC) {
+                return sendSyncResponse(res, webhook, null, payload);
+            }
+            return sendAcknowledgement(res, webhook, "Duplicate webhook event already processed", {
+                payload,
+                eventId: webhookEventId,
+                conversationId: conversationIdString,
+            });
+        }
+        if (paused) {
+            // Accepted so nothing is lost while paused; the deliveries are held until POST /:webhookId/resume
+            console.log(`Webhook event for ${webhookProviderId}/${subscribedEventId} recorded as event ${webhookEventId} while UserWebhook: ${userWebhook.webhookId} is paused. Deliveries held: ${deliveryIds.join(', ')}.`);
+            if (webhook.responseMode === WebhookResponseMode.SYNC) {
+                return sendSyncResponse(res, webhook, null, payload);
+            }
+            return sendAcknowledgement(res, webhook, "Webhook event buffered (link paused); not delivered until resumed", {
+                payload,
+                eventId: webhookEventId,
+                conversationId: conversationIdString,
+            });
+        }
+        triggerDeliveryWorker();
 
-        console.log(`Webhook resolved successfully for ${webhookProviderId}/${subscribedEventId}. Async processing triggered.`);
-        res.status(200).json({
-            success: true,
-            data: "Webhook resolved successfully" // Keep response simple and fast
+        console.log(`Webhook resolved successfully for ${webhookProviderId}/${subscribedEventId}. Event ${webhookEventId} queued for ${deliveryIds.length} agent delivery(ies): ${deliveryIds.join(', ')}.`);
+        // 'sync' webhooks answer with the reply of the primary agent, read from its delivery by any instance
+        if (webhook.responseMode === WebhookResponseMode.SYNC) {
+            const timeoutMs = webhook.syncResponse?.timeoutMs ?? DEFAULT_SYNC_RESPONSE_TIMEOUT_MS;
+            const reply = await waitForDeliveryReply(deliveryIds[0], timeoutMs);
+            if (reply === null) {
+                console.warn(`No agent reply for delivery ${deliveryIds[0]} within ${timeoutMs}ms (or the delivery was given up). Answering with the fallback acknowledgement.`);
+            }
+            return sendSyncResponse(res, webhook, reply, payload);
+        }
+        sendAcknowledgement(res, webhook, "Webhook resolved successfully", { // Keep response simple and fast
+            payload,
+            eventId: webhookEventId,
+            conversationId: conversationIdString,
         });
 
     } catch (error) {
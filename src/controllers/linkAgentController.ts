@@ -32,7 +32,7 @@ export const linkAgentController = async (req: Request, res: Response<ServiceRes
         if (!bodyValidation.success) {
              return res.status(400).json(formatValidationError(bodyValidation.error));
         }
-        const { agentId } = bodyValidation.data;
+        const { agentId, routingRule, priority, isDefault, messageTemplate } = bodyValidation.data;
 
         if (!uuidValidate(agentId)) {
             console.error(`[Controller Error] Link Agent: Invalid agentId format: ${agentId}`);
@@ -100,7 +100,12 @@ export const linkAgentController = async (req: Request, res: Response<ServiceRes
         }
 
         // Pass platformUserId to the service function
-        const agentLink = await linkAgentToWebhookService(webhookId, clientUserId, clientOrganizationId, platformUserId, agentId);
+        const agentLink = await linkAgentToWebhookService(webhookId, clientUserId, clientOrganizationId, platformUserId, agentId, {
+            routingRule,
+            priority,
+            isDefault,
+            messageTemplate,
+        });
         const response: SuccessResponse<AgentUserWebhook> = {
             success: true,
             data: agentLink,
@@ -9,7 +9,6 @@ import {
   ServiceResponse,
   SuccessResponse,
   ErrorResponse,
-  UserType,
   WebhookStatus,
   UtilitySecretType, // General type for secrets
   UserWebhook,      // Represents the user-specific webhook link
@@ -26,7 +25,7 @@ import {
   findUserWebhook as findUserWebhookService,
 } from "../services/userWebhookLinkService.js";
 import { gsmClient } from "../index.js"; // Import the initialized GSM client
-import { generateSecretManagerId } from "@agent-base/secret-client"; // Standard import path
+import { getWebhookUrlConfirmationSecretId } from "../services/webhookUrlConfirmationService.js";
 import { WebhookIdParamsSchema } from "../lib/schemas.js";
 import { formatValidationError } from "../lib/validationUtils.js";
 import { AuthenticatedRequest } from "../middleware/auth.js";
@@ -125,16 +124,11 @@ async function _checkWebhookSetupStatus(
   const confirmationActionType = UtilityActionConfirmation.WEBHOOK_URL_INPUTED;
 
   // Check if the user has confirmed inputting the webhook URL
-  // The generateSecretManagerId expects a UtilityInputSecret type for secretType.
-  // We assume UtilityActionConfirmation.WEBHOOK_URL_INPUTED (a string enum/constant) 
-  // is compatible or assignable to UtilityInputSecret.
-  const applicationSecretId = generateSecretManagerId(
-    UserType.Client,
+  // (set by the user, or automatically when the provider completes a verification handshake)
+  const applicationSecretId = getWebhookUrlConfirmationSecretId(
+    webhook,
     clientUserId,
     clientOrganizationId,
-    webhook.webhookProviderId,
-    confirmationActionType,
-    webhook.subscribedEventId, 
   );
 
   try {
@@ -0,0 +1,62 @@
+/**
+ * Controller: Pause User-Webhook Link
+ * Pauses the caller's user-webhook link. Unlike a disabled link, a paused link keeps accepting
+ * incoming events: they are recorded and their deliveries are held until POST /:webhookId/resume.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { findUserWebhook as findUserWebhookService, pauseUserWebhook } from '../services/userWebhookLinkService.js';
+import { WebhookIdParamsSchema } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+
+interface PauseStatus {
+    webhookId: string;
+    paused: boolean;
+    pausedSince: Date;
+}
+
+/**
+ * Controller for POST /:webhookId/pause.
+ * Pausing an already paused link keeps its original start.
+ */
+export const pauseWebhookController = async (
+    req: Request,
+    res: Response<ServiceResponse<PauseStatus>>,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const paramsValidation = WebhookIdParamsSchema.safeParse(req.params);
+        if (!paramsValidation.success) {
+            res.status(400).json(formatValidationError(paramsValidation.error));
+            return;
+        }
+        const { webhookId } = paramsValidation.data;
+
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        const userWebhook = await findUserWebhookService(webhookId, clientUserId, clientOrganizationId);
+        if (!userWebhook) {
+            res.status(404).json({
+                success: false,
+                error: 'Not Found',
+                details: 'User is not linked to this webhook.',
+                hint: 'Start by linking the user to the webhook.'
+            });
+            return;
+        }
+
+        const pausedSince = await pauseUserWebhook(webhookId, clientUserId, clientOrganizationId);
+        console.log(`[Controller] Paused webhook ${webhookId} for client user ${clientUserId} (since ${pausedSince.toISOString()})`);
+
+        const response: SuccessResponse<PauseStatus> = {
+            success: true,
+            data: { webhookId, paused: true, pausedSince },
+            hint: "Incoming events are still accepted and recorded, but not delivered. Call POST /:webhookId/resume with bufferedEvents 'deliver' or 'discard' to resume."
+        };
+        res.status(200).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Pause Webhook:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,69 @@
+/**
+ * Controller for replaying failed or dead-lettered agent deliveries.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { requeueFailedDeliveries } from '../services/deliveryQueueService.js';
+import { triggerDeliveryWorker } from '../services/deliveryWorkerService.js';
+import { DeliveryIdParamsSchema, ReplayDeliveriesSchema } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+import { ReplayDeliveriesResult } from '../types/delivery.js';
+
+/**
+ * Handles POST /deliveries/:deliveryId/replay (one delivery)
+ * and POST /deliveries/replay with body `{ deliveryIds: string[] }` (many deliveries).
+ * Replayed deliveries are re-run by the worker with the original payload from webhook_events.
+ */
+export const replayDeliveriesController = async (
+    req: Request,
+    res: Response<ServiceResponse<ReplayDeliveriesResult>>,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        let deliveryIds: string[];
+        if (req.params.deliveryId !== undefined) {
+            const paramsValidation = DeliveryIdParamsSchema.safeParse(req.params);
+            if (!paramsValidation.success) {
+                res.status(400).json(formatValidationError(paramsValidation.error));
+                return;
+            }
+            deliveryIds = [paramsValidation.data.deliveryId];
+        } else {
+            const bodyValidation = ReplayDeliveriesSchema.safeParse(req.body);
+            if (!bodyValidation.success) {
+                res.status(400).json(formatValidationError(bodyValidation.error));
+                return;
+            }
+            deliveryIds = [...new Set(bodyValidation.data.deliveryIds)];
+        }
+
+        const replayed = await requeueFailedDeliveries(deliveryIds, clientUserId, clientOrganizationId);
+        const replayedIds = new Set(replayed.map(delivery => delivery.deliveryId));
+        const notReplayed = deliveryIds.filter(id => !replayedIds.has(id));
+
+        if (replayed.length === 0) {
+            res.status(404).json({
+                success: false,
+                error: 'Not Found',
+                details: 'None of the given deliveries exist for this user in a failed or dead-lettered state.',
+                hint: 'List replayable deliveries with GET /deliveries/failed.'
+            });
+            return;
+        }
+
+        triggerDeliveryWorker();
+        console.log(`[Controller] Replaying ${replayed.length} deliveries for clientUserId: ${clientUserId}`);
+
+        const response: SuccessResponse<ReplayDeliveriesResult> = {
+            success: true,
+            data: { replayed, notReplayed },
+        };
+        res.status(202).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Replay Deliveries:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,84 @@
+/**
+ * Controller: Replay Stored Webhook Event
+ * Re-triggers an agent run from an event already stored in webhook_events,
+ * e.g. after fixing an agent prompt or a bad conversation ID mapping.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { findWebhookEventRecord } from '../services/getWebhookEventsService.js';
+import { findWebhookAgentLink } from '../services/agentWebhookLinkService.js';
+import { enqueueEventReplay } from '../services/deliveryQueueService.js';
+import { triggerDeliveryWorker } from '../services/deliveryWorkerService.js';
+import { WebhookEventParamsSchema, ReplayEventSchema } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../types/delivery.js';
+
+/**
+ * Controller for POST /:webhookId/events/:eventId/replay.
+ * Body (optional): `{ agentId?: string, conversationId?: string }` to override the event's agent or conversation.
+ * The overriding agent must be linked to the webhook for the caller.
+ */
+export const replayWebhookEventController = async (
+    req: Request,
+    res: Response<ServiceResponse<WebhookDelivery>>,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const paramsValidation = WebhookEventParamsSchema.safeParse(req.params);
+        if (!paramsValidation.success) {
+            res.status(400).json(formatValidationError(paramsValidation.error));
+            return;
+        }
+        const { webhookId, eventId } = paramsValidation.data;
+
+        const bodyValidation = ReplayEventSchema.safeParse(req.body ?? {});
+        if (!bodyValidation.success) {
+            res.status(400).json(formatValidationError(bodyValidation.error));
+            return;
+        }
+        const { agentId, conversationId } = bodyValidation.data;
+
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        const event = await findWebhookEventRecord(eventId, webhookId, clientUserId, clientOrganizationId);
+        if (!event) {
+            res.status(404).json({
+                success: false,
+                error: 'Not Found',
+                details: `Webhook event ${eventId} not found for webhook ${webhookId}.`,
+                hint: 'List the stored events with GET /:webhookId/events.'
+            });
+            return;
+        }
+
+        if (agentId) {
+            const agentLink = await findWebhookAgentLink(webhookId, clientUserId, clientOrganizationId, agentId);
+            if (!agentLink) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Bad Request',
+                    details: `Agent ${agentId} is not linked to webhook ${webhookId} for this user.`,
+                    hint: 'Link the agent to the webhook first by calling the webhook link agent tool.'
+                });
+                return;
+            }
+        }
+
+        const delivery = await enqueueEventReplay(event, { agentId, conversationId });
+        triggerDeliveryWorker();
+        console.log(`[Controller] Replaying event ${eventId} of webhook ${webhookId} as delivery ${delivery.deliveryId}`);
+
+        const response: SuccessResponse<WebhookDelivery> = {
+            success: true,
+            data: delivery,
+            hint: delivery.status === WebhookDeliveryStatus.PAUSED
+                ? 'The user-webhook link is paused: the replay is held until it is resumed with POST /:webhookId/resume.'
+                : 'The event has been queued for the agent. Failed replays can be inspected with GET /deliveries/failed.'
+        };
+        res.status(202).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Replay Webhook Event:', error);
+        next(error);
+    }
+};
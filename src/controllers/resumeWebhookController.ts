@@ -0,0 +1,77 @@
+/**
+ * Controller: Resume User-Webhook Link
+ * Resumes the caller's paused user-webhook link. The deliveries held while it was paused are either
+ * delivered in the order the events were received or discarded, at the caller's choice.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { findUserWebhook as findUserWebhookService, resumeUserWebhook } from '../services/userWebhookLinkService.js';
+import { triggerDeliveryWorker } from '../services/deliveryWorkerService.js';
+import { WebhookIdParamsSchema, ResumeSchema } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+
+interface ResumeResult {
+    webhookId: string;
+    paused: boolean;
+    bufferedEvents: 'deliver' | 'discard';
+    deliveryIds: string[]; // The held deliveries, delivered or discarded, oldest first
+}
+
+/**
+ * Controller for POST /:webhookId/resume.
+ * Body: `{ bufferedEvents: 'deliver' | 'discard' }`. Resuming a link that is not paused releases nothing.
+ */
+export const resumeWebhookController = async (
+    req: Request,
+    res: Response<ServiceResponse<ResumeResult>>,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const paramsValidation = WebhookIdParamsSchema.safeParse(req.params);
+        if (!paramsValidation.success) {
+            res.status(400).json(formatValidationError(paramsValidation.error));
+            return;
+        }
+        const { webhookId } = paramsValidation.data;
+
+        const bodyValidation = ResumeSchema.safeParse(req.body);
+        if (!bodyValidation.success) {
+            res.status(400).json(formatValidationError(bodyValidation.error));
+            return;
+        }
+        const { bufferedEvents } = bodyValidation.data;
+
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        const userWebhook = await findUserWebhookService(webhookId, clientUserId, clientOrganizationId);
+        if (!userWebhook) {
+            res.status(404).json({
+                success: false,
+                error: 'Not Found',
+                details: 'User is not linked to this webhook.',
+                hint: 'Start by linking the user to the webhook.'
+            });
+            return;
+        }
+
+        const discard = bufferedEvents === 'discard';
+        const deliveryIds = await resumeUserWebhook(webhookId, clientUserId, clientOrganizationId, discard);
+        if (!discard && deliveryIds.length > 0) {
+            triggerDeliveryWorker();
+        }
+        console.log(`[Controller] Resumed webhook ${webhookId} for client user ${clientUserId}: ${deliveryIds.length} held delivery(ies) ${discard ? 'discarded' : 'released'}`);
+
+        const response: SuccessResponse<ResumeResult> = {
+            success: true,
+            data: { webhookId, paused: false, bufferedEvents, deliveryIds },
+            hint: discard
+                ? `${deliveryIds.length} buffered delivery(ies) discarded. New events are delivered again.`
+                : `${deliveryIds.length} buffered delivery(ies) queued in the order the events were received. New events are delivered again.`
+        };
+        res.status(200).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Resume Webhook:', error);
+        next(error);
+    }
+};
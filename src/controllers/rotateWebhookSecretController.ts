@@ -0,0 +1,89 @@
+/**
+ * Controller: Rotate Webhook Secret
+ * Issues a new URL secret for the caller's user-webhook link. The previous secret keeps working
+ * for a grace period, so the provider can be switched to the new URL without dropping events.
+ */
+import { Response, NextFunction, Request } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { getWebhookById } from '../services/webhookDefinitionService.js';
+import {
+    findUserWebhook as findUserWebhookService,
+    rotateUserWebhookSecret,
+} from '../services/userWebhookLinkService.js';
+import { WebhookIdParamsSchema, RotateSecretSchema, MAX_SECRET_ROTATION_GRACE_SECONDS } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+import { readPositiveIntEnv } from '../lib/configUtils.js';
+import { constructWebhookTargetUrl } from '../lib/urlUtils.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+
+const DEFAULT_GRACE_PERIOD_SECONDS = Math.min(
+    readPositiveIntEnv('WEBHOOK_SECRET_ROTATION_GRACE_SECONDS', 24 * 60 * 60),
+    MAX_SECRET_ROTATION_GRACE_SECONDS
+);
+
+interface SecretRotationResult {
+    webhookId: string;
+    webhookUrl: string;
+    previousSecretExpiresAt: Date;
+}
+
+/**
+ * Controller for POST /:webhookId/rotate-secret - Issue a new URL secret.
+ * Returns the new webhook URL to paste into the provider dashboard.
+ */
+export const rotateWebhookSecretController = async (req: Request, res: Response<ServiceResponse<SecretRotationResult>>, next: NextFunction) => {
+    try {
+        const paramsValidation = WebhookIdParamsSchema.safeParse(req.params);
+        if (!paramsValidation.success) {
+            return res.status(400).json(formatValidationError(paramsValidation.error));
+        }
+        const { webhookId } = paramsValidation.data;
+
+        const bodyValidation = RotateSecretSchema.safeParse(req.body ?? {});
+        if (!bodyValidation.success) {
+            return res.status(400).json(formatValidationError(bodyValidation.error));
+        }
+        const gracePeriodSeconds = bodyValidation.data.gracePeriodSeconds ?? DEFAULT_GRACE_PERIOD_SECONDS;
+
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        const webhook = await getWebhookById(webhookId);
+        if (!webhook) {
+            return res.status(404).json({
+                success: false,
+                error: 'Not Found',
+                details: 'Webhook definition not found.',
+                hint: 'Check the webhook ID or search for the webhook first.'
+            });
+        }
+
+        const userWebhook = await findUserWebhookService(webhookId, clientUserId, clientOrganizationId);
+        if (!userWebhook) {
+            return res.status(404).json({
+                success: false,
+                error: 'Not Found',
+                details: 'User is not linked to this webhook.',
+                hint: 'Start by linking the user to the webhook.'
+            });
+        }
+
+        const { previousSecretExpiresAt } = await rotateUserWebhookSecret(webhookId, clientUserId, clientOrganizationId, gracePeriodSeconds);
+        const webhookUrl = await constructWebhookTargetUrl(webhook, clientUserId, clientOrganizationId);
+
+        const response: SuccessResponse<SecretRotationResult> = {
+            success: true,
+            data: {
+                webhookId,
+                webhookUrl,
+                previousSecretExpiresAt,
+            },
+            hint: gracePeriodSeconds > 0
+                ? `Update the webhook URL in the provider dashboard before ${previousSecretExpiresAt.toISOString()}; the previous URL stops working then.`
+                : 'The previous webhook URL no longer works. Update the webhook URL in the provider dashboard.'
+        };
+        res.status(200).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Rotate Webhook Secret:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,74 @@
+/**
+ * Controller: Set Event Filters
+ * Replaces the event filters of the caller's user-webhook link. Incoming events matching a filter
+ * are recorded with outcome 'filtered' and never reach the linked agents.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import {
+    findUserWebhook as findUserWebhookService,
+    updateUserWebhookEventFilters,
+} from '../services/userWebhookLinkService.js';
+import { WebhookIdParamsSchema, EventFiltersSchema } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+import { EventFilter } from '../lib/eventFilters.js';
+
+interface EventFiltersStatus {
+    webhookId: string;
+    filters: EventFilter[];
+}
+
+/**
+ * Controller for PUT /:webhookId/filters.
+ * Body: `{ filters: [{ name: string, rule: Predicate }] }`. An empty array delivers every event again.
+ */
+export const setEventFiltersController = async (
+    req: Request,
+    res: Response<ServiceResponse<EventFiltersStatus>>,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const paramsValidation = WebhookIdParamsSchema.safeParse(req.params);
+        if (!paramsValidation.success) {
+            res.status(400).json(formatValidationError(paramsValidation.error));
+            return;
+        }
+        const { webhookId } = paramsValidation.data;
+
+        const bodyValidation = EventFiltersSchema.safeParse(req.body);
+        if (!bodyValidation.success) {
+            res.status(400).json(formatValidationError(bodyValidation.error));
+            return;
+        }
+        const { filters } = bodyValidation.data;
+
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        const userWebhook = await findUserWebhookService(webhookId, clientUserId, clientOrganizationId);
+        if (!userWebhook) {
+            res.status(404).json({
+                success: false,
+                error: 'Not Found',
+                details: 'User is not linked to this webhook.',
+                hint: 'Start by linking the user to the webhook.'
+            });
+            return;
+        }
+
+        const storedFilters = await updateUserWebhookEventFilters(webhookId, clientUserId, clientOrganizationId, filters);
+        console.log(`[Controller] Set ${storedFilters.length} event filter(s) on webhook ${webhookId} for client user ${clientUserId}`);
+
+        const response: SuccessResponse<EventFiltersStatus> = {
+            success: true,
+            data: { webhookId, filters: storedFilters },
+            hint: storedFilters.length > 0
+                ? "Matching events are recorded with outcome 'filtered' and not delivered. Inspect them with GET /:webhookId/events."
+                : 'No event filters: every event is delivered to the linked agents.'
+        };
+        res.status(200).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Set Event Filters:', error);
+        next(error);
+    }
+};
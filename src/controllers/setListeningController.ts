@@ -0,0 +1,81 @@
+/**
+ * Controller: Set Listening Mode
+ * Starts or stops listening on the caller's user-webhook link. While listening, incoming events are
+ * captured as samples (see GET /:webhookId/samples) instead of being delivered to the linked agents,
+ * so the conversation ID mapping can be chosen from real payloads.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import {
+    findUserWebhook as findUserWebhookService,
+    findUserWebhookListeningSince,
+    updateUserWebhookListening,
+} from '../services/userWebhookLinkService.js';
+import { deleteWebhookSamples } from '../services/webhookSampleService.js';
+import { WebhookIdParamsSchema, ListeningSchema } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+
+interface ListeningStatus {
+    webhookId: string;
+    listening: boolean;
+    listeningSince: Date | null;
+}
+
+/**
+ * Controller for PUT /:webhookId/listening.
+ * Body: `{ listening: boolean }`. Starting a new listening session discards the samples of the previous one;
+ * stopping keeps them, so suggestions can still be read.
+ */
+export const setListeningController = async (
+    req: Request,
+    res: Response<ServiceResponse<ListeningStatus>>,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const paramsValidation = WebhookIdParamsSchema.safeParse(req.params);
+        if (!paramsValidation.success) {
+            res.status(400).json(formatValidationError(paramsValidation.error));
+            return;
+        }
+        const { webhookId } = paramsValidation.data;
+
+        const bodyValidation = ListeningSchema.safeParse(req.body);
+        if (!bodyValidation.success) {
+            res.status(400).json(formatValidationError(bodyValidation.error));
+            return;
+        }
+        const { listening } = bodyValidation.data;
+
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        const userWebhook = await findUserWebhookService(webhookId, clientUserId, clientOrganizationId);
+        if (!userWebhook) {
+            res.status(404).json({
+                success: false,
+                error: 'Not Found',
+                details: 'User is not linked to this webhook.',
+                hint: 'Start by linking the user to the webhook.'
+            });
+            return;
+        }
+
+        if (listening && !(await findUserWebhookListeningSince(webhookId, clientUserId, clientOrganizationId))) {
+            await deleteWebhookSamples(webhookId, clientUserId, clientOrganizationId);
+        }
+        const listeningSince = await updateUserWebhookListening(webhookId, clientUserId, clientOrganizationId, listening);
+        console.log(`[Controller] ${listening ? 'Started' : 'Stopped'} listening on webhook ${webhookId} for client user ${clientUserId}`);
+
+        const response: SuccessResponse<ListeningStatus> = {
+            success: true,
+            data: { webhookId, listening, listeningSince },
+            hint: listening
+                ? 'Incoming events are now captured as samples and not delivered. Trigger a few events in the provider, then call GET /:webhookId/samples for conversation mapping suggestions.'
+                : 'Incoming events are processed and delivered again.'
+        };
+        res.status(200).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Set Listening Mode:', error);
+        next(error);
+    }
+};
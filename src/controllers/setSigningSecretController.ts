@@ -0,0 +1,91 @@
+/**
+ * Controller: Set Provider Signing Secret
+ * Stores the signing secret a provider uses to sign its requests (e.g. Stripe `whsec_...`)
+ * on the caller's user-webhook link, enabling native signature verification on incoming events.
+ */
+import { Response, NextFunction, Request } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { getWebhookById } from '../services/webhookDefinitionService.js';
+import {
+    findUserWebhook as findUserWebhookService,
+    updateUserWebhookSigningSecret,
+} from '../services/userWebhookLinkService.js';
+import { WebhookIdParamsSchema, SigningSecretSchema } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+import { getSignatureVerifier, getSupportedSignatureProviders } from '../lib/signatureVerification.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+
+interface SigningSecretStatus {
+    webhookId: string;
+    webhookProviderId: string;
+    signatureVerificationEnabled: boolean;
+}
+
+/**
+ * Controller for PUT /:webhookId/signing-secret - Set or clear the provider signing secret.
+ * The secret itself is never echoed back.
+ */
+export const setSigningSecretController = async (req: Request, res: Response<ServiceResponse<SigningSecretStatus>>, next: NextFunction) => {
+    try {
+        const paramsValidation = WebhookIdParamsSchema.safeParse(req.params);
+        if (!paramsValidation.success) {
+            return res.status(400).json(formatValidationError(paramsValidation.error));
+        }
+        const { webhookId } = paramsValidation.data;
+
+        const bodyValidation = SigningSecretSchema.safeParse(req.body);
+        if (!bodyValidation.success) {
+            return res.status(400).json(formatValidationError(bodyValidation.error));
+        }
+        const { signingSecret } = bodyValidation.data;
+
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        const webhook = await getWebhookById(webhookId);
+        if (!webhook) {
+            return res.status(404).json({
+                success: false,
+                error: 'Not Found',
+                details: 'Webhook definition not found.',
+                hint: 'Check the webhook ID or search for the webhook first.'
+            });
+        }
+
+        if (signingSecret && !getSignatureVerifier(webhook.webhookProviderId)) {
+            return res.status(400).json({
+                success: false,
+                error: 'Bad Request',
+                details: `Signature verification is not supported for provider '${webhook.webhookProviderId}'.`,
+                hint: `Supported providers: ${getSupportedSignatureProviders().join(', ')}.`
+            });
+        }
+
+        const userWebhook = await findUserWebhookService(webhookId, clientUserId, clientOrganizationId);
+        if (!userWebhook) {
+            return res.status(404).json({
+                success: false,
+                error: 'Not Found',
+                details: 'User is not linked to this webhook.',
+                hint: 'Start by linking the user to the webhook.'
+            });
+        }
+
+        await updateUserWebhookSigningSecret(webhookId, clientUserId, clientOrganizationId, signingSecret);
+
+        const response: SuccessResponse<SigningSecretStatus> = {
+            success: true,
+            data: {
+                webhookId,
+                webhookProviderId: webhook.webhookProviderId,
+                signatureVerificationEnabled: !!signingSecret,
+            },
+            hint: signingSecret
+                ? 'Incoming events for this webhook must now carry a valid provider signature.'
+                : 'Provider signature verification is disabled; only the URL secret authenticates incoming events.'
+        };
+        res.status(200).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Set Signing Secret:', error);
+        next(error);
+    }
+};
@@ -0,0 +1,75 @@
+/**
+ * Controller: Test Webhook (dry run)
+ * Shows what the incoming webhook route would do with a sample event for the caller's user-webhook
+ * link: the conversation ID, the filter and routing decisions and the message each agent would get.
+ * Nothing is recorded and no agent is called.
+ */
+import { Response, NextFunction, Request } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { getWebhookById } from '../services/webhookDefinitionService.js';
+import { dryRunWebhookEvent } from '../services/webhookDryRunService.js';
+import { WebhookIdParamsSchema, TestWebhookSchema } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+import { WebhookDryRunOutcome, WebhookDryRunResult } from '../types/webhook.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+
+const OUTCOME_HINTS: Record<WebhookDryRunOutcome, string> = {
+    [WebhookDryRunOutcome.DELIVERED]: 'The event would be recorded and delivered to the agents listed in deliveries.',
+    [WebhookDryRunOutcome.FILTERED]: 'The event would be acknowledged and recorded but not delivered, because it matches matchedFilter.',
+    [WebhookDryRunOutcome.NOT_ROUTED]: 'The event would be acknowledged but not delivered: no routing rule matched and no default agent is linked.',
+    [WebhookDryRunOutcome.NO_CONVERSATION_ID]: "The event would be rejected with 400: update the webhook's conversation settings so they match the payload.",
+    [WebhookDryRunOutcome.INVALID_PAYLOAD]: "The event would be rejected with 422: it does not conform to the webhook's payloadSchema (see payloadValidationErrors).",
+    [WebhookDryRunOutcome.NOT_LINKED]: 'The event would be rejected: link the user to the webhook, activate the link and link at least one enabled agent.',
+};
+
+/**
+ * Controller for POST /:webhookId/test - Dry-run a sample event.
+ * Body: `{ payload, headers?, query? }`.
+ */
+export const testWebhookController = async (req: Request, res: Response<ServiceResponse<WebhookDryRunResult>>, next: NextFunction) => {
+    try {
+        const paramsValidation = WebhookIdParamsSchema.safeParse(req.params);
+        if (!paramsValidation.success) {
+            return res.status(400).json(formatValidationError(paramsValidation.error));
+        }
+        const { webhookId } = paramsValidation.data;
+
+        const bodyValidation = TestWebhookSchema.safeParse(req.body);
+        if (!bodyValidation.success) {
+            return res.status(400).json(formatValidationError(bodyValidation.error));
+        }
+        const { payload, headers, query } = bodyValidation.data;
+
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        const webhook = await getWebhookById(webhookId);
+        if (!webhook) {
+            return res.status(404).json({
+                success: false,
+                error: 'Not Found',
+                details: 'Webhook definition not found.',
+                hint: 'Check the webhook ID or search for the webhook first.'
+            });
+        }
+
+        const result = await dryRunWebhookEvent({
+            webhook,
+            clientUserId,
+            clientOrganizationId,
+            payload,
+            // Incoming requests expose lowercase header names
+            headers: Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])),
+            query,
+        });
+
+        const response: SuccessResponse<WebhookDryRunResult> = {
+            success: true,
+            data: result,
+            hint: OUTCOME_HINTS[result.outcome],
+        };
+        res.status(200).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Test Webhook:', error);
+        next(error);
+    }
+};
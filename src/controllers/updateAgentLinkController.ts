@@ -0,0 +1,60 @@
+/**
+ * Controller for enabling or disabling an agent linked to a webhook.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { ServiceResponse, SuccessResponse } from '@agent-base/types';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { setAgentLinkEnabled } from '../services/agentWebhookLinkService.js';
+import { AgentLinkParamsSchema, UpdateAgentLinkSchema } from '../lib/schemas.js';
+import { formatValidationError } from '../lib/validationUtils.js';
+import { WebhookAgentLink } from '../types/webhook.js';
+
+/**
+ * Handles PATCH /:webhookId/agents/:agentId.
+ * Body: `{ enabled: boolean }`. A disabled agent stays linked but receives no new events.
+ */
+export const updateAgentLinkController = async (
+    req: Request,
+    res: Response<ServiceResponse<WebhookAgentLink>>,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const paramsValidation = AgentLinkParamsSchema.safeParse(req.params);
+        if (!paramsValidation.success) {
+            res.status(400).json(formatValidationError(paramsValidation.error));
+            return;
+        }
+        const { webhookId, agentId } = paramsValidation.data;
+
+        const bodyValidation = UpdateAgentLinkSchema.safeParse(req.body);
+        if (!bodyValidation.success) {
+            res.status(400).json(formatValidationError(bodyValidation.error));
+            return;
+        }
+        const { enabled } = bodyValidation.data;
+        const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
+
+        const agentLink = await setAgentLinkEnabled(webhookId, clientUserId, clientOrganizationId, agentId, enabled);
+        if (!agentLink) {
+            res.status(404).json({
+                success: false,
+                error: 'Not Found',
+                details: `Agent ${agentId} is not linked to webhook ${webhookId} for this user.`,
+                hint: 'List the linked agents with GET /:webhookId/agents.'
+            });
+            return;
+        }
+
+        const response: SuccessResponse<WebhookAgentLink> = {
+            success: true,
+            data: agentLink,
+            hint: enabled
+                ? 'The agent will receive new events for this webhook.'
+                : 'The agent will no longer receive events for this webhook until it is enabled again.',
+        };
+        res.status(200).json(response);
+    } catch (error) {
+        console.error('[Controller Error] Update Agent Link:', error);
+        next(error);
+    }
+};
@@ -1,11 +1,24 @@
 import { Request, Response } from 'express';
 import * as webhookDefinitionService from '../services/webhookDefinitionService.js';
 import { AuthenticatedRequest } from '../middleware/auth.js';
-import { WebhookData } from '@agent-base/types';
+import { ConversationStrategy, PayloadSchemaMode, WebhookDefinitionData, WebhookResponseMode } from '../types/webhook.js';
+import {
+    AcknowledgementSchema,
+    BatchingSchema,
+    ConversationHashFieldsSchema,
+    DeduplicationKeyMappingSchema,
+    MessageTemplateSchema,
+    PayloadSchemaSchema,
+    SyncResponseSchema,
+    ValueExpressionSchema,
+} from '../lib/schemas.js';
+import { validateConversationSettings } from '../lib/conversationStrategy.js';
+import { z } from 'zod';
+import { formatValidationError } from '../lib/validationUtils.js';
 
 export const updateWebhookController = async (req: Request, res: Response) => {
     const { webhookId } = req.params;
-    const updates: Partial<WebhookData> = req.body;
+    const updates: Partial<WebhookDefinitionData> = req.body;
     const { clientUserId, clientOrganizationId } = (req as AuthenticatedRequest).humanInternalCredentials;
 
     if (!updates || Object.keys(updates).length === 0) {
@@ -13,7 +26,104 @@ export const updateWebhookController = async (req: Request, res: Response) => {
         return res.status(400).json({ success: false, error: 'Request body is empty or invalid.' });
     }
 
+    if (updates.conversationIdIdentificationMapping !== undefined) {
+        const expressionValidation = ValueExpressionSchema.safeParse(updates.conversationIdIdentificationMapping);
+        if (!expressionValidation.success) {
+            return res.status(400).json(formatValidationError(expressionValidation.error));
+        }
+        updates.conversationIdIdentificationMapping = expressionValidation.data;
+    }
+
+    if (updates.conversationStrategy !== undefined) {
+        const strategyValidation = z.nativeEnum(ConversationStrategy).safeParse(updates.conversationStrategy);
+        if (!strategyValidation.success) {
+            return res.status(400).json(formatValidationError(strategyValidation.error));
+        }
+    }
+
+    if (updates.conversationHashFields !== undefined) {
+        const hashFieldsValidation = ConversationHashFieldsSchema.safeParse(updates.conversationHashFields);
+        if (!hashFieldsValidation.success) {
+            return res.status(400).json(formatValidationError(hashFieldsValidation.error));
+        }
+        updates.conversationHashFields = hashFieldsValidation.data;
+    }
+
+    if (updates.deduplicationKeyMapping !== undefined) {
+        const mappingValidation = DeduplicationKeyMappingSchema.safeParse(updates.deduplicationKeyMapping);
+        if (!mappingValidation.success) {
+            return res.status(400).json(formatValidationError(mappingValidation.error));
+        }
+        updates.deduplicationKeyMapping = mappingValidation.data;
+    }
+
+    if (updates.agentMessageTemplate !== undefined) {
+        const templateValidation = MessageTemplateSchema.safeParse(updates.agentMessageTemplate);
+        if (!templateValidation.success) {
+            return res.status(400).json(formatValidationError(templateValidation.error));
+        }
+        updates.agentMessageTemplate = templateValidation.data;
+    }
+
+    if (updates.payloadSchema !== undefined) {
+        const payloadSchemaValidation = PayloadSchemaSchema.safeParse(updates.payloadSchema);
+        if (!payloadSchemaValidation.success) {
+            return res.status(400).json(formatValidationError(payloadSchemaValidation.error));
+        }
+        updates.payloadSchema = payloadSchemaValidation.data;
+    }
+
+    if (updates.payloadSchemaMode !== undefined) {
+        const modeValidation = z.nativeEnum(PayloadSchemaMode).safeParse(updates.payloadSchemaMode);
+        if (!modeValidation.success) {
+            return res.status(400).json(formatValidationError(modeValidation.error));
+        }
+    }
+
+    if (updates.batching !== undefined) {
+        const batchingValidation = BatchingSchema.safeParse(updates.batching);
+        if (!batchingValidation.success) {
+            return res.status(400).json(formatValidationError(batchingValidation.error));
+        }
+        updates.batching = batchingValidation.data;
+    }
+
+    if (updates.responseMode !== undefined) {
+        const responseModeValidation = z.nativeEnum(WebhookResponseMode).safeParse(updates.responseMode);
+        if (!responseModeValidation.success) {
+            return res.status(400).json(formatValidationError(responseModeValidation.error));
+        }
+    }
+
+    if (updates.syncResponse !== undefined) {
+        const syncResponseValidation = SyncResponseSchema.safeParse(updates.syncResponse);
+        if (!syncResponseValidation.success) {
+            return res.status(400).json(formatValidationError(syncResponseValidation.error));
+        }
+        updates.syncResponse = syncResponseValidation.data;
+    }
+
+    if (updates.acknowledgement !== undefined) {
+        const acknowledgementValidation = AcknowledgementSchema.safeParse(updates.acknowledgement);
+        if (!acknowledgementValidation.success) {
+            return res.status(400).json(formatValidationError(acknowledgementValidation.error));
+        }
+        updates.acknowledgement = acknowledgementValidation.data;
+    }
+
     try {
+        // The strategy, the mapping and the hash fields must stay consistent with the stored definition
+        if (updates.conversationStrategy !== undefined || updates.conversationIdIdentificationMapping !== undefined || updates.conversationHashFields !== undefined) {
+            const currentWebhook = await webhookDefinitionService.getWebhookById(webhookId);
+            if (!currentWebhook) {
+                return res.status(404).json({ success: false, error: 'Webhook not found.' });
+            }
+            const settingsError = validateConversationSettings({ ...currentWebhook, ...updates });
+            if (settingsError) {
+                return res.status(400).json({ success: false, error: 'Invalid request input', details: settingsError });
+            }
+        }
+
         const updatedWebhook = await webhookDefinitionService.updateWebhook(
             webhookId,
             updates,
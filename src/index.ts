@@ -8,10 +8,12 @@ import path from 'path'; // Added for constructing temp file path
 import { ErrorResponse } from '@agent-base/types'; // Keep if used for error responses
 // Import routers
 import webhookRoutes from './routes/webhookRoutes.js'; // Import the router and add .js
+import { captureRawBody } from './middleware/rawBody.js'; // Keeps raw bytes for provider signature checks
 // import { authMiddleware } from './middleware/auth.js'; // Keep if needed globally, remove if only on webhookRoutes
 // import { apiKeyAuth } from './middleware/apiKeyAuth.js'; // Import the new API key middleware
 // import { _getGsmSecretValueByName, _storeGsmSecretByName } from './lib/gsm.js'; // Removed
 import { GoogleSecretManager } from '@agent-base/secret-client';
+import { startDeliveryWorker } from './services/deliveryWorkerService.js';
 
 dotenv.config(); 
 
@@ -121,8 +123,8 @@ const port = process.env.PORT || 3001;
 
 // --- Middleware ---
 app.use(cors()); // Enable CORS for all routes
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+app.use(express.json({ verify: captureRawBody }));
+app.use(express.urlencoded({ extended: true, verify: captureRawBody }));
 
 // --- Routes ---
 app.get('/health', (req: Request, res: Response) => {
@@ -169,6 +171,8 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
         app.listen(port, () => {
             console.log(`[server]: Webhook Tool server is running at http://localhost:${port}`);
         });
+        // Deliver queued webhook events to agents (including those left over from a previous run)
+        startDeliveryWorker();
     } catch (initError: any) { // Explicitly type initError
         // This catch block might be redundant if initializeConfig already process.exit(1) on all its failure paths.
         // However, it's a good safety net for any unhandled promise rejection from initializeConfig itself.
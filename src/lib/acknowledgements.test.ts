@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderAcknowledgement } from './acknowledgements.js';
+
+const context = {
+    payload: { id: 'evt_1' },
+    webhookProviderId: 'custom',
+    subscribedEventId: 'order.created',
+    webhookId: 'wh_1',
+};
+
+describe('renderAcknowledgement', () => {
+    it('renders the body template with the event values', () => {
+        const settings = { statusCode: 200, contentType: 'text/plain', bodyTemplate: 'ok {{payload.id}} {{eventId}}', ackInternalFailures: false };
+        assert.deepEqual(renderAcknowledgement(settings, { ...context, eventId: 'ev_1' }), {
+            statusCode: 200,
+            contentType: 'text/plain',
+            body: 'ok evt_1 ev_1',
+        });
+    });
+
+    it('leaves unknown event values and null templates empty', () => {
+        const settings = { statusCode: 202, contentType: 'text/plain', bodyTemplate: '[{{eventId}}][{{conversationId}}][{{agentId}}]', ackInternalFailures: false };
+        assert.equal(renderAcknowledgement(settings, context).body, '[][][]');
+        assert.deepEqual(renderAcknowledgement({ ...settings, statusCode: 204, bodyTemplate: null }, context), {
+            statusCode: 204,
+            contentType: 'text/plain',
+            body: '',
+        });
+    });
+});
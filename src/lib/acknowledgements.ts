@@ -0,0 +1,59 @@
+/**
+ * Custom Acknowledgements
+ *
+ * Renders the response sent to a provider when an incoming event is acknowledged, for webhook
+ * definitions configuring one (see AcknowledgementSettings). Some providers only accept a specific
+ * answer, e.g. `200 OK` as plain text, `204 No Content` or an echo of a payload field:
+ *
+ *   { "statusCode": 200, "contentType": "text/plain", "bodyTemplate": "{{payload.id}}" }
+ *
+ * The body template uses the message template syntax (see messageTemplate.ts). `eventId` and
+ * `conversationId` are empty when the event was not recorded or its conversation is not resolved,
+ * `agentId` is always empty, and `receivedAt` and `deliveredAt` are the time of the response.
+ */
+import { AcknowledgementSettings } from '../types/webhook.js';
+import { MessageTemplateContext, renderMessageTemplate } from './messageTemplate.js';
+
+/**
+ * What is known about the acknowledged event.
+ */
+export interface AcknowledgementContext {
+    payload: unknown;
+    webhookProviderId: string;
+    subscribedEventId: string;
+    webhookId: string;
+    eventId?: string | null;
+    conversationId?: string | null;
+}
+
+export interface AcknowledgementResponse {
+    statusCode: number;
+    contentType: string;
+    body: string;
+}
+
+/**
+ * Renders a configured acknowledgement.
+ * @param settings The acknowledgement of the webhook definition, assumed valid (see AcknowledgementSchema).
+ * @param context The acknowledged event.
+ * @returns The response to send.
+ */
+export function renderAcknowledgement(settings: AcknowledgementSettings, context: AcknowledgementContext): AcknowledgementResponse {
+    const now = new Date();
+    const templateContext: MessageTemplateContext = {
+        payload: context.payload,
+        webhookProviderId: context.webhookProviderId,
+        subscribedEventId: context.subscribedEventId,
+        webhookId: context.webhookId,
+        eventId: context.eventId ?? '',
+        agentId: '',
+        conversationId: context.conversationId ?? '',
+        receivedAt: now,
+        deliveredAt: now,
+    };
+    return {
+        statusCode: settings.statusCode,
+        contentType: settings.contentType,
+        body: settings.bodyTemplate === null ? '' : renderMessageTemplate(settings.bodyTemplate, templateContext),
+    };
+}
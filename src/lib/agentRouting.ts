@@ -0,0 +1,65 @@
+/**
+ * Agent Routing
+ *
+ * Chooses which linked agents receive an incoming event:
+ * - Links without a routing rule (and not default) receive every event.
+ * - Links with a routing rule are evaluated by ascending priority (then link age);
+ *   the first one whose rule matches the payload receives the event.
+ * - Default links receive the event when no routing rule matched.
+ * Disabled links are ignored.
+ */
+import { WebhookAgentLink } from '../types/webhook.js';
+import { evaluatePredicate } from './predicates.js';
+
+/**
+ * An agent an ingested event is delivered to, in its own conversation.
+ */
+export interface DeliveryTarget {
+    agentId: string;
+    conversationId: string;
+}
+
+export interface AgentRoutingResult {
+    recipients: WebhookAgentLink[];         // In the order of the input links
+    matchedRuleLink: WebhookAgentLink | null; // The link whose routing rule matched, if any
+}
+
+/**
+ * Selects the agent links that receive an event.
+ * @param agentLinks All links of the user-webhook, oldest first (see findAgentLinks).
+ * @param payload The normalized webhook payload.
+ */
+export function routeToAgentLinks(agentLinks: WebhookAgentLink[], payload: unknown): AgentRoutingResult {
+    const enabledLinks = agentLinks.filter(link => link.enabled);
+
+    // Array.prototype.sort is stable, so equal priorities keep the link age order
+    const ruleLinks = enabledLinks
+        .filter(link => link.routingRule !== null && !link.isDefault)
+        .sort((a, b) => a.priority - b.priority);
+    const matchedRuleLink = ruleLinks.find(link => evaluatePredicate(link.routingRule!, payload)) ?? null;
+
+    const recipients = enabledLinks.filter(link => {
+        if (link.isDefault) return matchedRuleLink === null;
+        if (link.routingRule !== null) return link === matchedRuleLink;
+        return true;
+    });
+    return { recipients, matchedRuleLink };
+}
+
+/**
+ * Builds one delivery target per recipient agent link, each with its own conversation.
+ * The primary (oldest) link keeps the extracted conversation ID, so existing conversations
+ * continue when more agents are linked; the other agents get `<conversationId>-<agentId>`.
+ * @param agentLinks All links of the user-webhook, oldest first (see findAgentLinks).
+ * @param recipients The links receiving the event (see routeToAgentLinks).
+ * @param conversationId The conversation ID resolved for the event.
+ */
+export function buildDeliveryTargets(agentLinks: WebhookAgentLink[], recipients: WebhookAgentLink[], conversationId: string): DeliveryTarget[] {
+    return agentLinks
+        .map((link, index) => ({
+            link,
+            conversationId: index === 0 ? conversationId : `${conversationId}-${link.agentId}`,
+        }))
+        .filter(({ link }) => recipients.includes(link))
+        .map(({ link, conversationId }) => ({ agentId: link.agentId, conversationId }));
+}
@@ -0,0 +1,14 @@
+/**
+ * Utility functions for reading numeric configuration from environment variables.
+ */
+
+/**
+ * Reads a positive integer from an environment variable.
+ * @param name The environment variable name.
+ * @param fallback Value used when the variable is unset or not a positive integer.
+ * @returns The configured value or the fallback.
+ */
+export function readPositiveIntEnv(name: string, fallback: number): number {
+    const parsed = parseInt(process.env[name] || '', 10);
+    return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConversationStrategy } from '../types/webhook.js';
+import { ConversationResolutionContext, resolveConversationId, validateConversationSettings } from './conversationStrategy.js';
+
+const contextFor = (payload: Record<string, unknown>, headers: Record<string, string> = {}): ConversationResolutionContext => ({
+    payload,
+    headers,
+    query: {},
+    webhookId: 'wh_1',
+    clientUserId: 'user_1',
+    clientOrganizationId: 'org_1',
+});
+
+describe('validateConversationSettings', () => {
+    it('requires the settings of the mapped and hashed strategies', () => {
+        assert.match(validateConversationSettings({})!, /conversationIdIdentificationMapping is required/);
+        assert.equal(validateConversationSettings({ conversationIdIdentificationMapping: 'chat.id' }), null);
+        assert.match(validateConversationSettings({ conversationStrategy: ConversationStrategy.HASHED, conversationHashFields: [] })!, /conversationHashFields is required/);
+        assert.equal(validateConversationSettings({ conversationStrategy: ConversationStrategy.PER_EVENT }), null);
+        assert.equal(validateConversationSettings({ conversationStrategy: ConversationStrategy.FIXED }), null);
+    });
+});
+
+describe('resolveConversationId', () => {
+    it('mapped: reads the mapping and yields null without a value', () => {
+        const settings = { conversationIdIdentificationMapping: 'chat.id' };
+        assert.equal(resolveConversationId(settings, contextFor({ chat: { id: 42 } })), '42');
+        assert.equal(resolveConversationId(settings, contextFor({ chat: { id: '' } })), null);
+        assert.equal(resolveConversationId({}, contextFor({ chat: { id: 42 } })), null);
+    });
+
+    it('per_event: starts a new conversation every time', () => {
+        const settings = { conversationStrategy: ConversationStrategy.PER_EVENT };
+        const first = resolveConversationId(settings, contextFor({}))!;
+        assert.match(first, /^event-[0-9a-f-]{36}$/);
+        assert.notEqual(resolveConversationId(settings, contextFor({})), first);
+    });
+
+    it('fixed: uses one conversation per user-webhook link', () => {
+        assert.equal(resolveConversationId({ conversationStrategy: ConversationStrategy.FIXED }, contextFor({})), 'wh_1-org_1-user_1');
+    });
+
+    it('hashed: shares a conversation between events with the same values', () => {
+        const settings = { conversationStrategy: ConversationStrategy.HASHED, conversationHashFields: ['sender.id', '$headers.X-Shop-Domain'] };
+        const first = resolveConversationId(settings, contextFor({ sender: { id: 'u1' }, text: 'a' }, { 'x-shop-domain': 'shop.example' }))!;
+        assert.match(first, /^hash-[0-9a-f]{32}$/);
+        assert.equal(resolveConversationId(settings, contextFor({ sender: { id: 'u1' }, text: 'b' }, { 'x-shop-domain': 'shop.example' })), first);
+        assert.notEqual(resolveConversationId(settings, contextFor({ sender: { id: 'u2' } }, { 'x-shop-domain': 'shop.example' })), first);
+        assert.equal(resolveConversationId(settings, contextFor({ text: 'no sender' })), null);
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Conversation Strategies
+ *
+ * Chooses the conversation an incoming event is delivered to, per the webhook definition's
+ * conversationStrategy:
+ * - mapped: the value of conversationIdIdentificationMapping (see valueExpressions.ts).
+ * - per_event: a new conversation for every event.
+ * - fixed: one long-running conversation per user-webhook link.
+ * - hashed: a hash of the values of conversationHashFields, e.g. [ "sender.id", "$headers.X-Shop-Domain" ],
+ *   so events sharing those values share a conversation without exposing them in the ID.
+ * The resolved ID is sanitized when the event is ingested.
+ */
+import { createHash, randomUUID } from 'crypto';
+import { ConversationStrategy, WebhookDefinitionSettings } from '../types/webhook.js';
+import { ValueExpressionInput, evaluateValueExpression } from './valueExpressions.js';
+
+export const MAX_CONVERSATION_HASH_FIELDS = 10;
+
+/**
+ * The conversation settings of a webhook definition.
+ */
+export interface ConversationSettings extends Pick<WebhookDefinitionSettings, 'conversationStrategy' | 'conversationHashFields'> {
+    conversationIdIdentificationMapping?: string | null;
+}
+
+/**
+ * The incoming request and the user-webhook link it was resolved to.
+ */
+export interface ConversationResolutionContext extends ValueExpressionInput {
+    webhookId: string;
+    clientUserId: string;
+    clientOrganizationId: string;
+}
+
+/**
+ * Checks that the settings required by the conversation strategy are present.
+ * The expressions themselves are validated by their schemas.
+ * @returns An error message, or null if the settings are consistent.
+ */
+export function validateConversationSettings(settings: ConversationSettings): string | null {
+    switch (settings.conversationStrategy ?? ConversationStrategy.MAPPED) {
+        case ConversationStrategy.MAPPED:
+            return settings.conversationIdIdentificationMapping
+                ? null
+                : "conversationIdIdentificationMapping is required when conversationStrategy is 'mapped'.";
+        case ConversationStrategy.HASHED:
+            return settings.conversationHashFields && settings.conversationHashFields.length > 0
+                ? null
+                : "conversationHashFields is required when conversationStrategy is 'hashed'.";
+        default:
+            return null;
+    }
+}
+
+const isEmptyValue = (value: unknown): boolean =>
+    value === undefined || value === null || value === '';
+
+const stringifyValue = (value: unknown): string =>
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+/**
+ * Resolves the conversation ID of an incoming event.
+ * @param settings The webhook definition's conversation settings.
+ * @param context The normalized request and its user-webhook link.
+ * @returns The conversation ID, or null if the mapping or the hash fields yield no value.
+ */
+export function resolveConversationId(settings: ConversationSettings, context: ConversationResolutionContext): string | null {
+    switch (settings.conversationStrategy ?? ConversationStrategy.MAPPED) {
+        case ConversationStrategy.PER_EVENT:
+            return `event-${randomUUID()}`;
+        case ConversationStrategy.FIXED:
+            return `${context.webhookId}-${context.clientOrganizationId}-${context.clientUserId}`;
+        case ConversationStrategy.HASHED: {
+            const values = (settings.conversationHashFields ?? []).map(field => {
+                const value = evaluateValueExpression(field, context);
+                return isEmptyValue(value) ? null : stringifyValue(value);
+            });
+            if (values.every(value => value === null)) return null;
+            const digest = createHash('sha256').update(JSON.stringify([context.webhookId, ...values])).digest('hex');
+            return `hash-${digest.slice(0, 32)}`;
+        }
+        default: {
+            if (!settings.conversationIdIdentificationMapping) return null;
+            const value = evaluateValueExpression(settings.conversationIdIdentificationMapping, context);
+            return isEmptyValue(value) ? null : stringifyValue(value);
+        }
+    }
+}
@@ -47,4 +47,31 @@ export function computeIdentifierHash(
     return crypto.createHmac('sha256', secretKey)
                  .update(dataToHash)
                  .digest('hex');
-} 
\ No newline at end of file
+} 
+
+/**
+ * Computes a non-reversible fingerprint of a webhook URL secret.
+ * Stored on webhook events instead of the secret itself, so an event can be matched to the secret
+ * it was received with without exposing it.
+ * Must stay in sync with the backfill of migration 1750200000000_replace-webhook-event-secret-with-fingerprint.cjs.
+ *
+ * @param secret - The plaintext secret.
+ * @returns The hex-encoded SHA-256 hash of the secret.
+ */
+export function computeSecretFingerprint(secret: string): string {
+    return crypto.createHash('sha256').update(secret, 'utf8').digest('hex');
+}
+
+/**
+ * Constant-time comparison of two strings, for secrets and signatures received in requests.
+ *
+ * @param expected - The expected value.
+ * @param received - The value received.
+ * @returns True if both are equal; false on length mismatch.
+ */
+export function safeEqual(expected: string, received: string): boolean {
+    const expectedBuffer = Buffer.from(expected);
+    const receivedBuffer = Buffer.from(received);
+    if (expectedBuffer.length !== receivedBuffer.length) return false;
+    return crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+}
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractDeduplicationKey, validateDeduplicationKeyMapping } from './deduplication.js';
+
+describe('validateDeduplicationKeyMapping', () => {
+    it('accepts value expressions', () => {
+        assert.equal(validateDeduplicationKeyMapping('$headers.X-GitHub-Delivery'), null);
+        assert.equal(validateDeduplicationKeyMapping('id'), null);
+        assert.equal(validateDeduplicationKeyMapping('coalesce($headers.X-Request-Id, data.id)'), null);
+    });
+
+    it('rejects empty mappings and invalid expressions', () => {
+        assert.match(validateDeduplicationKeyMapping('  ')!, /must not be empty/);
+        assert.match(validateDeduplicationKeyMapping('$header.X-GitHub-Delivery')!, /Unknown source/);
+        assert.match(validateDeduplicationKeyMapping('$headers.X-Webhook-Secret')!, /carries credentials/);
+    });
+});
+
+describe('extractDeduplicationKey', () => {
+    const input = {
+        payload: { id: 'evt_1', count: 3, data: { object: {} } },
+        headers: { 'x-github-delivery': ' 72d3162e ' },
+        query: {},
+    };
+
+    it('reads headers and payload paths as trimmed strings', () => {
+        assert.equal(extractDeduplicationKey('$headers.X-GitHub-Delivery', input), '72d3162e');
+        assert.equal(extractDeduplicationKey('id', input), 'evt_1');
+        assert.equal(extractDeduplicationKey('count', input), '3');
+    });
+
+    it('yields no key for unset mappings, missing values and objects', () => {
+        assert.equal(extractDeduplicationKey(null, input), null);
+        assert.equal(extractDeduplicationKey('missing', input), null);
+        assert.equal(extractDeduplicationKey('data.object', input), null);
+    });
+
+    it('truncates long keys', () => {
+        assert.equal(extractDeduplicationKey('id', { payload: { id: 'k'.repeat(600) } })!.length, 512);
+    });
+});
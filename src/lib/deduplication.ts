@@ -0,0 +1,37 @@
+/**
+ * Utility functions for provider delivery-ID deduplication.
+ *
+ * A webhook definition's deduplication key mapping tells where the provider's unique
+ * delivery ID lives. It is a value expression (see valueExpressions.ts), typically a header
+ * (e.g. `$headers.X-GitHub-Delivery`) or a payload path (e.g. `id` for Stripe `evt_...` IDs).
+ */
+import { ValueExpressionInput, evaluateValueExpression, validateValueExpression } from './valueExpressions.js';
+
+const MAX_KEY_LENGTH = 512;
+
+/**
+ * Validates a deduplication key mapping.
+ * @param mapping The mapping to validate.
+ * @returns An error message, or null if the mapping is valid.
+ */
+export function validateDeduplicationKeyMapping(mapping: string): string | null {
+    if (!mapping.trim()) return 'Deduplication key mapping must not be empty.';
+    return validateValueExpression(mapping);
+}
+
+/**
+ * Extracts the deduplication key of an incoming event.
+ * @param mapping The webhook definition's deduplication key mapping.
+ * @param input The normalized payload, headers and query of the request.
+ * @returns The key as a string, or null if the mapping is unset or yields no value.
+ */
+export function extractDeduplicationKey(
+    mapping: string | null | undefined,
+    input: ValueExpressionInput
+): string | null {
+    if (!mapping) return null;
+    const value = evaluateValueExpression(mapping, input);
+    if (value === null || value === undefined || typeof value === 'object') return null;
+    const key = String(value).trim();
+    return key ? key.slice(0, MAX_KEY_LENGTH) : null;
+}
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildDeliveryBatchKey, computeBatchDueAt, renderBatchMessage, selectCoalescedDeliveries } from './deliveryBatching.js';
+
+const NOW = new Date('2025-06-01T10:00:00.000Z');
+const secondsBefore = (seconds: number) => new Date(NOW.getTime() - seconds * 1000);
+const secondsAfter = (seconds: number) => new Date(NOW.getTime() + seconds * 1000);
+const settings = { windowSeconds: 10, maxWaitSeconds: 60, maxBatchSize: 3 };
+
+describe('buildDeliveryBatchKey', () => {
+    const target = { webhookId: 'wh_1', clientUserId: 'user_1', clientOrganizationId: 'org_1', agentId: 'agent_1', conversationId: 'whatsapp-15550001' };
+
+    it('groups deliveries by link, agent and sanitized conversation ID', () => {
+        assert.equal(buildDeliveryBatchKey({ ...target }), buildDeliveryBatchKey(target));
+        assert.notEqual(buildDeliveryBatchKey({ ...target, conversationId: 'whatsapp-15550002' }), buildDeliveryBatchKey(target));
+        assert.notEqual(buildDeliveryBatchKey({ ...target, agentId: 'agent_2' }), buildDeliveryBatchKey(target));
+        assert.notEqual(buildDeliveryBatchKey({ ...target, clientOrganizationId: 'org_2' }), buildDeliveryBatchKey(target));
+    });
+
+    it('does not mix up identifiers containing separators', () => {
+        assert.notEqual(
+            buildDeliveryBatchKey({ ...target, agentId: 'a', conversationId: 'b-c' }),
+            buildDeliveryBatchKey({ ...target, agentId: 'a-b', conversationId: 'c' })
+        );
+    });
+});
+
+describe('computeBatchDueAt', () => {
+    it('postpones the batch to the end of the window after the latest delivery', () => {
+        assert.deepEqual(computeBatchDueAt([NOW], settings, NOW), secondsAfter(10));
+        assert.deepEqual(computeBatchDueAt([secondsBefore(8), NOW], settings, NOW), secondsAfter(10));
+    });
+
+    it('never waits more than maxWaitSeconds after the oldest delivery', () => {
+        assert.deepEqual(computeBatchDueAt([secondsBefore(55), NOW], settings, NOW), secondsAfter(5));
+        assert.deepEqual(computeBatchDueAt([NOW, secondsBefore(70)], settings, NOW), secondsBefore(10));
+    });
+
+    it('makes a batch reaching maxBatchSize due right away', () => {
+        assert.deepEqual(computeBatchDueAt([secondsBefore(2), secondsBefore(1), NOW], settings, NOW), NOW);
+        assert.deepEqual(computeBatchDueAt([secondsBefore(3), secondsBefore(2), secondsBefore(1), NOW], settings, NOW), NOW);
+    });
+});
+
+describe('selectCoalescedDeliveries', () => {
+    const candidates = [
+        { id: 'd3', createdAt: secondsBefore(1) },
+        { id: 'd1', createdAt: secondsBefore(3) },
+        { id: 'd2b', createdAt: secondsBefore(2) },
+        { id: 'd2a', createdAt: secondsBefore(2) },
+    ];
+
+    it('coalesces the oldest deliveries up to maxBatchSize in total', () => {
+        assert.deepEqual(selectCoalescedDeliveries(candidates, 3, 0), ['d1', 'd2a']);
+        assert.deepEqual(selectCoalescedDeliveries(candidates, 10, 0), ['d1', 'd2a', 'd2b', 'd3']);
+    });
+
+    it('counts deliveries coalesced on earlier attempts', () => {
+        assert.deepEqual(selectCoalescedDeliveries(candidates, 3, 1), ['d1']);
+        assert.deepEqual(selectCoalescedDeliveries(candidates, 3, 2), []);
+        assert.deepEqual(selectCoalescedDeliveries(candidates, 1, 0), []);
+    });
+});
+
+describe('renderBatchMessage', () => {
+    const event = (id: string, receivedAt: Date) => ({ id, receivedAt });
+    const render = ({ id }: { id: string }) => `message ${id}`;
+
+    it('renders a single event as its own message', () => {
+        assert.equal(renderBatchMessage([event('e1', NOW)], render), 'message e1');
+    });
+
+    it('lists the events of a batch oldest first', () => {
+        const message = renderBatchMessage([event('e3', NOW), event('e1', secondsBefore(20)), event('e2', secondsBefore(10))], render);
+        assert.equal(message, [
+            '3 webhook events were received for this conversation, oldest first:',
+            '--- Event 1 of 3 (received 2025-06-01T09:59:40.000Z) ---\nmessage e1',
+            '--- Event 2 of 3 (received 2025-06-01T09:59:50.000Z) ---\nmessage e2',
+            '--- Event 3 of 3 (received 2025-06-01T10:00:00.000Z) ---\nmessage e3',
+        ].join('\n\n'));
+    });
+});
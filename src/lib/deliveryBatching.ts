@@ -0,0 +1,90 @@
+/**
+ * Delivery Batching
+ *
+ * Rules of the debounce batching of agent deliveries (see the `batching` setting of webhook
+ * definitions), applied by deliveryQueueService.ts and webhookProcessorService.ts:
+ * - Deliveries of one user-webhook link, agent and sanitized conversation share a batch key.
+ * - Each new delivery postpones the pending ones of its key to the end of the window, up to
+ *   maxWaitSeconds after the oldest; a batch reaching maxBatchSize is due right away.
+ * - When due, the oldest delivery is claimed and the other due ones are coalesced into it,
+ *   oldest first, up to maxBatchSize deliveries in total.
+ * - The agent gets one message listing the events oldest first.
+ */
+import { BatchingSettings } from '../types/webhook.js';
+
+/**
+ * The user-webhook link, agent and conversation a delivery goes to.
+ */
+export interface DeliveryBatchTarget {
+    webhookId: string;
+    clientUserId: string;
+    clientOrganizationId: string;
+    agentId: string;
+    conversationId: string; // Sanitized conversation ID, as stored on the event
+}
+
+/**
+ * A pending delivery that may be coalesced into a claimed one.
+ */
+export interface BatchCandidate {
+    id: string;
+    createdAt: Date;
+}
+
+/**
+ * Builds the batch key of a delivery. Deliveries with equal keys are coalesced into one agent run.
+ * @param target The delivery target; its conversation ID must already be sanitized.
+ */
+export function buildDeliveryBatchKey(target: DeliveryBatchTarget): string {
+    return JSON.stringify([target.webhookId, target.clientUserId, target.clientOrganizationId, target.agentId, target.conversationId]);
+}
+
+/**
+ * Computes when the pending deliveries of a batch key are due after a new one was enqueued.
+ * @param pendingCreatedAt Creation times of the pending deliveries of the key, the new one included.
+ * @param settings The batching settings of the webhook definition.
+ * @param now The current database time.
+ * @returns `now` once maxBatchSize is reached, else the end of the window capped at maxWaitSeconds after the oldest delivery.
+ */
+export function computeBatchDueAt(pendingCreatedAt: Date[], settings: BatchingSettings, now: Date): Date {
+    if (pendingCreatedAt.length === 0 || pendingCreatedAt.length >= settings.maxBatchSize) {
+        return now;
+    }
+    const oldest = Math.min(...pendingCreatedAt.map(createdAt => createdAt.getTime()));
+    return new Date(Math.min(now.getTime() + settings.windowSeconds * 1000, oldest + settings.maxWaitSeconds * 1000));
+}
+
+/**
+ * Chooses the due pending deliveries coalesced into a claimed delivery: the oldest ones first,
+ * so the batch holds at most maxBatchSize deliveries.
+ * @param candidates The other due pending deliveries of the batch key.
+ * @param maxBatchSize The batch size limit of the claimed delivery.
+ * @param alreadyCoalesced How many deliveries were coalesced into it on earlier attempts.
+ * @returns The IDs of the deliveries to coalesce, oldest first.
+ */
+export function selectCoalescedDeliveries(candidates: BatchCandidate[], maxBatchSize: number, alreadyCoalesced: number): string[] {
+    const capacity = Math.max(maxBatchSize - 1 - alreadyCoalesced, 0);
+    return [...candidates]
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+        .slice(0, capacity)
+        .map(candidate => candidate.id);
+}
+
+/**
+ * Lists the messages of a batch of events in one agent message, oldest first.
+ * @param events The events of the batch, in any order.
+ * @param render Renders the message of one event (see messageTemplate.ts).
+ * @returns The message of the single event, or the numbered messages of all events.
+ */
+export function renderBatchMessage<T extends { receivedAt: Date }>(events: T[], render: (event: T) => string): string {
+    if (events.length === 1) {
+        return render(events[0]);
+    }
+    const ordered = [...events].sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+    return [
+        `${ordered.length} webhook events were received for this conversation, oldest first:`,
+        ...ordered.map((event, index) =>
+            `--- Event ${index + 1} of ${ordered.length} (received ${event.receivedAt.toISOString()}) ---\n${render(event)}`
+        ),
+    ].join('\n\n');
+}
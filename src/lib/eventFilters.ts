@@ -0,0 +1,69 @@
+/**
+ * Event Filters
+ *
+ * Named drop rules configured on a user-webhook link. An incoming event matching any filter
+ * is recorded with outcome 'filtered' but never delivered to an agent, e.g.:
+ *
+ *   [ { "name": "ignore-bots", "rule": { "path": "sender.type", "operator": "eq", "value": "Bot" } },
+ *     { "name": "ignore-test-mode", "rule": { "path": "livemode", "operator": "eq", "value": false } } ]
+ *
+ * Rules are payload predicates (see predicates.ts).
+ */
+import { Predicate, evaluatePredicate, validatePredicate } from './predicates.js';
+
+export interface EventFilter {
+    name: string;   // Recorded on the filtered event, unique within the link
+    rule: Predicate;
+}
+
+export const MAX_EVENT_FILTERS = 50;
+const MAX_EVENT_FILTER_NAME_LENGTH = 100;
+
+/**
+ * Validates a list of event filters.
+ * @param filters The candidate filters (e.g. from a request body).
+ * @returns An error message locating the first problem, or null if the filters are valid.
+ */
+export function validateEventFilters(filters: unknown): string | null {
+    if (!Array.isArray(filters)) {
+        return 'filters: must be an array.';
+    }
+    if (filters.length > MAX_EVENT_FILTERS) {
+        return `filters: at most ${MAX_EVENT_FILTERS} filters can be configured.`;
+    }
+    const names = new Set<string>();
+    for (let i = 0; i < filters.length; i++) {
+        const filter = filters[i];
+        const location = `filters[${i}]`;
+        if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+            return `${location}: a filter must be an object with a name and a rule.`;
+        }
+        const unknownKey = Object.keys(filter).find(key => key !== 'name' && key !== 'rule');
+        if (unknownKey) {
+            return `${location}: unknown key '${unknownKey}' (expected name and rule).`;
+        }
+        const { name, rule } = filter as Record<string, unknown>;
+        if (typeof name !== 'string' || name.trim() === '' || name.length > MAX_EVENT_FILTER_NAME_LENGTH) {
+            return `${location}.name: must be a non-empty string of at most ${MAX_EVENT_FILTER_NAME_LENGTH} characters.`;
+        }
+        if (names.has(name)) {
+            return `${location}.name: duplicate filter name '${name}'.`;
+        }
+        names.add(name);
+        const ruleError = validatePredicate(rule);
+        if (ruleError) {
+            return `${location}.${ruleError}`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Finds the first filter matching a payload.
+ * @param filters The link's filters, assumed valid (see EventFiltersSchema).
+ * @param payload The normalized webhook payload.
+ * @returns The matching filter, or null if the event should be delivered.
+ */
+export function findMatchingEventFilter(filters: EventFilter[], payload: unknown): EventFilter | null {
+    return filters.find(filter => evaluatePredicate(filter.rule, payload)) ?? null;
+}
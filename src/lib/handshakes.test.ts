@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { HandshakeContext, getSupportedHandshakeProviders, resolveHandshake } from './handshakes.js';
+
+const contextFor = (overrides: Partial<HandshakeContext>): HandshakeContext => ({
+    method: 'POST',
+    query: {},
+    body: {},
+    webhookSecret: 'url-secret',
+    signingSecret: null,
+    ...overrides,
+});
+
+describe('resolveHandshake', () => {
+    it('ignores providers without a handler and requests that are not handshakes', () => {
+        assert.equal(resolveHandshake('stripe', contextFor({ body: { type: 'url_verification', challenge: 'c' } })), null);
+        assert.equal(resolveHandshake('slack', contextFor({ body: { type: 'event_callback' } })), null);
+        assert.ok(getSupportedHandshakeProviders().includes('whatsapp'));
+    });
+
+    it('meta: echoes hub.challenge when the verify token is the URL secret', () => {
+        const query = { 'hub.mode': 'subscribe', 'hub.challenge': '1158201444', 'hub.verify_token': 'url-secret' };
+        assert.deepEqual(resolveHandshake('WhatsApp', contextFor({ method: 'GET', query })), {
+            verified: true,
+            statusCode: 200,
+            contentType: 'text/plain',
+            body: '1158201444',
+        });
+        const rejected = resolveHandshake('meta', contextFor({ method: 'GET', query: { ...query, 'hub.verify_token': 'other' } }))!;
+        assert.equal(rejected.verified, false);
+        assert.equal(rejected.statusCode, 403);
+        assert.equal(resolveHandshake('meta', contextFor({ method: 'POST', query })), null);
+    });
+
+    it('slack: answers url_verification with the challenge', () => {
+        const result = resolveHandshake('slack', contextFor({ body: { type: 'url_verification', challenge: 'abc' } }))!;
+        assert.equal(result.verified, true);
+        assert.equal(result.contentType, 'application/json');
+        assert.deepEqual(JSON.parse(result.body), { challenge: 'abc' });
+    });
+
+    it('microsoft graph: echoes the validationToken as text', () => {
+        const result = resolveHandshake('teams', contextFor({ query: { validationToken: 'token 1' } }))!;
+        assert.deepEqual(result, { verified: true, statusCode: 200, contentType: 'text/plain', body: 'token 1' });
+        assert.equal(resolveHandshake('teams', contextFor({ method: 'GET', query: { validationToken: 'x' } })), null);
+    });
+
+    it('zoom: answers endpoint.url_validation with the token encrypted by the signing secret', () => {
+        const body = { event: 'endpoint.url_validation', payload: { plainToken: 'qgg8vlvZRS6UYooatFL8Aw' } };
+        const result = resolveHandshake('zoom', contextFor({ body, signingSecret: 'zoom-secret-token' }))!;
+        assert.equal(result.verified, true);
+        assert.deepEqual(JSON.parse(result.body), {
+            plainToken: 'qgg8vlvZRS6UYooatFL8Aw',
+            encryptedToken: createHmac('sha256', 'zoom-secret-token').update('qgg8vlvZRS6UYooatFL8Aw').digest('hex'),
+        });
+
+        const withoutSecret = resolveHandshake('zoom', contextFor({ body }))!;
+        assert.equal(withoutSecret.verified, false);
+        assert.equal(withoutSecret.statusCode, 400);
+    });
+});
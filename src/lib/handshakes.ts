@@ -0,0 +1,158 @@
+/**
+ * Provider Verification Handshakes
+ *
+ * Registry of handlers answering the challenges providers send to verify an endpoint
+ * before (or while) delivering events: Meta `hub.challenge` GET requests, Slack
+ * `url_verification`, Microsoft Graph `validationToken` and Zoom `endpoint.url_validation`.
+ * Handlers are keyed by webhookProviderId and return null when a request is not a handshake.
+ */
+import * as crypto from 'crypto';
+import { safeEqual } from './crypto.js';
+
+/**
+ * Everything a handshake handler may need from the incoming request.
+ */
+export interface HandshakeContext {
+    method: string;                 // 'GET' or 'POST'
+    query: Record<string, unknown>; // Parsed query string (keys such as `hub.mode` are kept as-is)
+    body: Record<string, any>;      // Normalized request body (see payloadParser.ts)
+    webhookSecret: string;          // URL secret of the user_webhooks link
+    signingSecret: string | null;   // Provider signing secret configured on the link, if any
+}
+
+export interface HandshakeResult {
+    verified: boolean;  // False when the challenge was recognized but could not be answered
+    statusCode: number;
+    contentType: 'application/json' | 'text/plain';
+    body: string;
+    reason?: string;    // Populated when verified is false
+}
+
+export type HandshakeHandler = (context: HandshakeContext) => HandshakeResult | null;
+
+// --- Helpers ---
+
+function getQueryString(query: Record<string, unknown>, name: string): string | undefined {
+    const value = query[name];
+    if (Array.isArray(value)) return typeof value[0] === 'string' ? value[0] : undefined;
+    return typeof value === 'string' ? value : undefined;
+}
+
+function rejected(statusCode: number, reason: string): HandshakeResult {
+    return {
+        verified: false,
+        statusCode,
+        contentType: 'application/json',
+        body: JSON.stringify({ success: false, error: 'Handshake Failed', details: reason }),
+        reason,
+    };
+}
+
+// --- Provider Handlers ---
+
+/**
+ * Meta (WhatsApp, Messenger, Instagram): `GET ?hub.mode=subscribe&hub.verify_token=...&hub.challenge=...`
+ * The verify token entered in the Meta dashboard must be the webhook URL secret.
+ * Answer: the challenge as plain text.
+ */
+const handleMetaHandshake: HandshakeHandler = (context) => {
+    if (context.method !== 'GET') return null;
+    const mode = getQueryString(context.query, 'hub.mode');
+    const challenge = getQueryString(context.query, 'hub.challenge');
+    if (mode !== 'subscribe' || challenge === undefined) return null;
+
+    const verifyToken = getQueryString(context.query, 'hub.verify_token') ?? '';
+    if (!safeEqual(context.webhookSecret, verifyToken)) {
+        return rejected(403, 'hub.verify_token does not match the webhook secret.');
+    }
+    return { verified: true, statusCode: 200, contentType: 'text/plain', body: challenge };
+};
+
+/**
+ * Slack Events API: `POST { "type": "url_verification", "challenge": "..." }`
+ * Answer: `{ "challenge": "..." }`. The request signature is checked beforehand like any event.
+ */
+const handleSlackHandshake: HandshakeHandler = (context) => {
+    if (context.method !== 'POST') return null;
+    if (context.body.type !== 'url_verification' || typeof context.body.challenge !== 'string') return null;
+    return {
+        verified: true,
+        statusCode: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({ challenge: context.body.challenge }),
+    };
+};
+
+/**
+ * Microsoft Graph subscriptions: `POST ?validationToken=...` (empty body)
+ * Answer: the token as plain text, within 10 seconds.
+ */
+const handleMicrosoftGraphHandshake: HandshakeHandler = (context) => {
+    if (context.method !== 'POST') return null;
+    const validationToken = getQueryString(context.query, 'validationToken');
+    if (validationToken === undefined) return null;
+    return { verified: true, statusCode: 200, contentType: 'text/plain', body: validationToken };
+};
+
+/**
+ * Zoom: `POST { "event": "endpoint.url_validation", "payload": { "plainToken": "..." } }`
+ * Answer: `{ plainToken, encryptedToken }` where encryptedToken is the hex HMAC-SHA256 of
+ * plainToken keyed with the app's secret token, configured as the link's signing secret.
+ */
+const handleZoomHandshake: HandshakeHandler = (context) => {
+    if (context.method !== 'POST') return null;
+    const plainToken = context.body.payload?.plainToken;
+    if (context.body.event !== 'endpoint.url_validation' || typeof plainToken !== 'string') return null;
+
+    if (!context.signingSecret) {
+        return rejected(400, 'Zoom URL validation requires the Zoom secret token to be configured as the signing secret.');
+    }
+    const encryptedToken = crypto.createHmac('sha256', context.signingSecret).update(plainToken).digest('hex');
+    return {
+        verified: true,
+        statusCode: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({ plainToken, encryptedToken }),
+    };
+};
+
+// --- Registry ---
+
+const handshakeHandlers: Record<string, HandshakeHandler> = {
+    meta: handleMetaHandshake,
+    whatsapp: handleMetaHandshake,
+    facebook: handleMetaHandshake,
+    instagram: handleMetaHandshake,
+    slack: handleSlackHandshake,
+    microsoft: handleMicrosoftGraphHandshake,
+    outlook: handleMicrosoftGraphHandshake,
+    teams: handleMicrosoftGraphHandshake,
+    zoom: handleZoomHandshake,
+};
+
+/**
+ * Registers (or replaces) the handshake handler used for a provider.
+ * @param webhookProviderId The provider identifier as used in webhook definitions.
+ * @param handler The handler function.
+ */
+export function registerHandshakeHandler(webhookProviderId: string, handler: HandshakeHandler): void {
+    handshakeHandlers[webhookProviderId.toLowerCase()] = handler;
+}
+
+/**
+ * Answers a provider verification handshake, if the request is one.
+ * @param webhookProviderId The provider identifier as used in webhook definitions.
+ * @param context The request context.
+ * @returns The response to send, or null if the provider has no handler or the request is not a handshake.
+ */
+export function resolveHandshake(webhookProviderId: string, context: HandshakeContext): HandshakeResult | null {
+    const handler = handshakeHandlers[webhookProviderId.toLowerCase()];
+    return handler ? handler(context) : null;
+}
+
+/**
+ * Lists the provider IDs that have a verification handshake handler.
+ */
+export function getSupportedHandshakeProviders(): string[] {
+    return Object.keys(handshakeHandlers);
+}
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractIngressSecret, generateIngressToken } from './ingress.js';
+
+describe('extractIngressSecret', () => {
+    it('reads the X-Webhook-Secret header before the secret query parameter', () => {
+        assert.equal(extractIngressSecret({ 'x-webhook-secret': 'from-header' }, { secret: 'from-query' }), 'from-header');
+        assert.equal(extractIngressSecret({}, { secret: 'from-query' }), 'from-query');
+        assert.equal(extractIngressSecret({ 'x-webhook-secret': '' }, { secret: 'from-query' }), 'from-query');
+    });
+
+    it('takes the first of repeated headers', () => {
+        assert.equal(extractIngressSecret({ 'x-webhook-secret': ['first', 'second'] }, {}), 'first');
+    });
+
+    it('returns null when no usable secret was sent', () => {
+        assert.equal(extractIngressSecret({}, {}), null);
+        assert.equal(extractIngressSecret({}, { secret: '' }), null);
+        assert.equal(extractIngressSecret({}, { secret: ['a', 'b'] }), null);
+    });
+});
+
+describe('generateIngressToken', () => {
+    it('generates distinct 32-character hex tokens', () => {
+        const token = generateIngressToken();
+        assert.match(token, /^[0-9a-f]{32}$/);
+        assert.notEqual(generateIngressToken(), token);
+    });
+});
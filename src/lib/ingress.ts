@@ -0,0 +1,36 @@
+/**
+ * Webhook Ingress
+ *
+ * Public webhook URLs come in two forms:
+ * - `/in/:ingressToken`: an opaque token resolved to the user-webhook link server-side, so no internal
+ *   identifiers are shared with the provider. Used for every URL this service hands out.
+ * - `/incoming/:webhookProviderId/:subscribedEventId/:clientUserId/:clientOrganizationId`: the legacy
+ *   long form, still accepted for links set up before ingress tokens existed.
+ * Both are authenticated with the URL secret of the link, sent in the `secret` query parameter or,
+ * for providers that support custom headers, in the X-Webhook-Secret header.
+ */
+import { randomBytes } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+export const WEBHOOK_SECRET_HEADER = 'x-webhook-secret';
+export const WEBHOOK_SECRET_QUERY_PARAMETER = 'secret';
+
+/**
+ * Generates the opaque ingress token of a user-webhook link (32 hex characters).
+ * Must keep the format of the backfill in migration 1750400000000_add-ingress-token-to-user-webhooks.cjs.
+ */
+export function generateIngressToken(): string {
+    return randomBytes(16).toString('hex');
+}
+
+/**
+ * Reads the URL secret of an incoming request.
+ * @param headers The request headers; X-Webhook-Secret takes precedence over the query string.
+ * @param query The request query parameters.
+ * @returns The secret, or null if none was sent.
+ */
+export function extractIngressSecret(headers: IncomingHttpHeaders, query: Record<string, unknown>): string | null {
+    const headerValue = headers[WEBHOOK_SECRET_HEADER];
+    const secret = (Array.isArray(headerValue) ? headerValue[0] : headerValue) || query[WEBHOOK_SECRET_QUERY_PARAMETER];
+    return typeof secret === 'string' && secret ? secret : null;
+}
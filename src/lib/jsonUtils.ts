@@ -1,17 +1,58 @@
+/**
+ * A parsed payload path: object keys and array indexes, in traversal order.
+ */
+export type JsonPathSegment = string | number;
+
+/**
+ * Parses a dot-notation path with optional array indexes, e.g. 'entry[0].changes[0].value'.
+ * Numeric dot segments ('items.0.id') are kept as object keys, which also index arrays.
+ * @param path The path to parse.
+ * @returns The path segments, or null if the path is empty or malformed (e.g. 'a..b', 'a[x]').
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] | null {
+    if (!path) return null;
+    const segments: JsonPathSegment[] = [];
+    const tokenPattern = /([^.[\]]+)|\[(\d+)\]|(\.)/y;
+    let expectSegment = true; // At the start and after a dot, a key or an index is required
+    let position = 0;
+    while (position < path.length) {
+        tokenPattern.lastIndex = position;
+        const match = tokenPattern.exec(path);
+        if (!match) return null; // Unbalanced bracket, e.g. 'a[0' or 'a]'
+        position = tokenPattern.lastIndex;
+        if (match[1] !== undefined) {
+            if (!expectSegment) return null; // A key must follow a dot, e.g. 'a[0]b'
+            segments.push(match[1]);
+            expectSegment = false;
+        } else if (match[2] !== undefined) {
+            if (expectSegment && segments.length > 0) return null; // 'a.[0]'
+            segments.push(Number(match[2]));
+            expectSegment = false;
+        } else {
+            if (expectSegment) return null; // '.a' or 'a..b'
+            expectSegment = true;
+        }
+    }
+    if (expectSegment) return null; // Trailing dot
+    return segments;
+}
+
 /**
  * Extracts a potentially nested value from an object using a dot-notation path.
+ * Only own properties are followed, so names such as '__proto__' or 'constructor' never
+ * resolve to inherited members.
  * @param obj The object to extract the value from.
- * @param path A string representing the path (e.g., 'data.user.id').
+ * @param path A string representing the path (e.g., 'data.user.id' or 'entry[0].changes[0].value').
  * @returns The extracted value, or undefined if the path is invalid or the value doesn't exist.
  */
 export function extractValueFromJson(obj: any, path: string): any {
-    if (!path) return undefined;
-    // Basic dot notation split, improve if complex paths needed (e.g., array indices)
-    const keys = path.split('.'); 
+    const keys = parseJsonPath(path);
+    if (!keys) return undefined;
     let current = obj;
     for (const key of keys) {
         if (current === null || current === undefined || typeof current !== 'object') return undefined;
+        if (!Object.prototype.hasOwnProperty.call(current, key)) return undefined;
         current = current[key];
     }
     return current;
-} 
\ No newline at end of file
+}
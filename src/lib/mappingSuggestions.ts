@@ -0,0 +1,153 @@
+/**
+ * Conversation Mapping Suggestions
+ *
+ * Ranks the payload paths of captured sample events (see listening mode) as candidates for
+ * conversationIdIdentificationMapping. A good candidate:
+ * - is present in every sample,
+ * - has an identifier-like name (thread_id, conversation, session, chat, from, customer, sender...),
+ * - holds short identifier-like values (no spaces, not a timestamp, not a long text),
+ * - is not a per-event ID (event_id, message_id, delivery...): those are deduplication keys,
+ *   and would start a new conversation for every event.
+ * Suggested paths use the value expression syntax (e.g. `entry[0].changes[0].value.contacts[0].wa_id`),
+ * so they can be stored as the mapping as-is.
+ */
+
+export const MAX_MAPPING_SUGGESTIONS = 10;
+
+const MAX_DEPTH = 8;
+const MAX_ARRAY_ITEMS = 3; // Array elements visited per array; conversation keys are usually at [0]
+const MAX_EXAMPLES = 3;
+const CONSTANT_MIN_SAMPLES = 3; // Below this, a single value may just be one conversation
+
+// Name patterns, checked against the last key of a path
+const CONVERSATION_KEY_PATTERN = /(thread|conversation|session|chat|ticket|room|channel)/i;
+const PARTICIPANT_KEY_PATTERN = /(from|sender|customer|contact|user|author|phone|email|wa_id|recipient)/i;
+const IDENTIFIER_KEY_PATTERN = /(^id$|_id$|Id$|uuid|number|key$)/;
+const PER_EVENT_KEY_PATTERN = /(event|delivery|message|request|webhook|notification|attempt|timestamp|created|updated|time$|date$|^ts$)/i;
+
+const IDENTIFIER_VALUE_PATTERN = /^[\w.:@+\-/|#]{3,128}$/;
+const TIMESTAMP_VALUE_PATTERN = /^(\d{10}|\d{13}|\d{4}-\d{2}-\d{2}T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)$/;
+
+/**
+ * A ranked candidate path for conversationIdIdentificationMapping.
+ */
+export interface MappingSuggestion {
+    path: string;
+    score: number;       // 0 to 1, higher is better
+    coverage: number;    // Share of the samples holding a value at this path (0 to 1)
+    examples: string[];  // Up to 3 distinct values seen at this path
+    reasons: string[];   // Why the path was ranked this way
+}
+
+interface PathValues {
+    path: string;
+    lastKey: string;
+    values: string[]; // One per sample holding a value
+}
+
+// --- Collection ---
+
+// Keys that are not plain identifiers are skipped: they cannot be written as dot-notation paths
+const isPathKey = (key: string): boolean => /^[^.[\]\s]+$/.test(key);
+
+const collectLeafValues = (
+    value: unknown,
+    path: string,
+    lastKey: string,
+    depth: number,
+    leaves: Map<string, { lastKey: string; value: string }>
+): void => {
+    if (depth > MAX_DEPTH || value === null || value === undefined) return;
+    if (Array.isArray(value)) {
+        value.slice(0, MAX_ARRAY_ITEMS).forEach((item, index) =>
+            collectLeafValues(item, `${path}[${index}]`, lastKey, depth + 1, leaves)
+        );
+        return;
+    }
+    if (typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+            if (!isPathKey(key)) continue;
+            collectLeafValues(child, path ? `${path}.${key}` : key, key, depth + 1, leaves);
+        }
+        return;
+    }
+    if ((typeof value === 'string' && value !== '') || typeof value === 'number') {
+        leaves.set(path, { lastKey, value: String(value) });
+    }
+};
+
+const collectPathValues = (payloads: unknown[]): PathValues[] => {
+    const byPath = new Map<string, PathValues>();
+    for (const payload of payloads) {
+        const leaves = new Map<string, { lastKey: string; value: string }>();
+        collectLeafValues(payload, '', '', 0, leaves);
+        for (const [path, { lastKey, value }] of leaves) {
+            const entry = byPath.get(path) ?? { path, lastKey, values: [] };
+            entry.values.push(value);
+            byPath.set(path, entry);
+        }
+    }
+    return [...byPath.values()];
+};
+
+// --- Scoring ---
+
+const scorePath = ({ path, lastKey, values }: PathValues, sampleCount: number): MappingSuggestion | null => {
+    const reasons: string[] = [];
+    let nameScore = 0;
+    if (CONVERSATION_KEY_PATTERN.test(lastKey)) {
+        nameScore = 0.5;
+        reasons.push(`'${lastKey}' names a conversation`);
+    } else if (PARTICIPANT_KEY_PATTERN.test(lastKey)) {
+        nameScore = 0.4;
+        reasons.push(`'${lastKey}' names a participant`);
+    } else if (IDENTIFIER_KEY_PATTERN.test(lastKey)) {
+        nameScore = 0.2;
+        reasons.push(`'${lastKey}' names an identifier`);
+    }
+    if (PER_EVENT_KEY_PATTERN.test(lastKey) && !CONVERSATION_KEY_PATTERN.test(lastKey)) {
+        nameScore -= 0.4;
+        reasons.push(`'${lastKey}' looks specific to each event (a better fit for deduplicationKeyMapping)`);
+    }
+
+    const identifierShare = values.filter(value => IDENTIFIER_VALUE_PATTERN.test(value) && !TIMESTAMP_VALUE_PATTERN.test(value)).length / values.length;
+    if (identifierShare < 0.5) return null; // Texts, timestamps and tiny values are never conversation keys
+    reasons.push(identifierShare === 1 ? 'values look like identifiers' : 'most values look like identifiers');
+
+    const distinctValues = [...new Set(values)];
+    let stabilityScore = 0;
+    if (values.length >= CONSTANT_MIN_SAMPLES && distinctValues.length === 1) {
+        stabilityScore = -0.2;
+        reasons.push('same value in every sample (likely a constant, such as an account or event type)');
+    } else if (values.length > 1 && distinctValues.length < values.length) {
+        stabilityScore = 0.1;
+        reasons.push('values repeat across samples, as events of one conversation would');
+    }
+
+    const coverage = values.length / sampleCount;
+    if (coverage < 1) reasons.push(`present in ${values.length} of ${sampleCount} samples`);
+
+    const score = Math.max(0, Math.min(1, (0.3 * identifierShare + nameScore + stabilityScore + 0.1) * coverage));
+    if (score === 0) return null;
+    return {
+        path,
+        score: Math.round(score * 100) / 100,
+        coverage: Math.round(coverage * 100) / 100,
+        examples: distinctValues.slice(0, MAX_EXAMPLES),
+        reasons,
+    };
+};
+
+/**
+ * Ranks the payload paths of sample events as conversation ID mapping candidates.
+ * @param payloads The normalized payloads of the captured samples.
+ * @returns Up to MAX_MAPPING_SUGGESTIONS candidates, best first (shallower paths first on ties).
+ */
+export function suggestConversationMappings(payloads: unknown[]): MappingSuggestion[] {
+    if (payloads.length === 0) return [];
+    return collectPathValues(payloads)
+        .map(pathValues => scorePath(pathValues, payloads.length))
+        .filter((suggestion): suggestion is MappingSuggestion => suggestion !== null)
+        .sort((a, b) => b.score - a.score || a.path.length - b.path.length)
+        .slice(0, MAX_MAPPING_SUGGESTIONS);
+}
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_AGENT_MESSAGE_TEMPLATE, MessageTemplateContext, renderMessageTemplate, validateMessageTemplate } from './messageTemplate.js';
+
+const context: MessageTemplateContext = {
+    payload: { id: 'in_1', customer: { email: 'a@example.com' }, data: { object: { id: 'obj_1', amount_due: 500, status: 'open', secret: 'x' } } },
+    webhookProviderId: 'stripe',
+    subscribedEventId: 'invoice.paid',
+    webhookId: 'wh_1',
+    eventId: 'ev_1',
+    agentId: 'ag_1',
+    conversationId: 'conv_1',
+    receivedAt: new Date('2025-06-01T10:00:00.000Z'),
+    deliveredAt: new Date('2025-06-01T10:00:05.000Z'),
+};
+
+describe('validateMessageTemplate', () => {
+    it('accepts variables, payload paths and helpers', () => {
+        assert.equal(validateMessageTemplate(DEFAULT_AGENT_MESSAGE_TEMPLATE), null);
+        assert.equal(validateMessageTemplate('{{ payload.items[0].name | default:none | truncate:20 }} at {{receivedAt}}'), null);
+        assert.equal(validateMessageTemplate('{{payload.data.object | pick:id, status}}'), null);
+    });
+
+    it('locates the first invalid placeholder', () => {
+        assert.match(validateMessageTemplate('{{sender}}')!, /^Placeholder '\{\{sender\}\}': unknown variable 'sender'/);
+        assert.match(validateMessageTemplate('{{payload | upper}}')!, /unknown helper 'upper'/);
+        assert.match(validateMessageTemplate('{{payload | truncate:0}}')!, /positive length/);
+        assert.match(validateMessageTemplate('{{payload | json:2}}')!, /takes no argument/);
+        assert.match(validateMessageTemplate('{{payload | default}}')!, /requires a fallback/);
+    });
+
+    it('rejects empty, oversized and unclosed templates', () => {
+        assert.match(validateMessageTemplate(' ')!, /must not be empty/);
+        assert.match(validateMessageTemplate('x'.repeat(20_001))!, /at most/);
+        assert.match(validateMessageTemplate('Hello {{payload.id')!, /unclosed/);
+    });
+});
+
+describe('renderMessageTemplate', () => {
+    it('renders variables, dates and payload paths', () => {
+        assert.equal(
+            renderMessageTemplate('{{webhookProviderId}}/{{subscribedEventId}} {{payload.id}} at {{receivedAt}} for {{payload.customer.email}}', context),
+            'stripe/invoice.paid in_1 at 2025-06-01T10:00:00.000Z for a@example.com'
+        );
+    });
+
+    it('applies helpers left to right', () => {
+        assert.equal(renderMessageTemplate('{{payload.missing | default:n/a}}', context), 'n/a');
+        assert.equal(renderMessageTemplate('{{payload.customer.email | truncate:3}}', context), 'a@e…');
+        assert.equal(renderMessageTemplate('{{payload.missing | default:unknown customer | truncate:7}}', context), 'unknown…');
+        assert.deepEqual(
+            JSON.parse(renderMessageTemplate('{{payload.data.object | pick:id,status}}', context)),
+            { id: 'obj_1', status: 'open' }
+        );
+    });
+
+    it('renders objects as JSON and missing values as empty text', () => {
+        assert.equal(renderMessageTemplate('{{payload.customer}}', context), JSON.stringify({ email: 'a@example.com' }, null, 2));
+        assert.equal(renderMessageTemplate('[{{payload.missing}}]', context), '[]');
+    });
+
+    it('inserts payload values verbatim without expanding placeholders in them', () => {
+        const payload = { text: '{{agentId}}' };
+        assert.equal(renderMessageTemplate('{{payload.text}}', { ...context, payload }), '{{agentId}}');
+    });
+});
@@ -0,0 +1,213 @@
+/**
+ * Agent Message Templates
+ *
+ * Renders the user message sent to the agent for a webhook event. Templates are plain text with
+ * `{{ variable | helper:argument }}` placeholders, e.g.:
+ *
+ *   New {{subscribedEventId}} from {{payload.customer.email | default:an unknown customer}}
+ *   at {{receivedAt}}: {{payload.data.object | pick:id,amount_due,status}}
+ *
+ * Variables: `payload` (the whole normalized payload), `payload.<dot.path>`, `webhookProviderId`,
+ * `subscribedEventId`, `webhookId`, `eventId`, `agentId`, `conversationId`, `receivedAt` (ISO 8601)
+ * and `deliveredAt` (ISO 8601).
+ * Helpers are applied left to right:
+ * - `json`: pretty-printed JSON.
+ * - `truncate:<n>`: at most n characters, with an ellipsis when shortened.
+ * - `pick:<path>,<path>`: object holding only the given dot-notation paths.
+ * - `default:<text>`: text used when the value is missing, null or empty.
+ *
+ * Rendering is a single pass over the template: values are never evaluated or re-expanded, so a
+ * payload containing `{{...}}` is inserted verbatim. Objects and arrays render as pretty JSON,
+ * missing values as an empty string.
+ * Use validateMessageTemplate (wrapped by MessageTemplateSchema in schemas.ts) before storing a template.
+ */
+import { extractValueFromJson, parseJsonPath } from './jsonUtils.js';
+
+export const MAX_MESSAGE_TEMPLATE_LENGTH = 20_000;
+
+/**
+ * The message used when neither the agent link nor the webhook defines a template.
+ */
+export const DEFAULT_AGENT_MESSAGE_TEMPLATE = `This is an automated message from {{webhookProviderId}}/{{subscribedEventId}}.
+You received this webhook event with the following payload:
+{{payload | json}}
+If you need more context about the event (like an incoming WhatsApp without history),
+you may want to retrieve past tool calls and past webhook events to get the relevant context.`;
+
+/**
+ * Values available to template placeholders.
+ */
+export interface MessageTemplateContext {
+    payload: unknown;
+    webhookProviderId: string;
+    subscribedEventId: string;
+    webhookId: string;
+    eventId: string;
+    agentId: string;
+    conversationId: string;
+    receivedAt: Date;
+    deliveredAt: Date;
+}
+
+const TEMPLATE_VARIABLES = [
+    'webhookProviderId',
+    'subscribedEventId',
+    'webhookId',
+    'eventId',
+    'agentId',
+    'conversationId',
+    'receivedAt',
+    'deliveredAt',
+] as const;
+
+const PLACEHOLDER_PATTERN = /\{\{([^{}]*)\}\}/g;
+
+interface TemplateHelperCall {
+    name: string;
+    argument: string | undefined;
+}
+
+interface TemplatePlaceholder {
+    variable: string;
+    helpers: TemplateHelperCall[];
+}
+
+// --- Parsing ---
+
+const parsePlaceholder = (expression: string): TemplatePlaceholder => {
+    const [variable, ...helperExpressions] = expression.split('|');
+    return {
+        variable: variable.trim(),
+        helpers: helperExpressions.map(helperExpression => {
+            const separatorIndex = helperExpression.indexOf(':');
+            return separatorIndex === -1
+                ? { name: helperExpression.trim(), argument: undefined }
+                : { name: helperExpression.slice(0, separatorIndex).trim(), argument: helperExpression.slice(separatorIndex + 1).trim() };
+        }),
+    };
+};
+
+const isValidPath = (path: string): boolean => parseJsonPath(path) !== null;
+
+const validateVariable = (variable: string): string | null => {
+    if (variable === 'payload') return null;
+    if (variable.startsWith('payload.')) {
+        return isValidPath(variable.slice('payload.'.length)) ? null : `invalid payload path '${variable}'.`;
+    }
+    if ((TEMPLATE_VARIABLES as readonly string[]).includes(variable)) return null;
+    return `unknown variable '${variable}' (expected payload, payload.<path> or one of ${TEMPLATE_VARIABLES.join(', ')}).`;
+};
+
+const validateHelper = ({ name, argument }: TemplateHelperCall): string | null => {
+    switch (name) {
+        case 'json':
+            return argument === undefined ? null : `helper 'json' takes no argument.`;
+        case 'truncate':
+            return argument !== undefined && /^[1-9]\d*$/.test(argument)
+                ? null
+                : `helper 'truncate' requires a positive length, e.g. truncate:500.`;
+        case 'pick':
+            return argument !== undefined && argument.split(',').every(path => isValidPath(path.trim()))
+                ? null
+                : `helper 'pick' requires comma-separated payload paths, e.g. pick:id,data.status.`;
+        case 'default':
+            return argument !== undefined ? null : `helper 'default' requires a fallback text, e.g. default:n/a.`;
+        default:
+            return `unknown helper '${name}' (expected json, truncate, pick or default).`;
+    }
+};
+
+/**
+ * Validates the syntax of a message template.
+ * @param template The candidate template (e.g. from a request body).
+ * @returns An error message locating the first problem, or null if the template is valid.
+ */
+export function validateMessageTemplate(template: string): string | null {
+    if (template.trim() === '') {
+        return 'Message template must not be empty.';
+    }
+    if (template.length > MAX_MESSAGE_TEMPLATE_LENGTH) {
+        return `Message template must be at most ${MAX_MESSAGE_TEMPLATE_LENGTH} characters.`;
+    }
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+        const placeholder = parsePlaceholder(match[1]);
+        const error = validateVariable(placeholder.variable)
+            ?? placeholder.helpers.map(validateHelper).find(helperError => helperError !== null)
+            ?? null;
+        if (error) {
+            return `Placeholder '${match[0]}': ${error}`;
+        }
+    }
+    if (template.replace(PLACEHOLDER_PATTERN, '').includes('{{')) {
+        return "Message template has an unclosed '{{' placeholder.";
+    }
+    return null;
+}
+
+// --- Rendering ---
+
+const resolveVariable = (variable: string, context: MessageTemplateContext): unknown => {
+    if (variable === 'payload') return context.payload;
+    if (variable.startsWith('payload.')) {
+        return extractValueFromJson(context.payload, variable.slice('payload.'.length));
+    }
+    const value = context[variable as typeof TEMPLATE_VARIABLES[number]];
+    return value instanceof Date ? value.toISOString() : value;
+};
+
+const stringifyValue = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'object') return JSON.stringify(value, null, 2);
+    return String(value);
+};
+
+// Null-prototype objects, so paths such as `__proto__` cannot reach Object.prototype
+const pickPaths = (value: unknown, paths: string[]): Record<string, unknown> => {
+    const picked: Record<string, unknown> = Object.create(null);
+    for (const path of paths) {
+        const pickedValue = extractValueFromJson(value, path);
+        if (pickedValue === undefined) continue;
+        const segments = parseJsonPath(path)!.map(String);
+        let target = picked;
+        for (const segment of segments.slice(0, -1)) {
+            if (typeof target[segment] !== 'object' || target[segment] === null) {
+                target[segment] = Object.create(null);
+            }
+            target = target[segment] as Record<string, unknown>;
+        }
+        target[segments[segments.length - 1]] = pickedValue;
+    }
+    return picked;
+};
+
+const applyHelper = (value: unknown, { name, argument }: TemplateHelperCall): unknown => {
+    switch (name) {
+        case 'json':
+            return value === undefined ? '' : JSON.stringify(value, null, 2);
+        case 'truncate': {
+            const text = stringifyValue(value);
+            const maxLength = Number(argument);
+            return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+        }
+        case 'pick':
+            return pickPaths(value, argument!.split(',').map(path => path.trim()));
+        case 'default':
+            return value === undefined || value === null || value === '' ? argument : value;
+        default:
+            return value;
+    }
+};
+
+/**
+ * Renders a message template for a webhook event.
+ * @param template The template, assumed valid (see MessageTemplateSchema).
+ * @param context The event values available to placeholders.
+ * @returns The agent message.
+ */
+export function renderMessageTemplate(template: string, context: MessageTemplateContext): string {
+    return template.replace(PLACEHOLDER_PATTERN, (_match, expression: string) => {
+        const { variable, helpers } = parsePlaceholder(expression);
+        const value = helpers.reduce(applyHelper, resolveVariable(variable, context));
+        return stringifyValue(value);
+    });
+}
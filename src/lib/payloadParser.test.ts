@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getMediaType, parseIncomingPayload } from './payloadParser.js';
+
+describe('getMediaType', () => {
+    it('lowercases the media type and drops its parameters', () => {
+        assert.equal(getMediaType({ 'content-type': 'Application/JSON; charset=utf-8' }), 'application/json');
+        assert.equal(getMediaType({}), null);
+    });
+});
+
+describe('parseIncomingPayload', () => {
+    it('keeps parsed JSON and form bodies as-is', () => {
+        const body = { MessageSid: 'SM1', Body: 'hi' };
+        assert.deepEqual(parseIncomingPayload(body, { 'content-type': 'application/x-www-form-urlencoded' }), {
+            payload: body,
+            contentType: 'application/x-www-form-urlencoded',
+            isEmpty: false,
+        });
+    });
+
+    it('wraps JSON scalars in { value }', () => {
+        assert.deepEqual(parseIncomingPayload('ping', { 'content-type': 'application/json' }).payload, { value: 'ping' });
+        assert.deepEqual(parseIncomingPayload(42, { 'content-type': 'application/json' }).payload, { value: 42 });
+    });
+
+    it('converts XML bodies, including +xml media types', () => {
+        const parsed = parseIncomingPayload(Buffer.from('<event><id>1</id></event>'), { 'content-type': 'application/atom+xml' });
+        assert.deepEqual(parsed.payload, { event: { id: '1' } });
+        assert.equal(parsed.contentType, 'application/atom+xml');
+        assert.throws(() => parseIncomingPayload(Buffer.from('<event>'), { 'content-type': 'text/xml' }));
+    });
+
+    it('parses JSON objects and arrays sent without a JSON content type', () => {
+        assert.deepEqual(parseIncomingPayload(Buffer.from('{"id":"evt_1"}'), {}).payload, { id: 'evt_1' });
+        assert.deepEqual(parseIncomingPayload(Buffer.from(' [1, 2]'), { 'content-type': 'text/plain' }).payload, [1, 2]);
+        assert.deepEqual(parseIncomingPayload(Buffer.from('{"id":'), { 'content-type': 'text/plain' }).payload, { text: '{"id":' });
+        assert.deepEqual(parseIncomingPayload(Buffer.from('42'), { 'content-type': 'text/plain' }).payload, { text: '42' });
+    });
+
+    it('wraps other text bodies in { text } and binary bodies in { base64 }', () => {
+        assert.deepEqual(parseIncomingPayload(Buffer.from('hello'), { 'content-type': 'text/plain' }).payload, { text: 'hello' });
+        assert.deepEqual(parseIncomingPayload(Buffer.from([0, 1, 2]), { 'content-type': 'application/octet-stream' }).payload, { base64: 'AAEC' });
+    });
+
+    it('flags empty bodies', () => {
+        assert.deepEqual(parseIncomingPayload(Buffer.alloc(0), { 'content-type': 'text/plain' }), { payload: {}, contentType: 'text/plain', isEmpty: true });
+        assert.equal(parseIncomingPayload(undefined, {}).isEmpty, true);
+        assert.equal(parseIncomingPayload({}, { 'content-type': 'application/json' }).isEmpty, true);
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * Content-type aware normalization of incoming webhook bodies.
+ *
+ * Mappings (conversation ID, deduplication key, ...) are evaluated with dot-notation paths,
+ * so every supported body is turned into an object:
+ * - JSON objects and arrays are kept as-is; other JSON values become `{ value }`.
+ * - Form-encoded bodies are kept as parsed by express.urlencoded (e.g. Twilio).
+ * - XML bodies are converted with parseXml (see xmlParser.ts for the shape).
+ * - Other bodies holding a JSON object or array are parsed as JSON, whatever their content type
+ *   (some providers send JSON without a content type, or as text/plain).
+ * - Other text bodies become `{ text }`.
+ * - Any other body becomes `{ base64 }` holding the raw bytes.
+ * - An empty body becomes `{}`.
+ * The exact bytes stay available on `req.rawBody` for signature verification.
+ */
+import { IncomingHttpHeaders } from 'http';
+import { parseXml } from './xmlParser.js';
+
+export interface ParsedPayload {
+    payload: Record<string, any>;
+    contentType: string | null; // Media type without parameters, e.g. 'application/xml'
+    isEmpty: boolean;
+}
+
+/**
+ * Returns the lowercased media type of a request, without parameters such as charset.
+ */
+export function getMediaType(headers: IncomingHttpHeaders): string | null {
+    const header = headers['content-type'];
+    if (!header) return null;
+    const mediaType = header.split(';')[0].trim().toLowerCase();
+    return mediaType || null;
+}
+
+const isXmlMediaType = (mediaType: string): boolean =>
+    mediaType === 'application/xml' || mediaType === 'text/xml' || mediaType.endsWith('+xml');
+
+/**
+ * Parses a body holding a JSON object or array.
+ * @returns The parsed value, or null if the body is not a JSON object or array.
+ */
+const parseJsonStructure = (body: Buffer): Record<string, any> | null => {
+    const text = body.toString('utf8').replace(/^\uFEFF/, '');
+    if (!/^\s*[[{]/.test(text)) return null;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Normalizes a request body into an object.
+ * @param body The body as left by the body parsers (parsed object, or a Buffer for unparsed types).
+ * @param headers The request headers.
+ * @returns The normalized payload and the request media type.
+ * @throws Error if an XML body is not well-formed.
+ */
+export function parseIncomingPayload(body: unknown, headers: IncomingHttpHeaders): ParsedPayload {
+    const contentType = getMediaType(headers);
+
+    if (Buffer.isBuffer(body)) {
+        if (body.length === 0) {
+            return { payload: {}, contentType, isEmpty: true };
+        }
+        if (contentType && isXmlMediaType(contentType)) {
+            return { payload: parseXml(body.toString('utf8')), contentType, isEmpty: false };
+        }
+        const json = parseJsonStructure(body);
+        if (json !== null) {
+            return { payload: json, contentType, isEmpty: false };
+        }
+        if (contentType?.startsWith('text/')) {
+            return { payload: { text: body.toString('utf8') }, contentType, isEmpty: false };
+        }
+        return { payload: { base64: body.toString('base64') }, contentType, isEmpty: false };
+    }
+
+    if (body === null || body === undefined) {
+        return { payload: {}, contentType, isEmpty: true };
+    }
+    if (typeof body === 'object') {
+        // Body parsers leave `{}` when there was no body to parse
+        return { payload: body as Record<string, any>, contentType, isEmpty: Object.keys(body).length === 0 };
+    }
+    return { payload: { value: body }, contentType, isEmpty: false };
+}
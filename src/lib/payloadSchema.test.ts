@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PayloadSchema, inferPayloadSchema, validatePayload, validatePayloadSchema } from './payloadSchema.js';
+
+const orderSchema: PayloadSchema = {
+    type: 'object',
+    required: ['id', 'status'],
+    properties: {
+        id: { type: 'string', pattern: '^ord_' },
+        status: { enum: ['paid', 'refunded'] },
+        amount: { type: 'number', minimum: 0 },
+        items: { type: 'array', minItems: 1, items: { type: 'object', required: ['sku'] } },
+    },
+    additionalProperties: false,
+};
+
+describe('validatePayloadSchema', () => {
+    it('accepts supported keywords and annotations', () => {
+        assert.equal(validatePayloadSchema(orderSchema), null);
+        assert.equal(validatePayloadSchema({ $schema: 'x', title: 't', anyOf: [{ type: 'string' }, { type: 'null' }] }), null);
+    });
+
+    it('rejects unsupported keywords and malformed values', () => {
+        assert.match(validatePayloadSchema({ $ref: '#/definitions/x' })!, /\$ref/);
+        assert.match(validatePayloadSchema({ type: 'date' })!, /type/);
+        assert.match(validatePayloadSchema({ minLength: -1 })!, /non-negative integer/);
+    });
+
+    it('rejects patterns RE2 cannot compile', () => {
+        assert.match(validatePayloadSchema({ pattern: '(' })!, /'pattern' is not allowed: invalid regular expression/);
+        assert.match(validatePayloadSchema({ properties: { id: { pattern: '(a)\\1' } } })!, /invalid regular expression/);
+    });
+});
+
+describe('validatePayload', () => {
+    it('returns no errors for a conforming payload', () => {
+        assert.deepEqual(validatePayload(orderSchema, { id: 'ord_1', status: 'paid', amount: 10, items: [{ sku: 'a' }] }), []);
+    });
+
+    it('reports each problem with its path', () => {
+        const errors = validatePayload(orderSchema, { id: 'inv_1', amount: -1, items: [{}], extra: true });
+        assert.deepEqual(errors.map(error => error.path).sort(), ['amount', 'extra', 'id', 'items[0].sku', 'status']);
+    });
+
+    it('uses own properties only for required and additionalProperties', () => {
+        const schema: PayloadSchema = { type: 'object', properties: { a: {} }, required: ['constructor'], additionalProperties: false };
+        const errors = validatePayload(schema, JSON.parse('{"a":1,"toString":1,"__proto__":2}'));
+        assert.deepEqual(errors.map(error => error.path).sort(), ['__proto__', 'constructor', 'toString']);
+    });
+
+    it('distinguishes integers from numbers', () => {
+        assert.equal(validatePayload({ type: 'integer' }, 1.5).length, 1);
+        assert.equal(validatePayload({ type: 'number' }, 1.5).length, 0);
+    });
+
+    it('checks anyOf and oneOf', () => {
+        assert.equal(validatePayload({ anyOf: [{ type: 'string' }, { type: 'null' }] }, null).length, 0);
+        assert.equal(validatePayload({ oneOf: [{ type: 'number' }, { type: 'integer' }] }, 1).length, 1);
+    });
+});
+
+describe('inferPayloadSchema', () => {
+    it('infers types, properties and the properties present in every sample as required', () => {
+        assert.deepEqual(inferPayloadSchema([{ id: 'a', count: 1, tags: ['x'] }, { id: 'b', count: 2.5 }]), {
+            type: 'object',
+            properties: {
+                id: { type: 'string' },
+                count: { type: 'number' },
+                tags: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['id', 'count'],
+        });
+    });
+
+    it('keeps keys such as __proto__ as plain properties', () => {
+        const schema = inferPayloadSchema([JSON.parse('{"__proto__":{"x":1}}')]);
+        assert.deepEqual(Object.keys(schema.properties as object), ['__proto__']);
+        assert.deepEqual(schema.required, ['__proto__']);
+    });
+});
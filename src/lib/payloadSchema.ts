@@ -0,0 +1,309 @@
+/**
+ * Payload Schemas
+ *
+ * Optional JSON Schema of the normalized payload of a webhook definition, checked on every
+ * incoming event. Non-conforming events are rejected or flagged on webhook_events with their
+ * validation errors, depending on the definition's payloadSchemaMode.
+ *
+ * A subset of JSON Schema is supported, enough to describe provider payloads:
+ *   type (string or array of: object, array, string, number, integer, boolean, null),
+ *   properties, required, additionalProperties (boolean or schema), items (schema),
+ *   enum, const, minLength, maxLength, pattern, minimum, maximum, exclusiveMinimum,
+ *   exclusiveMaximum, minItems, maxItems, allOf, anyOf, oneOf.
+ * Patterns use RE2 syntax and run in linear time (see safeRegex.ts).
+ * Annotations ($schema, $id, $comment, title, description, default, examples, format) are
+ * accepted and ignored. Other keywords (e.g. $ref) are rejected by validatePayloadSchema,
+ * so a schema never silently checks less than it says.
+ * Error paths use dot notation with [n] array indexes, like the mappings ('' is the payload itself).
+ */
+import { testSafeRegex, validateSafeRegex } from './safeRegex.js';
+
+export const MAX_PAYLOAD_SCHEMA_LENGTH = 65_536; // Serialized size, in characters
+export const MAX_PAYLOAD_VALIDATION_ERRORS = 20;
+
+const MAX_SCHEMA_DEPTH = 32;
+const MAX_INFERRED_DEPTH = 10;
+
+export type PayloadSchema = { [keyword: string]: unknown };
+
+/**
+ * A payload value that does not conform to the schema.
+ */
+export interface PayloadValidationError {
+    path: string;    // Dot-notation path of the value ('' for the whole payload)
+    message: string;
+}
+
+const JSON_TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'] as const;
+type JsonType = typeof JSON_TYPES[number];
+
+const ANNOTATION_KEYWORDS = ['$schema', '$id', '$comment', 'title', 'description', 'default', 'examples', 'format'];
+const NUMBER_KEYWORDS = ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum'];
+const COUNT_KEYWORDS = ['minLength', 'maxLength', 'minItems', 'maxItems'];
+const COMBINATION_KEYWORDS = ['allOf', 'anyOf', 'oneOf'];
+const SUPPORTED_KEYWORDS = [
+    ...ANNOTATION_KEYWORDS, ...NUMBER_KEYWORDS, ...COUNT_KEYWORDS, ...COMBINATION_KEYWORDS,
+    'type', 'properties', 'required', 'additionalProperties', 'items', 'enum', 'const', 'pattern',
+];
+
+// --- Helpers ---
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const jsonTypeOf = (value: unknown): JsonType => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value as JsonType;
+};
+
+const matchesType = (value: unknown, type: JsonType): boolean => {
+    const actual = jsonTypeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const valuesEqual = (a: unknown, b: unknown): boolean =>
+    a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+const childPath = (path: string, key: string | number): string =>
+    typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const describePath = (path: string): string => path ? `'${path}'` : 'The payload';
+
+// --- Schema validation ---
+
+const validateSchemaAt = (schema: unknown, location: string, depth: number): string | null => {
+    if (depth > MAX_SCHEMA_DEPTH) {
+        return `${location}: schemas can be nested at most ${MAX_SCHEMA_DEPTH} levels deep.`;
+    }
+    if (typeof schema === 'boolean') return null;
+    if (!isPlainObject(schema)) {
+        return `${location}: a schema must be an object or a boolean.`;
+    }
+
+    for (const keyword of Object.keys(schema)) {
+        if (!SUPPORTED_KEYWORDS.includes(keyword)) {
+            return `${location}: unsupported keyword '${keyword}'.`;
+        }
+    }
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (types.length === 0 || !types.every(type => JSON_TYPES.includes(type as JsonType))) {
+            return `${location}: 'type' must be one of ${JSON_TYPES.join(', ')}, or an array of them.`;
+        }
+    }
+    for (const keyword of NUMBER_KEYWORDS) {
+        if (schema[keyword] !== undefined && typeof schema[keyword] !== 'number') {
+            return `${location}: '${keyword}' must be a number.`;
+        }
+    }
+    for (const keyword of COUNT_KEYWORDS) {
+        const count = schema[keyword];
+        if (count !== undefined && (typeof count !== 'number' || !Number.isInteger(count) || count < 0)) {
+            return `${location}: '${keyword}' must be a non-negative integer.`;
+        }
+    }
+    if (schema.pattern !== undefined) {
+        if (typeof schema.pattern !== 'string') return `${location}: 'pattern' must be a string.`;
+        const regexError = validateSafeRegex(schema.pattern);
+        if (regexError) return `${location}: 'pattern' is not allowed: ${regexError}`;
+    }
+    if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.length === 0)) {
+        return `${location}: 'enum' must be a non-empty array.`;
+    }
+    if (schema.required !== undefined && (!Array.isArray(schema.required) || !schema.required.every(key => typeof key === 'string'))) {
+        return `${location}: 'required' must be an array of property names.`;
+    }
+
+    if (schema.properties !== undefined) {
+        if (!isPlainObject(schema.properties)) return `${location}: 'properties' must be an object.`;
+        for (const [key, propertySchema] of Object.entries(schema.properties)) {
+            const error = validateSchemaAt(propertySchema, `${location}.properties.${key}`, depth + 1);
+            if (error) return error;
+        }
+    }
+    for (const keyword of ['additionalProperties', 'items']) {
+        if (schema[keyword] !== undefined) {
+            const error = validateSchemaAt(schema[keyword], `${location}.${keyword}`, depth + 1);
+            if (error) return error;
+        }
+    }
+    for (const keyword of COMBINATION_KEYWORDS) {
+        const schemas = schema[keyword];
+        if (schemas === undefined) continue;
+        if (!Array.isArray(schemas) || schemas.length === 0) {
+            return `${location}: '${keyword}' must be a non-empty array of schemas.`;
+        }
+        for (const [index, subschema] of schemas.entries()) {
+            const error = validateSchemaAt(subschema, `${location}.${keyword}[${index}]`, depth + 1);
+            if (error) return error;
+        }
+    }
+    return null;
+};
+
+/**
+ * Validates the structure of a payload schema before it is stored.
+ * @param schema The candidate schema.
+ * @returns An error message, or null if the schema is valid.
+ */
+export function validatePayloadSchema(schema: unknown): string | null {
+    if (!isPlainObject(schema)) {
+        return 'payloadSchema must be a JSON Schema object.';
+    }
+    if (JSON.stringify(schema).length > MAX_PAYLOAD_SCHEMA_LENGTH) {
+        return `payloadSchema must be at most ${MAX_PAYLOAD_SCHEMA_LENGTH} characters once serialized.`;
+    }
+    return validateSchemaAt(schema, 'payloadSchema', 0);
+}
+
+// --- Payload validation ---
+
+const collectErrors = (schema: unknown, value: unknown, path: string, errors: PayloadValidationError[]): void => {
+    if (schema === true) return;
+    if (schema === false) {
+        errors.push({ path, message: `${describePath(path)} is not allowed.` });
+        return;
+    }
+    if (!isPlainObject(schema)) return;
+
+    if (schema.type !== undefined) {
+        const types = (Array.isArray(schema.type) ? schema.type : [schema.type]) as JsonType[];
+        if (!types.some(type => matchesType(value, type))) {
+            errors.push({ path, message: `${describePath(path)} must be of type ${types.join(' or ')}, got ${jsonTypeOf(value)}.` });
+            return; // The other keywords would only repeat the type mismatch
+        }
+    }
+    if (schema.enum !== undefined && !(schema.enum as unknown[]).some(option => valuesEqual(option, value))) {
+        errors.push({ path, message: `${describePath(path)} must be one of ${JSON.stringify(schema.enum)}.` });
+    }
+    if (schema.const !== undefined && !valuesEqual(schema.const, value)) {
+        errors.push({ path, message: `${describePath(path)} must be ${JSON.stringify(schema.const)}.` });
+    }
+
+    if (typeof value === 'string') {
+        // Length in code points, as JSON Schema counts characters
+        const length = [...value].length;
+        if (typeof schema.minLength === 'number' && length < schema.minLength) {
+            errors.push({ path, message: `${describePath(path)} must be at least ${schema.minLength} characters long.` });
+        }
+        if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+            errors.push({ path, message: `${describePath(path)} must be at most ${schema.maxLength} characters long.` });
+        }
+        if (typeof schema.pattern === 'string' && !testSafeRegex(schema.pattern, value)) {
+            errors.push({ path, message: `${describePath(path)} must match the pattern ${schema.pattern}.` });
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (typeof schema.minimum === 'number' && value < schema.minimum) {
+            errors.push({ path, message: `${describePath(path)} must be >= ${schema.minimum}.` });
+        }
+        if (typeof schema.maximum === 'number' && value > schema.maximum) {
+            errors.push({ path, message: `${describePath(path)} must be <= ${schema.maximum}.` });
+        }
+        if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+            errors.push({ path, message: `${describePath(path)} must be > ${schema.exclusiveMinimum}.` });
+        }
+        if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+            errors.push({ path, message: `${describePath(path)} must be < ${schema.exclusiveMaximum}.` });
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+            errors.push({ path, message: `${describePath(path)} must have at least ${schema.minItems} items.` });
+        }
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+            errors.push({ path, message: `${describePath(path)} must have at most ${schema.maxItems} items.` });
+        }
+        if (schema.items !== undefined) {
+            value.forEach((item, index) => collectErrors(schema.items, item, childPath(path, index), errors));
+        }
+    }
+
+    if (isPlainObject(value)) {
+        for (const key of (schema.required as string[] | undefined) ?? []) {
+            if (!Object.hasOwn(value, key)) {
+                errors.push({ path: childPath(path, key), message: `${describePath(childPath(path, key))} is required.` });
+            }
+        }
+        const properties = (schema.properties as Record<string, unknown> | undefined) ?? {};
+        for (const [key, propertyValue] of Object.entries(value)) {
+            if (Object.hasOwn(properties, key)) {
+                collectErrors(properties[key], propertyValue, childPath(path, key), errors);
+            } else if (schema.additionalProperties !== undefined) {
+                collectErrors(schema.additionalProperties, propertyValue, childPath(path, key), errors);
+            }
+        }
+    }
+
+    if (Array.isArray(schema.allOf)) {
+        for (const subschema of schema.allOf) collectErrors(subschema, value, path, errors);
+    }
+    if (Array.isArray(schema.anyOf) && !schema.anyOf.some(subschema => conforms(subschema, value, path))) {
+        errors.push({ path, message: `${describePath(path)} must match at least one of the 'anyOf' schemas.` });
+    }
+    if (Array.isArray(schema.oneOf) && schema.oneOf.filter(subschema => conforms(subschema, value, path)).length !== 1) {
+        errors.push({ path, message: `${describePath(path)} must match exactly one of the 'oneOf' schemas.` });
+    }
+};
+
+const conforms = (schema: unknown, value: unknown, path: string): boolean => {
+    const errors: PayloadValidationError[] = [];
+    collectErrors(schema, value, path, errors);
+    return errors.length === 0;
+};
+
+/**
+ * Checks a payload against a payload schema.
+ * @param schema A schema accepted by validatePayloadSchema.
+ * @param payload The normalized webhook payload.
+ * @returns The validation errors (at most MAX_PAYLOAD_VALIDATION_ERRORS); empty if the payload conforms.
+ */
+export function validatePayload(schema: PayloadSchema, payload: unknown): PayloadValidationError[] {
+    const errors: PayloadValidationError[] = [];
+    collectErrors(schema, payload, '', errors);
+    return errors.slice(0, MAX_PAYLOAD_VALIDATION_ERRORS);
+}
+
+// --- Inference ---
+
+const inferSchemaOf = (values: unknown[], depth: number): PayloadSchema => {
+    if (depth > MAX_INFERRED_DEPTH) return {};
+
+    const types = new Set(values.map(jsonTypeOf));
+    if (types.has('number')) types.delete('integer');
+    const schema: PayloadSchema = { type: types.size === 1 ? [...types][0] : [...types].sort() };
+
+    const objects = values.filter(isPlainObject);
+    if (objects.length > 0) {
+        const keys = [...new Set(objects.flatMap(object => Object.keys(object)))];
+        // fromEntries defines own properties, so keys such as '__proto__' stay plain properties
+        schema.properties = Object.fromEntries(keys.map(key => [
+            key,
+            inferSchemaOf(objects.filter(object => Object.hasOwn(object, key)).map(object => object[key]), depth + 1),
+        ]));
+        // Providers add fields over time, so other properties stay allowed
+        const required = keys.filter(key => objects.every(object => Object.hasOwn(object, key)));
+        if (required.length > 0) schema.required = required;
+    }
+
+    const items = values.filter(Array.isArray).flat();
+    if (items.length > 0) {
+        schema.items = inferSchemaOf(items, depth + 1);
+    }
+    return schema;
+};
+
+/**
+ * Infers a payload schema from sample payloads (see listening mode): the types seen at each path,
+ * with the properties present in every sample marked as required.
+ * @param payloads The normalized payloads of the samples; at least one.
+ * @returns A schema every sample conforms to.
+ */
+export function inferPayloadSchema(payloads: unknown[]): PayloadSchema {
+    return inferSchemaOf(payloads, 0);
+}
@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Predicate, evaluatePredicate, validatePredicate } from './predicates.js';
+
+const payload = {
+    type: 'invoice.payment_failed',
+    livemode: true,
+    data: { object: { amount_due: 12000, currency: 'eur', lines: [{ id: 'li_1' }, { id: 'li_2' }] } },
+    tags: ['vip', 'eu'],
+    note: null,
+};
+
+describe('evaluatePredicate', () => {
+    it('compares values with eq and neq, structurally for objects', () => {
+        assert.equal(evaluatePredicate({ path: 'type', operator: 'eq', value: 'invoice.payment_failed' }, payload), true);
+        assert.equal(evaluatePredicate({ path: 'data.object.lines[1]', operator: 'eq', value: { id: 'li_2' } }, payload), true);
+        assert.equal(evaluatePredicate({ path: 'livemode', operator: 'neq', value: false }, payload), true);
+        assert.equal(evaluatePredicate({ path: 'livemode', operator: 'eq', value: 'true' }, payload), false);
+    });
+
+    it('checks membership with in and nin', () => {
+        assert.equal(evaluatePredicate({ path: 'data.object.currency', operator: 'in', value: ['usd', 'eur'] }, payload), true);
+        assert.equal(evaluatePredicate({ path: 'data.object.currency', operator: 'nin', value: ['usd', 'eur'] }, payload), false);
+    });
+
+    it('matches substrings and array elements with contains', () => {
+        assert.equal(evaluatePredicate({ path: 'type', operator: 'contains', value: 'payment' }, payload), true);
+        assert.equal(evaluatePredicate({ path: 'tags', operator: 'contains', value: 'vip' }, payload), true);
+        assert.equal(evaluatePredicate({ path: 'tags', operator: 'contains', value: 'us' }, payload), false);
+    });
+
+    it('treats null as missing for exists and not_exists', () => {
+        assert.equal(evaluatePredicate({ path: 'livemode', operator: 'exists' }, payload), true);
+        assert.equal(evaluatePredicate({ path: 'note', operator: 'exists' }, payload), false);
+        assert.equal(evaluatePredicate({ path: 'missing.path', operator: 'not_exists' }, payload), true);
+    });
+
+    it('orders numbers with gt, gte, lt and lte', () => {
+        assert.equal(evaluatePredicate({ path: 'data.object.amount_due', operator: 'gte', value: 12000 }, payload), true);
+        assert.equal(evaluatePredicate({ path: 'data.object.amount_due', operator: 'gt', value: 12000 }, payload), false);
+        assert.equal(evaluatePredicate({ path: 'data.object.amount_due', operator: 'lt', value: 20000 }, payload), true);
+        assert.equal(evaluatePredicate({ path: 'type', operator: 'lte', value: 10 }, payload), false);
+    });
+
+    it('matches regular expressions with matches', () => {
+        assert.equal(evaluatePredicate({ path: 'type', operator: 'matches', value: '^invoice\\.' }, payload), true);
+        assert.equal(evaluatePredicate({ path: 'data.object.amount_due', operator: 'matches', value: '^\\d{5}$' }, payload), true);
+        assert.equal(evaluatePredicate({ path: 'type', operator: 'matches', value: '^customer\\.' }, payload), false);
+    });
+
+    it('matches catastrophic backtracking patterns in linear time', () => {
+        const predicate: Predicate = { path: 'value', operator: 'matches', value: '^(a+)+$' };
+        const startedAt = Date.now();
+        assert.equal(evaluatePredicate(predicate, { value: `${'a'.repeat(10_000)}!` }), false);
+        assert.ok(Date.now() - startedAt < 1_000);
+    });
+
+    it('never matches a pattern that does not compile', () => {
+        const predicate: Predicate = { path: 'value', operator: 'matches', value: '(a)\\1' };
+        assert.equal(evaluatePredicate(predicate, { value: 'aa' }), false);
+    });
+
+    it('combines conditions with and / or groups', () => {
+        const predicate: Predicate = {
+            or: [
+                { path: 'type', operator: 'eq', value: 'customer.created' },
+                { and: [
+                    { path: 'data.object.amount_due', operator: 'gte', value: 10000 },
+                    { path: 'livemode', operator: 'eq', value: true },
+                ] },
+            ],
+        };
+        assert.equal(evaluatePredicate(predicate, payload), true);
+        assert.equal(evaluatePredicate(predicate, { ...payload, livemode: false }), false);
+    });
+});
+
+describe('validatePredicate', () => {
+    it('accepts valid predicates', () => {
+        assert.equal(validatePredicate({ path: 'type', operator: 'eq', value: 'x' }), null);
+        assert.equal(validatePredicate({ and: [{ path: 'a[0].b', operator: 'exists' }, { path: 'c', operator: 'in', value: [1] }] }), null);
+        assert.equal(validatePredicate({ path: 'type', operator: 'matches', value: '^(invoice|charge)\\.' }), null);
+    });
+
+    it('locates the first problem', () => {
+        assert.match(validatePredicate({ path: 'type', operator: 'like', value: 'x' })!, /^rule\.operator: must be one of/);
+        assert.match(validatePredicate({ or: [{ path: 'a', operator: 'exists', value: 1 }] })!, /^rule\.or\[0\]\.value: operator 'exists' takes no value/);
+        assert.match(validatePredicate({ path: 'a', operator: 'in', value: 'x' })!, /requires an array/);
+        assert.match(validatePredicate({ and: [] })!, /must be a non-empty array/);
+        assert.match(validatePredicate({ path: 'a', operator: 'eq', value: 1, extra: true })!, /unknown key 'extra'/);
+    });
+
+    it('rejects regular expressions RE2 cannot compile', () => {
+        assert.match(validatePredicate({ path: 'a', operator: 'matches', value: '(' })!, /^rule\.value: invalid regular expression/);
+        assert.match(validatePredicate({ path: 'a', operator: 'matches', value: 'a(?=b)' })!, /invalid regular expression/);
+    });
+
+    it('limits the nesting depth', () => {
+        let predicate: unknown = { path: 'a', operator: 'exists' };
+        for (let i = 0; i < 12; i++) predicate = { and: [predicate] };
+        assert.match(validatePredicate(predicate)!, /nested at most/);
+    });
+});
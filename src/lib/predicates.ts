@@ -0,0 +1,217 @@
+/**
+ * Payload Predicates
+ *
+ * Declarative match rules evaluated against an incoming webhook payload, used by agent
+ * routing rules. A predicate is either a condition on one payload path or an `and` / `or`
+ * group of predicates:
+ *
+ *   { "or": [
+ *       { "path": "type", "operator": "eq", "value": "invoice.payment_failed" },
+ *       { "and": [ { "path": "data.object.amount_due", "operator": "gte", "value": 10000 },
+ *                  { "path": "livemode", "operator": "eq", "value": true } ] }
+ *   ] }
+ *
+ * Paths use dot notation with [n] array indexes, relative to the payload (see extractValueFromJson).
+ * Use validatePredicate (wrapped by PredicateSchema in schemas.ts) before storing a predicate.
+ */
+import { extractValueFromJson, parseJsonPath } from './jsonUtils.js';
+import { testSafeRegex, validateSafeRegex } from './safeRegex.js';
+
+export const PREDICATE_OPERATORS = [
+    'eq',         // Equal to value (strict, objects compared structurally)
+    'neq',        // Not equal to value
+    'in',         // Equal to one of the values in the array
+    'nin',        // Equal to none of the values in the array
+    'contains',   // String contains value, or array contains an element equal to value
+    'exists',     // Present and not null (no value)
+    'not_exists', // Missing or null (no value)
+    'gt',         // Greater than value (numbers, numeric strings, or strings compared lexically)
+    'gte',
+    'lt',
+    'lte',
+    'matches',    // String matches the regular expression in value (RE2 syntax, see safeRegex.ts)
+] as const;
+
+export type PredicateOperator = typeof PREDICATE_OPERATORS[number];
+
+export const VALUELESS_PREDICATE_OPERATORS: readonly PredicateOperator[] = ['exists', 'not_exists'];
+
+export interface PredicateCondition {
+    path: string;
+    operator: PredicateOperator;
+    value?: unknown;
+}
+
+export interface PredicateAndGroup {
+    and: Predicate[];
+}
+
+export interface PredicateOrGroup {
+    or: Predicate[];
+}
+
+export type Predicate = PredicateCondition | PredicateAndGroup | PredicateOrGroup;
+
+// --- Helpers ---
+
+const valuesEqual = (actual: unknown, expected: unknown): boolean => {
+    if (actual === expected) return true;
+    if (typeof actual !== 'object' || typeof expected !== 'object' || actual === null || expected === null) {
+        return false;
+    }
+    return JSON.stringify(actual) === JSON.stringify(expected);
+};
+
+/**
+ * Orders two scalars for gt/gte/lt/lte. Numeric strings are compared as numbers when the
+ * other side is a number (form-encoded payloads only carry strings).
+ * @returns A negative, zero or positive number, or null if the values are not comparable.
+ */
+const compareValues = (actual: unknown, expected: unknown): number | null => {
+    if (typeof expected === 'number') {
+        const actualNumber = typeof actual === 'string' && actual.trim() !== '' ? Number(actual) : actual;
+        if (typeof actualNumber !== 'number' || isNaN(actualNumber)) return null;
+        return actualNumber - expected;
+    }
+    if (typeof expected === 'string' && typeof actual === 'string') {
+        return actual < expected ? -1 : actual > expected ? 1 : 0;
+    }
+    return null;
+};
+
+const evaluateCondition = (condition: PredicateCondition, payload: unknown): boolean => {
+    const actual = extractValueFromJson(payload, condition.path);
+    const expected = condition.value;
+
+    switch (condition.operator) {
+        case 'eq':
+            return valuesEqual(actual, expected);
+        case 'neq':
+            return !valuesEqual(actual, expected);
+        case 'in':
+            return Array.isArray(expected) && expected.some(item => valuesEqual(actual, item));
+        case 'nin':
+            return Array.isArray(expected) && !expected.some(item => valuesEqual(actual, item));
+        case 'contains':
+            if (typeof actual === 'string') return typeof expected === 'string' && actual.includes(expected);
+            return Array.isArray(actual) && actual.some(item => valuesEqual(item, expected));
+        case 'exists':
+            return actual !== undefined && actual !== null;
+        case 'not_exists':
+            return actual === undefined || actual === null;
+        case 'gt':
+        case 'gte':
+        case 'lt':
+        case 'lte': {
+            const comparison = compareValues(actual, expected);
+            if (comparison === null) return false;
+            if (condition.operator === 'gt') return comparison > 0;
+            if (condition.operator === 'gte') return comparison >= 0;
+            if (condition.operator === 'lt') return comparison < 0;
+            return comparison <= 0;
+        }
+        case 'matches':
+            if (typeof expected !== 'string') return false;
+            if (typeof actual !== 'string' && typeof actual !== 'number') return false;
+            return testSafeRegex(expected, String(actual));
+        default:
+            return false;
+    }
+};
+
+// --- Validation ---
+
+const MAX_PREDICATE_DEPTH = 10;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateAt = (predicate: unknown, location: string, depth: number): string | null => {
+    if (depth > MAX_PREDICATE_DEPTH) {
+        return `${location}: predicates can be nested at most ${MAX_PREDICATE_DEPTH} levels deep.`;
+    }
+    if (!isPlainObject(predicate)) {
+        return `${location}: a predicate must be an object.`;
+    }
+
+    for (const groupKey of ['and', 'or'] as const) {
+        if (groupKey in predicate) {
+            if (Object.keys(predicate).length !== 1) {
+                return `${location}: an '${groupKey}' group must not have other keys.`;
+            }
+            const children = predicate[groupKey];
+            if (!Array.isArray(children) || children.length === 0) {
+                return `${location}.${groupKey}: must be a non-empty array of predicates.`;
+            }
+            for (let i = 0; i < children.length; i++) {
+                const error = validateAt(children[i], `${location}.${groupKey}[${i}]`, depth + 1);
+                if (error) return error;
+            }
+            return null;
+        }
+    }
+
+    const { path, operator, value } = predicate;
+    const unknownKey = Object.keys(predicate).find(key => !['path', 'operator', 'value'].includes(key));
+    if (unknownKey) {
+        return `${location}: unknown key '${unknownKey}' (expected path, operator and value, or an 'and' / 'or' group).`;
+    }
+    if (typeof path !== 'string' || path.trim() === '' || parseJsonPath(path) === null) {
+        return `${location}.path: must be a dot-notation payload path (array indexes as [n]).`;
+    }
+    if (typeof operator !== 'string' || !(PREDICATE_OPERATORS as readonly string[]).includes(operator)) {
+        return `${location}.operator: must be one of ${PREDICATE_OPERATORS.join(', ')}.`;
+    }
+    if (VALUELESS_PREDICATE_OPERATORS.includes(operator as PredicateOperator)) {
+        return value === undefined ? null : `${location}.value: operator '${operator}' takes no value.`;
+    }
+    if (value === undefined) {
+        return `${location}.value: operator '${operator}' requires a value.`;
+    }
+    switch (operator) {
+        case 'in':
+        case 'nin':
+            return Array.isArray(value) ? null : `${location}.value: operator '${operator}' requires an array.`;
+        case 'gt':
+        case 'gte':
+        case 'lt':
+        case 'lte':
+            return typeof value === 'number' || typeof value === 'string'
+                ? null
+                : `${location}.value: operator '${operator}' requires a number or a string.`;
+        case 'matches': {
+            if (typeof value !== 'string') return `${location}.value: operator 'matches' requires a regular expression string.`;
+            const regexError = validateSafeRegex(value);
+            return regexError ? `${location}.value: ${regexError}` : null;
+        }
+        default:
+            return null;
+    }
+};
+
+/**
+ * Validates the syntax of a predicate.
+ * @param predicate The candidate predicate (e.g. from a request body).
+ * @returns An error message locating the first problem, or null if the predicate is valid.
+ */
+export function validatePredicate(predicate: unknown): string | null {
+    return validateAt(predicate, 'rule', 0);
+}
+
+// --- Evaluation ---
+
+/**
+ * Evaluates a predicate against a payload.
+ * An empty `and` group matches; an empty `or` group does not.
+ * @param predicate The predicate, assumed valid (see PredicateSchema).
+ * @param payload The normalized webhook payload.
+ */
+export function evaluatePredicate(predicate: Predicate, payload: unknown): boolean {
+    if ('and' in predicate) {
+        return predicate.and.every(child => evaluatePredicate(child, payload));
+    }
+    if ('or' in predicate) {
+        return predicate.or.some(child => evaluatePredicate(child, payload));
+    }
+    return evaluateCondition(predicate, payload);
+}
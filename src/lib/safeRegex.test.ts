@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_SAFE_REGEX_LENGTH, testSafeRegex, validateSafeRegex } from './safeRegex.js';
+
+describe('validateSafeRegex', () => {
+    it('accepts common patterns', () => {
+        for (const pattern of ['^invoice\\.', '^\\d+(\\.\\d+)?$', '(https?://)?example\\.com', '[a-z]{2,}', '^(foo|bar)$', '(?P<id>\\w+)-\\d{1,3}', '(a+)+$']) {
+            assert.equal(validateSafeRegex(pattern), null, pattern);
+        }
+    });
+
+    it('rejects backreferences and lookarounds, which RE2 does not support', () => {
+        for (const pattern of ['(a)\\1', 'a(?=b)', '(?<!a)b']) {
+            assert.match(validateSafeRegex(pattern)!, /^invalid regular expression/, pattern);
+        }
+    });
+
+    it('rejects invalid and overlong patterns', () => {
+        assert.match(validateSafeRegex('(a')!, /invalid regular expression/);
+        assert.match(validateSafeRegex('a'.repeat(MAX_SAFE_REGEX_LENGTH + 1))!, /at most/);
+    });
+});
+
+describe('testSafeRegex', () => {
+    it('tests whether any part of the value matches', () => {
+        assert.equal(testSafeRegex('^ab', 'abc'), true);
+        assert.equal(testSafeRegex('^ab', 'cab'), false);
+        assert.equal(testSafeRegex('b+', 'abbc'), true);
+    });
+
+    it('never matches with a pattern that does not compile', () => {
+        assert.equal(testSafeRegex('(a)\\1', 'aa'), false);
+    });
+
+    it('runs backtracking-prone patterns on long values in linear time', () => {
+        const startedAt = Date.now();
+        assert.equal(testSafeRegex('^(a|aa)+$', `${'a'.repeat(50_000)}!`), false);
+        assert.equal(testSafeRegex('.*.*x', 'a'.repeat(50_000)), false);
+        assert.ok(Date.now() - startedAt < 1_000);
+    });
+});
@@ -0,0 +1,56 @@
+/**
+ * Safe Regular Expressions
+ *
+ * Validation and evaluation of user-written regular expressions that run against incoming
+ * payloads (the `matches` predicate operator, the payload schema `pattern` keyword).
+ * JavaScript regular expressions backtrack, so a pattern such as `(a+)+$` can block the event
+ * loop for minutes on a crafted payload. User patterns therefore run on RE2 (through re2js),
+ * which matches in time linear in the size of the value. RE2 syntax is close to JavaScript's
+ * but has no backreferences or lookarounds; patterns using them are refused.
+ *
+ * Use validateSafeRegex before storing a pattern and testSafeRegex to evaluate it.
+ */
+import { RE2JS } from 're2js';
+
+export const MAX_SAFE_REGEX_LENGTH = 1_000; // Characters of the pattern
+
+const MAX_CACHED_PATTERNS = 1_000;
+
+// Compiled patterns, null for patterns failing validation (e.g. stored before RE2 was used)
+const compiledPatterns = new Map<string, RE2JS | null>();
+
+// --- Public API ---
+
+/**
+ * Validates a user-written regular expression (RE2 syntax, without flags).
+ * @param pattern The candidate pattern.
+ * @returns An error message, or null if the pattern compiles.
+ */
+export function validateSafeRegex(pattern: string): string | null {
+    if (pattern.length > MAX_SAFE_REGEX_LENGTH) {
+        return `regular expressions can be at most ${MAX_SAFE_REGEX_LENGTH} characters long.`;
+    }
+    try {
+        RE2JS.compile(pattern);
+    } catch (error) {
+        return `invalid regular expression (${error instanceof Error ? error.message : String(error)}).`;
+    }
+    return null;
+}
+
+/**
+ * Tests whether a user-written regular expression matches any part of a value.
+ * Patterns failing validateSafeRegex never match.
+ * @param pattern The pattern (RE2 syntax, without flags).
+ * @param value The tested value.
+ * @returns True if the value matches.
+ */
+export function testSafeRegex(pattern: string, value: string): boolean {
+    let regex = compiledPatterns.get(pattern);
+    if (regex === undefined) {
+        regex = validateSafeRegex(pattern) === null ? RE2JS.compile(pattern) : null;
+        if (compiledPatterns.size >= MAX_CACHED_PATTERNS) compiledPatterns.clear();
+        compiledPatterns.set(pattern, regex);
+    }
+    return regex !== null && regex.test(value);
+}
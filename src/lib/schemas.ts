@@ -5,10 +5,120 @@
  * and potentially query strings for the webhook store API.
  */
 import { z } from 'zod';
+import { validateDeduplicationKeyMapping } from './deduplication.js';
+import { Predicate, validatePredicate } from './predicates.js';
+import { EventFilter, validateEventFilters } from './eventFilters.js';
+import { validateMessageTemplate } from './messageTemplate.js';
+import { validateValueExpression } from './valueExpressions.js';
+import { MAX_CONVERSATION_HASH_FIELDS, validateConversationSettings } from './conversationStrategy.js';
+import { PayloadSchema, validatePayloadSchema } from './payloadSchema.js';
+import {
+  AcknowledgementSettings,
+  BatchingSettings,
+  ConversationStrategy,
+  PayloadSchemaMode,
+  SyncResponseSettings,
+  WebhookResponseMode,
+} from '../types/webhook.js';
 
 // Helper for UUID validation
 const uuidSchema = z.string().uuid({ message: "Invalid UUID format" });
 
+// Where to read the provider delivery ID: a value expression such as `$headers.X-GitHub-Delivery` or a payload path.
+// Null disables deduplication.
+export const DeduplicationKeyMappingSchema = z.string()
+  .superRefine((mapping, ctx) => {
+    const error = validateDeduplicationKeyMapping(mapping);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  })
+  .transform(mapping => mapping.trim())
+  .nullable();
+
+// Expression reading a value from an incoming request: payload path with [n] indexes, $headers.<name>,
+// $query.<name>, 'literal', coalesce(a, b, ...) or a {a}#{b} template (see lib/valueExpressions.ts)
+export const ValueExpressionSchema = z.string()
+  .superRefine((expression, ctx) => {
+    const error = validateValueExpression(expression);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  })
+  .transform(expression => expression.trim());
+
+// Value expressions hashed into the conversation ID by the 'hashed' conversation strategy
+export const ConversationHashFieldsSchema = z.array(ValueExpressionSchema)
+  .min(1, { message: "At least one conversation hash field is required" })
+  .max(MAX_CONVERSATION_HASH_FIELDS, { message: `At most ${MAX_CONVERSATION_HASH_FIELDS} conversation hash fields are allowed` })
+  .nullable();
+
+// Template of the message sent to agents, with {{variable | helper}} placeholders (see lib/messageTemplate.ts).
+// Null uses the built-in message.
+export const MessageTemplateSchema = z.string()
+  .superRefine((template, ctx) => {
+    const error = validateMessageTemplate(template);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  })
+  .nullable();
+
+// JSON Schema of incoming payloads (see lib/payloadSchema.ts for the supported keywords)
+// Null disables payload validation
+export const PayloadSchemaSchema = z.unknown()
+  .superRefine((schema, ctx) => {
+    if (schema === null) return;
+    const error = validatePayloadSchema(schema);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  })
+  .transform(schema => schema as PayloadSchema | null);
+
+// Limits of the debounce batching settings
+export const MAX_BATCH_WINDOW_SECONDS = 60 * 60;
+export const MAX_BATCH_WAIT_SECONDS = 24 * 60 * 60;
+export const MAX_BATCH_SIZE = 100;
+
+// Debounce batching of agent deliveries; null delivers every event on its own
+// maxBatchSize defaults to 20 and maxWaitSeconds to 5 windows (within MAX_BATCH_WAIT_SECONDS)
+export const BatchingSchema = z.object({
+  windowSeconds: z.number().int().min(1).max(MAX_BATCH_WINDOW_SECONDS),
+  maxBatchSize: z.number().int().min(2).max(MAX_BATCH_SIZE).optional().default(20),
+  maxWaitSeconds: z.number().int().min(1).max(MAX_BATCH_WAIT_SECONDS).optional(),
+})
+  .refine(batching => batching.maxWaitSeconds === undefined || batching.maxWaitSeconds >= batching.windowSeconds, {
+    message: "maxWaitSeconds must be at least windowSeconds",
+    path: ['maxWaitSeconds'],
+  })
+  .transform((batching): BatchingSettings => ({
+    ...batching,
+    maxWaitSeconds: batching.maxWaitSeconds ?? Math.min(batching.windowSeconds * 5, MAX_BATCH_WAIT_SECONDS),
+  }))
+  .nullable();
+
+// Limits of the 'sync' response mode timeout. Providers usually give up after 10 to 15 seconds (3 for Slack).
+export const DEFAULT_SYNC_RESPONSE_TIMEOUT_MS = 10000;
+export const MAX_SYNC_RESPONSE_TIMEOUT_MS = 60000;
+
+// Timeout and fallback acknowledgement of the 'sync' response mode; null uses the defaults
+export const SyncResponseSchema = z.object({
+  timeoutMs: z.number().int().min(100).max(MAX_SYNC_RESPONSE_TIMEOUT_MS).optional().default(DEFAULT_SYNC_RESPONSE_TIMEOUT_MS),
+  fallbackMessage: z.string().min(1, { message: "fallbackMessage must be a non-empty string or null" }).nullable().optional().default(null),
+})
+  .transform((syncResponse): SyncResponseSettings => syncResponse)
+  .nullable();
+
+// Custom acknowledgement of incoming events; null sends the JSON envelope.
+// The body template uses the message template syntax (see lib/acknowledgements.ts).
+export const AcknowledgementSchema = z.object({
+  statusCode: z.number().int().min(200).max(299).optional().default(200),
+  contentType: z.string()
+    .regex(/^[\w.+-]+\/[\w.+-]+(\s*;.*)?$/, { message: "contentType must be a media type, e.g. text/plain" })
+    .optional().default('text/plain'),
+  bodyTemplate: MessageTemplateSchema.optional().default(null),
+  ackInternalFailures: z.boolean().optional().default(false),
+})
+  .refine(acknowledgement => !(acknowledgement.statusCode === 204 && acknowledgement.bodyTemplate !== null), {
+    message: "A 204 acknowledgement cannot have a body",
+    path: ['bodyTemplate'],
+  })
+  .transform((acknowledgement): AcknowledgementSettings => acknowledgement)
+  .nullable();
+
 // Schema for the body of the POST / (create webhook) endpoint
 // Corresponds to WebhookData from @agent-base/types
 export const CreateWebhookSchema = z.object({
@@ -17,12 +127,36 @@ export const CreateWebhookSchema = z.object({
   // Use z.string() - refine with z.enum if UtilityProvider enum object is available at runtime
   webhookProviderId: z.string().min(1, { message: 'Invalid webhookProviderId' }),
   subscribedEventId: z.string().min(1, { message: "Subscribed event ID is required" }),
-  // Added conversationIdIdentificationMapping
-  conversationIdIdentificationMapping: z.string().min(1, { message: "conversationIdIdentificationMapping is required" }),
+  // Added conversationIdIdentificationMapping, required by the default 'mapped' conversation strategy
+  conversationIdIdentificationMapping: z.string().min(1, { message: "conversationIdIdentificationMapping must not be empty" })
+    .pipe(ValueExpressionSchema)
+    .optional(),
+  conversationStrategy: z.nativeEnum(ConversationStrategy).optional(),
+  conversationHashFields: ConversationHashFieldsSchema.optional(),
+  deduplicationKeyMapping: DeduplicationKeyMappingSchema.optional(),
+  agentMessageTemplate: MessageTemplateSchema.optional(),
+  payloadSchema: PayloadSchemaSchema.optional(),
+  payloadSchemaMode: z.nativeEnum(PayloadSchemaMode).optional(),
+  batching: BatchingSchema.optional(),
+  responseMode: z.nativeEnum(WebhookResponseMode).optional(),
+  syncResponse: SyncResponseSchema.optional(),
+  acknowledgement: AcknowledgementSchema.optional(),
   // Add embedding if it needs to be provided during creation
   // embedding: z.array(z.number()).optional(),
+}).superRefine((webhook, ctx) => {
+  const error = validateConversationSettings(webhook);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ['conversationStrategy'] });
 });
 
+// Payload predicate: a { path, operator, value } condition or an { and: [...] } / { or: [...] } group.
+// See lib/predicates.ts for the operators.
+export const PredicateSchema = z.unknown()
+  .superRefine((predicate, ctx) => {
+    const error = validatePredicate(predicate);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  })
+  .transform(predicate => predicate as Predicate);
+
 // Schema for the body of the POST /search endpoint
 export const SearchWebhookSchema = z.object({
   query: z.string().min(1, { message: "Search query is required" }),
@@ -37,8 +171,111 @@ export const WebhookIdParamsSchema = z.object({
 });
 
 // Schema for the body of the POST /:webhookId/link-agent endpoint
+// Routing: links with a routingRule receive events matching it (first match by ascending priority);
+// default links receive events no rule matched; other links receive every event.
 export const LinkAgentSchema = z.object({
   agentId: z.string().min(1, { message: "Agent ID is required" }),
+  routingRule: PredicateSchema.nullable().optional(),
+  priority: z.number().int().optional(),
+  isDefault: z.boolean().optional(),
+  messageTemplate: MessageTemplateSchema.optional(), // Overrides the webhook's agentMessageTemplate
+}).refine(link => !(link.isDefault && link.routingRule), {
+  message: "A default agent cannot have a routing rule",
+  path: ['isDefault'],
+});
+
+// Schema for the path parameters of /:webhookId/agents/:agentId
+export const AgentLinkParamsSchema = z.object({
+  webhookId: uuidSchema,
+  agentId: uuidSchema,
+});
+
+// Schema for the body of the PATCH /:webhookId/agents/:agentId endpoint
+export const UpdateAgentLinkSchema = z.object({
+  enabled: z.boolean({ required_error: "enabled is required", invalid_type_error: "enabled must be a boolean" }),
+});
+
+// Schema for the body of the PUT /:webhookId/signing-secret endpoint
+// A null signingSecret disables provider signature verification for the link
+export const SigningSecretSchema = z.object({
+  signingSecret: z.string().min(1, { message: "signingSecret must be a non-empty string or null" }).nullable(),
+});
+
+// Longest grace period a rotated URL secret can be kept valid for (30 days)
+export const MAX_SECRET_ROTATION_GRACE_SECONDS = 30 * 24 * 60 * 60;
+
+// Schema for the body of the POST /:webhookId/rotate-secret endpoint
+// The replaced secret stays valid for gracePeriodSeconds (0 revokes it immediately)
+export const RotateSecretSchema = z.object({
+  gracePeriodSeconds: z.number().int().min(0).max(MAX_SECRET_ROTATION_GRACE_SECONDS).optional(),
+});
+
+// Schema for the body of the PUT /:webhookId/filters endpoint
+// Events matching any filter are recorded with outcome 'filtered' and not delivered; [] clears the filters
+export const EventFiltersSchema = z.object({
+  filters: z.unknown()
+    .superRefine((filters, ctx) => {
+      const error = validateEventFilters(filters);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    })
+    .transform(filters => filters as EventFilter[]),
+});
+
+// Schema for the body of the PUT /:webhookId/listening endpoint
+// While listening, incoming events are captured as samples instead of being processed
+export const ListeningSchema = z.object({
+  listening: z.boolean({ required_error: "listening is required", invalid_type_error: "listening must be a boolean" }),
+});
+
+// Schema for the body of the POST /:webhookId/resume endpoint
+// The deliveries held while the link was paused are delivered in receipt order ('deliver') or dropped ('discard')
+export const ResumeSchema = z.object({
+  bufferedEvents: z.enum(['deliver', 'discard'], {
+    required_error: "bufferedEvents is required",
+    invalid_type_error: "bufferedEvents must be 'deliver' or 'discard'",
+  }),
+});
+
+// Schema for the path parameters of /deliveries/:deliveryId/...
+export const DeliveryIdParamsSchema = z.object({
+  deliveryId: uuidSchema,
+});
+
+// Schema for the query string of the GET /deliveries/failed endpoint
+export const FailedDeliveriesQuerySchema = z.object({
+  status: z.enum(['failed', 'dead_lettered']).optional(),
+  limit: z.coerce.number().int().positive().max(100).optional().default(50),
+});
+
+// Schema for the body of the POST /:webhookId/test endpoint
+// A sample request: the normalized payload plus the headers and query parameters mappings may read
+export const TestWebhookSchema = z.object({
+  payload: z.record(z.unknown()),
+  headers: z.record(z.string()).optional().default({}),
+  query: z.record(z.string()).optional().default({}),
+});
+
+// Schema for the query string of the GET /:webhookId/ingress-attempts endpoint
+export const IngressAttemptsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).optional().default(50),
+});
+
+// Schema for the body of the POST /deliveries/replay endpoint
+export const ReplayDeliveriesSchema = z.object({
+  deliveryIds: z.array(uuidSchema).min(1, { message: "At least one delivery ID is required" }).max(100, { message: "At most 100 deliveries can be replayed at once" }),
+});
+
+// Schema for the path parameters of /:webhookId/events/:eventId/...
+export const WebhookEventParamsSchema = z.object({
+  webhookId: uuidSchema,
+  eventId: uuidSchema,
+});
+
+// Schema for the body of the POST /:webhookId/events/:eventId/replay endpoint
+// Both overrides are optional; the event's own agent and conversation are used by default
+export const ReplayEventSchema = z.object({
+  agentId: uuidSchema.optional(),
+  conversationId: z.string().min(1, { message: "conversationId must be a non-empty string" }).optional(),
 });
 
 // Schema for the body of the POST /:webhookId/link-user endpoint (no body needed)
@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash, createHmac } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { SignatureVerificationContext, getSignatureVerifier, getSupportedSignatureProviders } from './signatureVerification.js';
+
+const SECRET = 'whsec_test';
+const NOW = 1_750_000_000;
+const RAW_BODY = '{"id":"evt_1","type":"invoice.paid"}';
+
+const hmac = (algorithm: 'sha1' | 'sha256', data: string, encoding: 'hex' | 'base64'): string =>
+    createHmac(algorithm, SECRET).update(data).digest(encoding);
+
+const contextFor = (headers: IncomingHttpHeaders, overrides: Partial<SignatureVerificationContext> = {}): SignatureVerificationContext => ({
+    rawBody: Buffer.from(RAW_BODY),
+    headers,
+    url: 'https://hooks.example.com/in/token?secret=s',
+    body: JSON.parse(RAW_BODY),
+    signingSecret: SECRET,
+    toleranceSeconds: 300,
+    nowSeconds: NOW,
+    ...overrides,
+});
+
+const verify = (provider: string, context: SignatureVerificationContext) => getSignatureVerifier(provider)!(context);
+
+describe('getSignatureVerifier', () => {
+    it('looks providers up case-insensitively', () => {
+        assert.ok(getSignatureVerifier('Stripe'));
+        assert.equal(getSignatureVerifier('unknown'), undefined);
+        assert.deepEqual(getSupportedSignatureProviders().sort(), ['github', 'shopify', 'slack', 'stripe', 'twilio', 'zoom']);
+    });
+});
+
+describe('stripe', () => {
+    const header = (timestamp: number, signature = hmac('sha256', `${timestamp}.${RAW_BODY}`, 'hex')) =>
+        ({ 'stripe-signature': `t=${timestamp},v1=bad,v1=${signature}` });
+
+    it('accepts any matching v1 signature of the timestamped body', () => {
+        assert.deepEqual(verify('stripe', contextFor(header(NOW))), { valid: true });
+    });
+
+    it('rejects wrong, stale, malformed and missing signatures', () => {
+        assert.match(verify('stripe', contextFor(header(NOW, 'f00d'))).reason!, /does not match/);
+        assert.match(verify('stripe', contextFor(header(NOW - 301))).reason!, /tolerance/);
+        assert.match(verify('stripe', contextFor({ 'stripe-signature': 'v1=abc' })).reason!, /Malformed/);
+        assert.match(verify('stripe', contextFor({})).reason!, /Missing/);
+    });
+});
+
+describe('github', () => {
+    it('checks the sha256 signature of the raw body', () => {
+        const signature = `sha256=${hmac('sha256', RAW_BODY, 'hex')}`;
+        assert.deepEqual(verify('github', contextFor({ 'x-hub-signature-256': signature })), { valid: true });
+        assert.equal(verify('github', contextFor({ 'x-hub-signature-256': signature }, { rawBody: Buffer.from('{}') })).valid, false);
+        assert.match(verify('github', contextFor({ 'x-hub-signature-256': 'sha1=abc' })).reason!, /malformed/);
+    });
+});
+
+describe('slack and zoom', () => {
+    for (const [provider, signatureHeader, timestampHeader] of [
+        ['slack', 'x-slack-signature', 'x-slack-request-timestamp'],
+        ['zoom', 'x-zm-signature', 'x-zm-request-timestamp'],
+    ]) {
+        it(`${provider}: checks the v0 signature of the timestamped body`, () => {
+            const headers = (timestamp: number) => ({
+                [signatureHeader]: `v0=${hmac('sha256', `v0:${timestamp}:${RAW_BODY}`, 'hex')}`,
+                [timestampHeader]: String(timestamp),
+            });
+            assert.deepEqual(verify(provider, contextFor(headers(NOW))), { valid: true });
+            assert.match(verify(provider, contextFor(headers(NOW + 301))).reason!, /tolerance/);
+            assert.match(verify(provider, contextFor({ ...headers(NOW), [timestampHeader]: String(NOW - 1) })).reason!, /does not match/);
+            assert.match(verify(provider, contextFor({ [signatureHeader]: 'v0=abc' })).reason!, /Missing/);
+        });
+    }
+});
+
+describe('twilio', () => {
+    it('signs the URL followed by the sorted form parameters', () => {
+        const body = { To: '+15550002', Body: 'hi', From: '+15550001' };
+        const url = 'https://hooks.example.com/in/token';
+        const signature = hmac('sha1', `${url}BodyhiFrom+15550001To+15550002`, 'base64');
+        const context = contextFor(
+            { 'x-twilio-signature': signature, 'content-type': 'application/x-www-form-urlencoded' },
+            { url, body, rawBody: Buffer.from('To=%2B15550002&Body=hi&From=%2B15550001') }
+        );
+        assert.deepEqual(verify('twilio', context), { valid: true });
+        assert.equal(verify('twilio', { ...context, body: { ...body, Body: 'changed' } }).valid, false);
+    });
+
+    it('checks bodySHA256 for JSON bodies', () => {
+        const bodyHash = createHash('sha256').update(RAW_BODY).digest('hex');
+        const url = `https://hooks.example.com/in/token?bodySHA256=${bodyHash}`;
+        const headers = { 'x-twilio-signature': hmac('sha1', url, 'base64'), 'content-type': 'application/json' };
+        assert.deepEqual(verify('twilio', contextFor(headers, { url })), { valid: true });
+        assert.match(verify('twilio', contextFor(headers, { url, rawBody: Buffer.from('{}') })).reason!, /bodySHA256/);
+    });
+});
+
+describe('shopify', () => {
+    it('checks the base64 signature of the raw body and the trigger time if sent', () => {
+        const signature = hmac('sha256', RAW_BODY, 'base64');
+        assert.deepEqual(verify('shopify', contextFor({ 'x-shopify-hmac-sha256': signature })), { valid: true });
+        const triggeredAt = (seconds: number) => new Date(seconds * 1000).toISOString();
+        assert.deepEqual(verify('shopify', contextFor({ 'x-shopify-hmac-sha256': signature, 'x-shopify-triggered-at': triggeredAt(NOW - 10) })), { valid: true });
+        assert.match(verify('shopify', contextFor({ 'x-shopify-hmac-sha256': signature, 'x-shopify-triggered-at': triggeredAt(NOW - 600) })).reason!, /tolerance/);
+        assert.match(verify('shopify', contextFor({ 'x-shopify-hmac-sha256': 'abc' })).reason!, /does not match/);
+    });
+});
@@ -0,0 +1,230 @@
+/**
+ * Provider Signature Verification
+ *
+ * Registry of verifiers that check the native signature a webhook provider attaches
+ * to each request (Stripe, GitHub, Slack, Twilio, Shopify, Zoom) against the signing secret
+ * configured on the user_webhooks link. Verifiers are keyed by webhookProviderId.
+ */
+import * as crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { safeEqual } from './crypto.js';
+
+/**
+ * Everything a verifier may need from the incoming request.
+ */
+export interface SignatureVerificationContext {
+    rawBody: Buffer;               // Exact bytes received, before any parsing
+    headers: IncomingHttpHeaders;  // Lower-cased request headers
+    url: string;                   // Full public URL the provider called (used by Twilio)
+    body: any;                     // Parsed body (used by Twilio for form parameters)
+    signingSecret: string;         // Secret configured on the user_webhooks link
+    toleranceSeconds: number;      // Max accepted age of a signed timestamp
+    nowSeconds?: number;           // Override for the current time (unix seconds)
+}
+
+export interface SignatureVerificationResult {
+    valid: boolean;
+    reason?: string; // Populated when valid is false
+}
+
+export type SignatureVerifier = (context: SignatureVerificationContext) => SignatureVerificationResult;
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Returns the signature timestamp tolerance configured for the service.
+ * Falls back to 5 minutes, which matches the recommendation of Stripe and Slack.
+ */
+export function getSignatureToleranceSeconds(): number {
+    const configured = parseInt(process.env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS || '', 10);
+    return isNaN(configured) || configured <= 0 ? DEFAULT_TOLERANCE_SECONDS : configured;
+}
+
+// --- Helpers ---
+
+function getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+    const value = headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+function hmac(algorithm: 'sha1' | 'sha256', secret: string, data: string | Buffer, encoding: 'hex' | 'base64'): string {
+    return crypto.createHmac(algorithm, secret).update(data).digest(encoding);
+}
+
+function isWithinTolerance(timestampSeconds: number, context: SignatureVerificationContext): boolean {
+    const now = context.nowSeconds ?? Math.floor(Date.now() / 1000);
+    return Math.abs(now - timestampSeconds) <= context.toleranceSeconds;
+}
+
+// --- Provider Verifiers ---
+
+/**
+ * Stripe: `Stripe-Signature: t=<unix>,v1=<hex hmac-sha256 of "t.rawBody">[,v1=...]`
+ */
+const verifyStripeSignature: SignatureVerifier = (context) => {
+    const header = getHeader(context.headers, 'stripe-signature');
+    if (!header) return { valid: false, reason: 'Missing Stripe-Signature header.' };
+
+    let timestamp: number | null = null;
+    const signatures: string[] = [];
+    for (const part of header.split(',')) {
+        const [key, value] = part.split('=', 2).map(s => s?.trim());
+        if (key === 't') timestamp = parseInt(value, 10);
+        if (key === 'v1' && value) signatures.push(value);
+    }
+    if (timestamp === null || isNaN(timestamp) || signatures.length === 0) {
+        return { valid: false, reason: 'Malformed Stripe-Signature header.' };
+    }
+    if (!isWithinTolerance(timestamp, context)) {
+        return { valid: false, reason: 'Stripe signature timestamp is outside the tolerance window.' };
+    }
+
+    const expected = hmac('sha256', context.signingSecret, `${timestamp}.${context.rawBody.toString('utf8')}`, 'hex');
+    return signatures.some(signature => safeEqual(expected, signature))
+        ? { valid: true }
+        : { valid: false, reason: 'Stripe signature does not match.' };
+};
+
+/**
+ * GitHub: `X-Hub-Signature-256: sha256=<hex hmac-sha256 of rawBody>`
+ * GitHub does not sign a timestamp, so no replay window can be enforced here.
+ */
+const verifyGithubSignature: SignatureVerifier = (context) => {
+    const header = getHeader(context.headers, 'x-hub-signature-256');
+    if (!header || !header.startsWith('sha256=')) {
+        return { valid: false, reason: 'Missing or malformed X-Hub-Signature-256 header.' };
+    }
+    const expected = `sha256=${hmac('sha256', context.signingSecret, context.rawBody, 'hex')}`;
+    return safeEqual(expected, header)
+        ? { valid: true }
+        : { valid: false, reason: 'GitHub signature does not match.' };
+};
+
+/**
+ * Slack: `X-Slack-Signature: v0=<hex hmac-sha256 of "v0:<timestamp>:rawBody">`
+ * with the timestamp in `X-Slack-Request-Timestamp`.
+ */
+const verifySlackSignature: SignatureVerifier = (context) => {
+    const signature = getHeader(context.headers, 'x-slack-signature');
+    const timestampHeader = getHeader(context.headers, 'x-slack-request-timestamp');
+    if (!signature || !timestampHeader) {
+        return { valid: false, reason: 'Missing X-Slack-Signature or X-Slack-Request-Timestamp header.' };
+    }
+    const timestamp = parseInt(timestampHeader, 10);
+    if (isNaN(timestamp)) return { valid: false, reason: 'Malformed X-Slack-Request-Timestamp header.' };
+    if (!isWithinTolerance(timestamp, context)) {
+        return { valid: false, reason: 'Slack request timestamp is outside the tolerance window.' };
+    }
+    const expected = `v0=${hmac('sha256', context.signingSecret, `v0:${timestamp}:${context.rawBody.toString('utf8')}`, 'hex')}`;
+    return safeEqual(expected, signature)
+        ? { valid: true }
+        : { valid: false, reason: 'Slack signature does not match.' };
+};
+
+/**
+ * Twilio: `X-Twilio-Signature: <base64 hmac-sha1 of url + sorted form params>`.
+ * For JSON bodies Twilio signs the URL only and adds a `bodySHA256` query parameter.
+ */
+const verifyTwilioSignature: SignatureVerifier = (context) => {
+    const signature = getHeader(context.headers, 'x-twilio-signature');
+    if (!signature) return { valid: false, reason: 'Missing X-Twilio-Signature header.' };
+
+    const contentType = getHeader(context.headers, 'content-type') || '';
+    let signedData = context.url;
+    if (contentType.startsWith('application/x-www-form-urlencoded') && context.body && typeof context.body === 'object') {
+        signedData += Object.keys(context.body)
+            .sort()
+            .map(key => `${key}${context.body[key]}`)
+            .join('');
+    } else {
+        const bodyHash = new URL(context.url).searchParams.get('bodySHA256');
+        const actualHash = crypto.createHash('sha256').update(context.rawBody).digest('hex');
+        if (bodyHash && !safeEqual(actualHash, bodyHash)) {
+            return { valid: false, reason: 'Twilio bodySHA256 does not match the request body.' };
+        }
+    }
+
+    const expected = hmac('sha1', context.signingSecret, signedData, 'base64');
+    return safeEqual(expected, signature)
+        ? { valid: true }
+        : { valid: false, reason: 'Twilio signature does not match.' };
+};
+
+/**
+ * Shopify: `X-Shopify-Hmac-Sha256: <base64 hmac-sha256 of rawBody>`.
+ * When `X-Shopify-Triggered-At` is present its age is checked against the tolerance.
+ */
+const verifyShopifySignature: SignatureVerifier = (context) => {
+    const signature = getHeader(context.headers, 'x-shopify-hmac-sha256');
+    if (!signature) return { valid: false, reason: 'Missing X-Shopify-Hmac-Sha256 header.' };
+
+    const triggeredAt = getHeader(context.headers, 'x-shopify-triggered-at');
+    if (triggeredAt) {
+        const timestampMs = Date.parse(triggeredAt);
+        if (isNaN(timestampMs)) return { valid: false, reason: 'Malformed X-Shopify-Triggered-At header.' };
+        if (!isWithinTolerance(Math.floor(timestampMs / 1000), context)) {
+            return { valid: false, reason: 'Shopify trigger timestamp is outside the tolerance window.' };
+        }
+    }
+
+    const expected = hmac('sha256', context.signingSecret, context.rawBody, 'base64');
+    return safeEqual(expected, signature)
+        ? { valid: true }
+        : { valid: false, reason: 'Shopify signature does not match.' };
+};
+
+/**
+ * Zoom: `x-zm-signature: v0=<hex hmac-sha256 of "v0:<timestamp>:rawBody">` keyed with the app's
+ * secret token, with the timestamp in `x-zm-request-timestamp`.
+ */
+const verifyZoomSignature: SignatureVerifier = (context) => {
+    const signature = getHeader(context.headers, 'x-zm-signature');
+    const timestampHeader = getHeader(context.headers, 'x-zm-request-timestamp');
+    if (!signature || !timestampHeader) {
+        return { valid: false, reason: 'Missing x-zm-signature or x-zm-request-timestamp header.' };
+    }
+    const timestamp = parseInt(timestampHeader, 10);
+    if (isNaN(timestamp)) return { valid: false, reason: 'Malformed x-zm-request-timestamp header.' };
+    if (!isWithinTolerance(timestamp, context)) {
+        return { valid: false, reason: 'Zoom request timestamp is outside the tolerance window.' };
+    }
+    const expected = `v0=${hmac('sha256', context.signingSecret, `v0:${timestamp}:${context.rawBody.toString('utf8')}`, 'hex')}`;
+    return safeEqual(expected, signature)
+        ? { valid: true }
+        : { valid: false, reason: 'Zoom signature does not match.' };
+};
+
+// --- Registry ---
+
+const signatureVerifiers: Record<string, SignatureVerifier> = {
+    stripe: verifyStripeSignature,
+    github: verifyGithubSignature,
+    slack: verifySlackSignature,
+    twilio: verifyTwilioSignature,
+    shopify: verifyShopifySignature,
+    zoom: verifyZoomSignature,
+};
+
+/**
+ * Registers (or replaces) the verifier used for a provider.
+ * @param webhookProviderId The provider identifier as used in webhook definitions.
+ * @param verifier The verifier function.
+ */
+export function registerSignatureVerifier(webhookProviderId: string, verifier: SignatureVerifier): void {
+    signatureVerifiers[webhookProviderId.toLowerCase()] = verifier;
+}
+
+/**
+ * Returns the verifier registered for a provider, if any.
+ * @param webhookProviderId The provider identifier as used in webhook definitions.
+ */
+export function getSignatureVerifier(webhookProviderId: string): SignatureVerifier | undefined {
+    return signatureVerifiers[webhookProviderId.toLowerCase()];
+}
+
+/**
+ * Lists the provider IDs that support native signature verification.
+ */
+export function getSupportedSignatureProviders(): string[] {
+    return Object.keys(signatureVerifiers);
+}
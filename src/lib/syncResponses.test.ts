@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatSyncResponse } from './syncResponses.js';
+
+describe('formatSyncResponse', () => {
+    it('twilio: answers messages and calls with escaped TwiML', () => {
+        const message = formatSyncResponse('Twilio', { reply: 'Tom & <Jerry>', payload: { MessageSid: 'SM1' } });
+        assert.equal(message.contentType, 'text/xml');
+        assert.equal(message.body, '<?xml version="1.0" encoding="UTF-8"?><Response><Message>Tom &amp; &lt;Jerry&gt;</Message></Response>');
+        assert.match(formatSyncResponse('twilio', { reply: 'Hello', payload: { CallSid: 'CA1' } }).body, /<Say>Hello<\/Say>/);
+        assert.match(formatSyncResponse('twilio', { reply: null, payload: {} }).body, /<Response\/>$/);
+    });
+
+    it('slack and teams: answer with their message formats', () => {
+        assert.deepEqual(JSON.parse(formatSyncResponse('slack', { reply: 'Hi', payload: {} }).body), { response_type: 'in_channel', text: 'Hi' });
+        assert.equal(formatSyncResponse('slack', { reply: null, payload: {} }).body, '');
+        assert.deepEqual(JSON.parse(formatSyncResponse('teams', { reply: 'Hi', payload: {} }).body), { type: 'message', text: 'Hi' });
+    });
+
+    it('other providers: answer with a JSON service response', () => {
+        assert.deepEqual(JSON.parse(formatSyncResponse('stripe', { reply: 'Done', payload: {} }).body), { success: true, data: 'Done' });
+        assert.deepEqual(JSON.parse(formatSyncResponse('stripe', { reply: null, payload: {} }).body), { success: true, data: 'Webhook resolved successfully' });
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * Synchronous Webhook Responses
+ *
+ * Registry of formatters rendering the agent's reply as the HTTP response expected by providers
+ * that read the answer from the webhook response ('sync' response mode): TwiML for Twilio,
+ * slash command messages for Slack, outgoing webhook messages for Microsoft Teams.
+ * Formatters are keyed by webhookProviderId; other providers get a JSON ServiceResponse.
+ */
+
+/**
+ * Everything a formatter may need to answer the incoming request.
+ */
+export interface SyncResponseContext {
+    reply: string | null;         // The agent's reply, or the fallback message; null for an empty acknowledgement
+    payload: Record<string, any>; // Normalized request body (see payloadParser.ts)
+}
+
+export interface SyncResponse {
+    statusCode: number;
+    contentType: 'application/json' | 'text/plain' | 'text/xml';
+    body: string;
+}
+
+export type SyncResponseFormatter = (context: SyncResponseContext) => SyncResponse;
+
+// --- Helpers ---
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+// --- Provider Formatters ---
+
+/**
+ * Twilio: TwiML. Voice calls (a CallSid without MessageSid) get `<Say>`, messages get `<Message>`.
+ * An empty `<Response/>` sends nothing back.
+ */
+const formatTwilioResponse: SyncResponseFormatter = ({ reply, payload }) => {
+    const verb = payload.CallSid && !payload.MessageSid ? 'Say' : 'Message';
+    const twiml = reply === null ? '<Response/>' : `<Response><${verb}>${escapeXml(reply)}</${verb}></Response>`;
+    return {
+        statusCode: 200,
+        contentType: 'text/xml',
+        body: `<?xml version="1.0" encoding="UTF-8"?>${twiml}`,
+    };
+};
+
+/**
+ * Slack slash commands: `{ "response_type": "in_channel", "text": "..." }`.
+ * An empty body acknowledges the command without posting anything.
+ */
+const formatSlackResponse: SyncResponseFormatter = ({ reply }) => {
+    if (reply === null) return { statusCode: 200, contentType: 'text/plain', body: '' };
+    return {
+        statusCode: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({ response_type: 'in_channel', text: reply }),
+    };
+};
+
+/**
+ * Microsoft Teams outgoing webhooks: `{ "type": "message", "text": "..." }`.
+ */
+const formatTeamsResponse: SyncResponseFormatter = ({ reply }) => ({
+    statusCode: 200,
+    contentType: 'application/json',
+    body: JSON.stringify({ type: 'message', text: reply ?? '' }),
+});
+
+/**
+ * Any other provider: `{ "success": true, "data": "<reply>" }`, with the usual acknowledgement when there is no reply.
+ */
+const formatDefaultResponse: SyncResponseFormatter = ({ reply }) => ({
+    statusCode: 200,
+    contentType: 'application/json',
+    body: JSON.stringify({ success: true, data: reply ?? 'Webhook resolved successfully' }),
+});
+
+// --- Registry ---
+
+const syncResponseFormatters: Record<string, SyncResponseFormatter> = {
+    twilio: formatTwilioResponse,
+    slack: formatSlackResponse,
+    teams: formatTeamsResponse,
+};
+
+/**
+ * Registers (or replaces) the sync response formatter used for a provider.
+ * @param webhookProviderId The provider identifier as used in webhook definitions.
+ * @param formatter The formatter function.
+ */
+export function registerSyncResponseFormatter(webhookProviderId: string, formatter: SyncResponseFormatter): void {
+    syncResponseFormatters[webhookProviderId.toLowerCase()] = formatter;
+}
+
+/**
+ * Renders the answer to an incoming webhook request of a 'sync' webhook definition.
+ * @param webhookProviderId The provider identifier as used in webhook definitions.
+ * @param context The reply and the request payload.
+ * @returns The response to send.
+ */
+export function formatSyncResponse(webhookProviderId: string, context: SyncResponseContext): SyncResponse {
+    const formatter = syncResponseFormatters[webhookProviderId.toLowerCase()] ?? formatDefaultResponse;
+    return formatter(context);
+}
@@ -2,10 +2,12 @@
  * Utility functions for URL construction.
  */
 import { Webhook } from "@agent-base/types";
-import { findUserWebhook } from "../services/userWebhookLinkService.js";
+import { findUserWebhook, findUserWebhookIngressToken } from "../services/userWebhookLinkService.js";
 /**
  * Constructs the target URL for a webhook.
  * This URL is typically used as the endpoint where webhook events are sent.
+ * It uses the opaque ingress token of the user-webhook link (see lib/ingress.ts), so the client user
+ * and organization IDs are not exposed to the provider.
  *
  * @param clientUserId - The unique identifier of the client user.
  * @param webhookProviderId - The unique identifier of the webhook provider (e.g., "stripe", "github").
@@ -26,12 +28,13 @@ export async function constructWebhookTargetUrl(
     );
   }
   const userWebhook = await findUserWebhook(webhook.id, clientUserId, clientOrganizationId);
-  if (!userWebhook || !userWebhook.webhookSecret) {
+  const ingressToken = await findUserWebhookIngressToken(webhook.id, clientUserId, clientOrganizationId);
+  if (!userWebhook || !userWebhook.webhookSecret || !ingressToken) {
     // If the user webhook link doesn't exist or is missing a secret (which shouldn't happen for an active link),
     // we cannot construct a valid target URL.
     throw new Error(
-      `Failed to construct target URL: UserWebhook link for webhook ID ${webhook.id} and client user ID ${clientUserId} and client organization ID ${clientOrganizationId} not found or is missing a secret.`
+      `Failed to construct target URL: UserWebhook link for webhook ID ${webhook.id} and client user ID ${clientUserId} and client organization ID ${clientOrganizationId} not found or is missing a secret or an ingress token.`
     );
   }
-  return `${baseWebhookUrl}/api/v1/webhooks/incoming/${webhook.webhookProviderId}/${webhook.subscribedEventId}/${clientUserId}/${clientOrganizationId}?secret=${userWebhook.webhookSecret}`;
+  return `${baseWebhookUrl}/api/v1/webhooks/in/${ingressToken}?secret=${userWebhook.webhookSecret}`;
 } 
\ No newline at end of file
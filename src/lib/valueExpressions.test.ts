@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_VALUE_EXPRESSION_LENGTH, evaluateValueExpression, parseValueExpression, validateValueExpression } from './valueExpressions.js';
+
+const input = {
+    payload: {
+        data: { session_id: 'sess_1', thread_id: '', id: 42 },
+        entry: [{ changes: [{ value: { contacts: [{ wa_id: '15550001' }] } }] }],
+        repository: { full_name: 'acme/api' },
+        issue: { number: 7 },
+    },
+    headers: { 'x-github-delivery': 'delivery-1', 'x-multi': ['first', 'second'] },
+    query: { channel: 'support', tags: ['a', 'b'] },
+};
+
+describe('parseValueExpression', () => {
+    it('parses references, literals, coalesce and templates', () => {
+        assert.deepEqual(parseValueExpression('data.session_id'), { kind: 'reference', source: 'payload', path: 'data.session_id' });
+        assert.deepEqual(parseValueExpression('$headers.X-GitHub-Delivery'), { kind: 'reference', source: 'headers', path: 'X-GitHub-Delivery' });
+        assert.deepEqual(parseValueExpression("'support'"), { kind: 'literal', value: 'support' });
+        assert.equal(parseValueExpression("coalesce(data.thread_id, 'default')").kind, 'coalesce');
+        assert.equal(parseValueExpression('{repository.full_name}#{issue.number}').kind, 'template');
+    });
+
+    it('rejects malformed expressions', () => {
+        assert.throws(() => parseValueExpression('coalesce(data.id'));
+        assert.throws(() => parseValueExpression("'unterminated"));
+        assert.throws(() => parseValueExpression('a'.repeat(MAX_VALUE_EXPRESSION_LENGTH + 1)), /at most/);
+    });
+});
+
+describe('validateValueExpression', () => {
+    it('returns null for valid expressions and a message otherwise', () => {
+        assert.equal(validateValueExpression('entry[0].changes[0].value.contacts[0].wa_id'), null);
+        assert.match(validateValueExpression('coalesce(')!, /^Invalid expression 'coalesce\(':/);
+    });
+
+    it('refuses headers and query parameters carrying credentials', () => {
+        for (const expression of ['$headers.X-Webhook-Secret', '$headers.authorization', "coalesce($headers.Cookie, 'x')", '{$query.secret}']) {
+            assert.match(validateValueExpression(expression)!, /carries credentials/, expression);
+        }
+        assert.equal(validateValueExpression('$query.secret_word'), null);
+    });
+});
+
+describe('evaluateValueExpression', () => {
+    it('reads payload paths with array indexes', () => {
+        assert.equal(evaluateValueExpression('data.session_id', input), 'sess_1');
+        assert.equal(evaluateValueExpression('entry[0].changes[0].value.contacts[0].wa_id', input), '15550001');
+        assert.equal(evaluateValueExpression('data.missing', input), undefined);
+    });
+
+    it('never resolves payload paths to inherited members', () => {
+        assert.equal(evaluateValueExpression('data.constructor', input), undefined);
+        assert.equal(evaluateValueExpression('data.__proto__', input), undefined);
+        assert.equal(evaluateValueExpression('constructor', { payload: JSON.parse('{"constructor":"own"}') }), 'own');
+    });
+
+    it('reads headers case-insensitively and query parameters, taking the first of repeated values', () => {
+        assert.equal(evaluateValueExpression('$headers.X-GitHub-Delivery', input), 'delivery-1');
+        assert.equal(evaluateValueExpression('$headers.x-multi', input), 'first');
+        assert.equal(evaluateValueExpression('$query.channel', input), 'support');
+        assert.equal(evaluateValueExpression('$query.tags', input), 'a');
+    });
+
+    it('never reads credentials, even from expressions stored before they were refused', () => {
+        const withSecrets = { payload: {}, headers: { 'x-webhook-secret': 's3cret' }, query: { secret: 's3cret' } };
+        assert.equal(evaluateValueExpression('$headers.X-Webhook-Secret', withSecrets), undefined);
+        assert.equal(evaluateValueExpression('$query.secret', withSecrets), undefined);
+        assert.equal(evaluateValueExpression('$query.constructor', withSecrets), undefined);
+    });
+
+    it('returns the first non-empty coalesce argument', () => {
+        assert.equal(evaluateValueExpression("coalesce(data.thread_id, data.id, 'default')", input), 42);
+        assert.equal(evaluateValueExpression("coalesce(data.thread_id, data.missing, 'default')", input), 'default');
+    });
+
+    it('concatenates templates, yielding no value when a placeholder has none', () => {
+        assert.equal(evaluateValueExpression('{repository.full_name}#{issue.number}', input), 'acme/api#7');
+        assert.equal(evaluateValueExpression('{repository.full_name}#{issue.missing}', input), undefined);
+    });
+});
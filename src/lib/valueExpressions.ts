@@ -0,0 +1,283 @@
+/**
+ * Value Expressions
+ *
+ * A small, safe expression language used by conversationIdIdentificationMapping to read a value
+ * from an incoming webhook request. Expressions are parsed, never evaluated as code:
+ *
+ *   data.session_id                                  payload path (dot notation)
+ *   entry[0].changes[0].value.contacts[0].wa_id      payload path with array indexes
+ *   $headers.X-GitHub-Delivery                       request header (case-insensitive)
+ *   $query.channel                                   URL query parameter
+ *   'support'                                        string literal
+ *   coalesce(data.thread_id, data.id, 'default')     first argument with a non-empty value
+ *   {repository.full_name}#{issue.number}            template concatenating expressions
+ *
+ * A plain dot-notation path is a valid expression, so existing mappings keep working.
+ * Headers and query parameters carrying credentials (the URL secret, Authorization, Cookie) cannot
+ * be read, so a secret never ends up in a conversation ID or an agent message.
+ * Templates are only allowed at the top level; their placeholders may hold any other expression.
+ * A template whose placeholder yields no value yields no value.
+ * Use validateValueExpression (wrapped by ValueExpressionSchema in schemas.ts) before storing an expression.
+ */
+import { IncomingHttpHeaders } from 'http';
+import { WEBHOOK_SECRET_HEADER, WEBHOOK_SECRET_QUERY_PARAMETER } from './ingress.js';
+import { extractValueFromJson, parseJsonPath } from './jsonUtils.js';
+
+export const MAX_VALUE_EXPRESSION_LENGTH = 1_000;
+
+/**
+ * Where a reference reads its value.
+ */
+export type ValueExpressionSource = 'payload' | 'headers' | 'query';
+
+export type ValueExpression =
+    | { kind: 'reference'; source: ValueExpressionSource; path: string }
+    | { kind: 'literal'; value: string }
+    | { kind: 'coalesce'; args: ValueExpression[] }
+    | { kind: 'template'; parts: (string | ValueExpression)[] };
+
+/**
+ * The parts of an incoming request an expression can read.
+ */
+export interface ValueExpressionInput {
+    payload: unknown;
+    headers?: IncomingHttpHeaders;
+    query?: Record<string, unknown>;
+}
+
+// --- Parsing ---
+
+const REFERENCE_PATTERN = /[^\s(),{}'"]+/y;
+const COALESCE_PATTERN = /coalesce\s*\(/y;
+const SOURCE_PREFIXES: Record<string, ValueExpressionSource> = {
+    '$payload.': 'payload',
+    '$headers.': 'headers',
+    '$query.': 'query',
+};
+
+// Lowercase names of the headers and query parameters expressions must not read
+const CREDENTIAL_HEADERS = new Set([WEBHOOK_SECRET_HEADER, 'authorization', 'proxy-authorization', 'cookie']);
+const CREDENTIAL_QUERY_PARAMETERS = new Set([WEBHOOK_SECRET_QUERY_PARAMETER]);
+
+const isCredentialReference = (source: ValueExpressionSource, name: string): boolean =>
+    (source === 'headers' && CREDENTIAL_HEADERS.has(name.toLowerCase()))
+    || (source === 'query' && CREDENTIAL_QUERY_PARAMETERS.has(name.toLowerCase()));
+
+const syntaxError = (message: string, position: number): Error =>
+    new Error(`${message} (at position ${position})`);
+
+class ValueExpressionParser {
+    private position = 0;
+
+    constructor(private readonly text: string) {}
+
+    parse(): ValueExpression {
+        const expression = this.text.includes('{') ? this.parseTemplate() : this.parseExpression();
+        this.skipWhitespace();
+        if (this.position < this.text.length) {
+            throw syntaxError(`Unexpected '${this.text[this.position]}'`, this.position);
+        }
+        return expression;
+    }
+
+    private parseTemplate(): ValueExpression {
+        const parts: (string | ValueExpression)[] = [];
+        let literalText = '';
+        while (this.position < this.text.length) {
+            const char = this.text[this.position];
+            if (char === '}') {
+                throw syntaxError("Unmatched '}' in template", this.position);
+            }
+            if (char !== '{') {
+                literalText += char;
+                this.position++;
+                continue;
+            }
+            if (literalText) parts.push(literalText);
+            literalText = '';
+            this.position++; // '{'
+            parts.push(this.parseExpression());
+            this.skipWhitespace();
+            this.expect('}', "Expected '}' to close the template placeholder");
+        }
+        if (literalText) parts.push(literalText);
+        return { kind: 'template', parts };
+    }
+
+    private parseExpression(): ValueExpression {
+        this.skipWhitespace();
+        const char = this.text[this.position];
+        if (char === undefined) {
+            throw syntaxError('Expected an expression', this.position);
+        }
+        if (char === "'" || char === '"') {
+            return this.parseLiteral(char);
+        }
+        COALESCE_PATTERN.lastIndex = this.position;
+        if (COALESCE_PATTERN.test(this.text)) {
+            this.position = COALESCE_PATTERN.lastIndex;
+            return this.parseCoalesceArguments();
+        }
+        return this.parseReference();
+    }
+
+    private parseLiteral(quote: string): ValueExpression {
+        const start = this.position;
+        const end = this.text.indexOf(quote, start + 1);
+        if (end === -1) {
+            throw syntaxError('Unterminated string literal', start);
+        }
+        this.position = end + 1;
+        return { kind: 'literal', value: this.text.slice(start + 1, end) };
+    }
+
+    private parseCoalesceArguments(): ValueExpression {
+        const args: ValueExpression[] = [];
+        do {
+            args.push(this.parseExpression());
+            this.skipWhitespace();
+        } while (this.consume(','));
+        this.expect(')', "Expected ',' or ')' in coalesce()");
+        if (args.length < 2) {
+            throw syntaxError('coalesce() requires at least two arguments', this.position);
+        }
+        return { kind: 'coalesce', args };
+    }
+
+    private parseReference(): ValueExpression {
+        const start = this.position;
+        REFERENCE_PATTERN.lastIndex = start;
+        const match = REFERENCE_PATTERN.exec(this.text);
+        if (!match) {
+            throw syntaxError(`Unexpected '${this.text[start]}'`, start);
+        }
+        this.position = REFERENCE_PATTERN.lastIndex;
+
+        const reference = match[0];
+        const prefix = Object.keys(SOURCE_PREFIXES).find(candidate => reference.startsWith(candidate));
+        if (!prefix && reference.startsWith('$')) {
+            throw syntaxError(`Unknown source '${reference.split('.')[0]}' (expected $payload, $headers or $query)`, start);
+        }
+        const source = prefix ? SOURCE_PREFIXES[prefix] : 'payload';
+        const path = prefix ? reference.slice(prefix.length) : reference;
+        if (source === 'payload' && parseJsonPath(path) === null) {
+            throw syntaxError(`'${reference}' is not a valid payload path`, start);
+        }
+        if (source !== 'payload' && !/^[A-Za-z0-9!#$%&*+.^_`|~-]+$/.test(path)) {
+            throw syntaxError(`'${reference}' is not a valid ${source === 'headers' ? 'header' : 'query parameter'} name`, start);
+        }
+        if (isCredentialReference(source, path)) {
+            throw syntaxError(`'${reference}' carries credentials and cannot be read`, start);
+        }
+        return { kind: 'reference', source, path };
+    }
+
+    private skipWhitespace(): void {
+        while (this.position < this.text.length && /\s/.test(this.text[this.position])) {
+            this.position++;
+        }
+    }
+
+    private consume(char: string): boolean {
+        if (this.text[this.position] !== char) return false;
+        this.position++;
+        return true;
+    }
+
+    private expect(char: string, message: string): void {
+        if (!this.consume(char)) {
+            throw syntaxError(message, this.position);
+        }
+    }
+}
+
+/**
+ * Parses a value expression.
+ * @param text The expression.
+ * @returns The expression tree.
+ * @throws Error if the expression is malformed.
+ */
+export function parseValueExpression(text: string): ValueExpression {
+    if (text.length > MAX_VALUE_EXPRESSION_LENGTH) {
+        throw new Error(`Expression must be at most ${MAX_VALUE_EXPRESSION_LENGTH} characters`);
+    }
+    return new ValueExpressionParser(text.trim()).parse();
+}
+
+/**
+ * Validates the syntax of a value expression.
+ * @param text The candidate expression (e.g. from a request body).
+ * @returns An error message locating the first problem, or null if the expression is valid.
+ */
+export function validateValueExpression(text: string): string | null {
+    try {
+        parseValueExpression(text);
+        return null;
+    } catch (error) {
+        return `Invalid expression '${text}': ${error instanceof Error ? error.message : String(error)}.`;
+    }
+}
+
+// --- Evaluation ---
+
+const isEmptyValue = (value: unknown): boolean =>
+    value === undefined || value === null || value === '';
+
+const firstValue = (value: unknown): unknown => (Array.isArray(value) ? value[0] : value);
+
+const readOwn = (source: Record<string, unknown> | undefined, key: string): unknown =>
+    source && Object.hasOwn(source, key) ? source[key] : undefined;
+
+const evaluate = (expression: ValueExpression, input: ValueExpressionInput): unknown => {
+    switch (expression.kind) {
+        case 'literal':
+            return expression.value;
+        case 'reference':
+            if (isCredentialReference(expression.source, expression.path)) {
+                return undefined; // Stored before credential references were refused
+            }
+            if (expression.source === 'headers') {
+                return firstValue(readOwn(input.headers, expression.path.toLowerCase()));
+            }
+            if (expression.source === 'query') {
+                return firstValue(readOwn(input.query, expression.path));
+            }
+            return extractValueFromJson(input.payload, expression.path);
+        case 'coalesce':
+            for (const arg of expression.args) {
+                const value = evaluate(arg, input);
+                if (!isEmptyValue(value)) return value;
+            }
+            return undefined;
+        case 'template': {
+            let result = '';
+            for (const part of expression.parts) {
+                if (typeof part === 'string') {
+                    result += part;
+                    continue;
+                }
+                const value = evaluate(part, input);
+                if (isEmptyValue(value)) return undefined;
+                result += typeof value === 'object' ? JSON.stringify(value) : String(value);
+            }
+            return result;
+        }
+    }
+};
+
+/**
+ * Evaluates a value expression against an incoming request.
+ * @param text The expression, assumed valid (see ValueExpressionSchema).
+ * @param input The normalized payload, headers and query of the request.
+ * @returns The value, or undefined if the expression yields no value.
+ */
+export function evaluateValueExpression(text: string, input: ValueExpressionInput): unknown {
+    let expression: ValueExpression;
+    try {
+        expression = parseValueExpression(text);
+    } catch {
+        // Mappings stored before expressions were validated are plain payload paths
+        return extractValueFromJson(input.payload, text);
+    }
+    return evaluate(expression, input);
+}
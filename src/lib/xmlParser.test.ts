@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_XML_DEPTH, parseXml } from './xmlParser.js';
+
+const parse = parseXml;
+
+describe('parseXml', () => {
+    it('makes the root element the single top-level key', () => {
+        assert.deepEqual(parse('<?xml version="1.0"?><Response><Status>ok</Status></Response>'), {
+            Response: { Status: 'ok' },
+        });
+    });
+
+    it('stores attributes with a prefix and mixed text under #text', () => {
+        assert.deepEqual(parse('<order id="42" state=\'paid\'>Total<amount currency="EUR">10.50</amount></order>'), {
+            order: {
+                '@_id': '42',
+                '@_state': 'paid',
+                amount: { '@_currency': 'EUR', '#text': '10.50' },
+                '#text': 'Total',
+            },
+        });
+    });
+
+    it('turns repeated sibling elements into arrays', () => {
+        assert.deepEqual(parse('<list><item>a</item><item>b</item><item>c</item></list>'), {
+            list: { item: ['a', 'b', 'c'] },
+        });
+    });
+
+    it('keeps entity references as written and CDATA as text', () => {
+        assert.deepEqual(parse('<m><a>&lt;b&gt; &amp; &#65;</a><c><![CDATA[<raw> & text]]></c></m>'), {
+            m: { a: '&lt;b&gt; &amp; &#65;', c: '<raw> & text' },
+        });
+    });
+
+    it('does not expand entities declared in a DOCTYPE', () => {
+        const xml = '<?xml version="1.0"?><!DOCTYPE lolz [<!ENTITY lol "lol"><!ENTITY lol2 "&lol;&lol;">]><lolz>&lol2;</lolz>';
+        assert.deepEqual(parse(xml), { lolz: '&lol2;' });
+    });
+
+    it('ignores comments, processing instructions and DOCTYPE, and keeps namespace prefixes', () => {
+        const xml = '﻿<?xml version="1.0"?><!DOCTYPE note><!-- c --><soap:Envelope><?pi x?><soap:Body>x</soap:Body></soap:Envelope>';
+        assert.deepEqual(parse(xml), { 'soap:Envelope': { 'soap:Body': 'x' } });
+    });
+
+    it('parses self-closing elements as empty strings', () => {
+        assert.deepEqual(parse('<a><b/><c x="1"/></a>'), { a: { b: '', c: { '@_x': '1' } } });
+    });
+
+    it('refuses element names that could reach the prototype chain', () => {
+        assert.throws(() => parseXml('<a><__proto__><polluted>1</polluted></__proto__></a>'), /^Error: Invalid XML/);
+        assert.equal(({} as Record<string, unknown>).polluted, undefined);
+    });
+
+    it('limits the nesting depth', () => {
+        const nested = (depth: number): string => '<a>'.repeat(depth) + 'x' + '</a>'.repeat(depth);
+        assert.doesNotThrow(() => parseXml(nested(MAX_XML_DEPTH)));
+        assert.throws(() => parseXml(nested(MAX_XML_DEPTH + 1)), /^Error: Invalid XML/);
+    });
+
+    it('rejects documents that are not well-formed', () => {
+        assert.throws(() => parseXml('<a><b></a>'));
+        assert.throws(() => parseXml('<a>'));
+        assert.throws(() => parseXml('not xml'));
+        assert.throws(() => parseXml('<a/><b/>'), /single root element/);
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * XML to object conversion for incoming webhook payloads, built on fast-xml-parser.
+ *
+ * Produces a plain object usable with dot-notation mappings:
+ * - The root element becomes the single top-level key.
+ * - Attributes are stored with an `@_` prefix (e.g. `@_id`).
+ * - Elements with only text become strings; mixed text is stored under `#text`.
+ * - Repeated sibling elements become arrays.
+ * Declarations, processing instructions, comments and DOCTYPE are ignored; CDATA is kept as text.
+ * Namespace prefixes are kept as part of the names (e.g. `soap:Envelope`).
+ * Bodies come from the network, so entity references are not processed (they are kept as
+ * written, e.g. `&amp;`), nesting is limited to MAX_XML_DEPTH elements, and element names such
+ * as `__proto__` are refused.
+ */
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+
+export const XML_ATTRIBUTE_PREFIX = '@_';
+export const XML_TEXT_KEY = '#text';
+export const MAX_XML_DEPTH = 100;
+
+const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: XML_ATTRIBUTE_PREFIX,
+    textNodeName: XML_TEXT_KEY,
+    parseTagValue: false, // Keep values as strings, as in form-encoded bodies
+    processEntities: false,
+    ignoreDeclaration: true,
+    ignorePiTags: true,
+    maxNestedTags: MAX_XML_DEPTH - 1, // Elements below the root
+});
+
+/**
+ * Parses an XML document into a plain object.
+ * @param xml The XML document.
+ * @returns An object with the root element name as its only key.
+ * @throws Error if the document is not well-formed, is nested too deeply or uses a reserved name.
+ */
+export function parseXml(xml: string): Record<string, any> {
+    const validation = XMLValidator.validate(xml);
+    if (validation !== true) {
+        throw new Error(`Invalid XML: ${validation.err.msg}`);
+    }
+    let document: Record<string, any>;
+    try {
+        document = parser.parse(xml);
+    } catch (error) {
+        throw new Error(`Invalid XML: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (Object.keys(document).length !== 1) {
+        throw new Error('Invalid XML: expected a single root element.');
+    }
+    return document;
+}
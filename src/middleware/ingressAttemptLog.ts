@@ -0,0 +1,92 @@
+/**
+ * Ingress Attempt Log
+ *
+ * Records every request to the incoming webhook routes in webhook_ingress_attempts once its
+ * response is sent (see logIngressAttempt for retention): status code, rejection reason (the `details` of error responses), latency,
+ * a headers summary and the user-webhook link and event resolved by the controller, if any.
+ * Logging happens after the response, so it never delays or fails the provider's request.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { logIngressAttempt } from '../services/ingressAttemptService.js';
+import { IngressHeadersSummary } from '../types/ingress.js';
+
+const MAX_REASON_LENGTH = 1_000;
+
+/**
+ * What the controller resolved for the request.
+ */
+export interface IngressAttemptContext {
+    webhookId?: string;
+    clientUserId?: string;
+    clientOrganizationId?: string;
+    webhookEventId?: string;
+    reason?: string; // Outcome of responses whose body does not describe it (custom acknowledgements)
+}
+
+/**
+ * Attaches the resolved link or event to the attempt of the current request.
+ * @param res The response of the ingress request.
+ * @param context The identifiers resolved so far; merged with those already set.
+ */
+export const setIngressAttemptContext = (res: Response, context: IngressAttemptContext): void => {
+    res.locals.ingressAttempt = { ...res.locals.ingressAttempt, ...context };
+};
+
+const summarizeHeaders = (req: Request): IngressHeadersSummary => {
+    const contentLength = parseInt(req.headers['content-length'] || '', 10);
+    return {
+        contentType: req.headers['content-type'] ?? null,
+        contentLength: isNaN(contentLength) ? null : contentLength,
+        userAgent: req.headers['user-agent'] ?? null,
+        names: Object.keys(req.headers).sort(),
+    };
+};
+
+const truncateReason = (text: string): string =>
+    text.length > MAX_REASON_LENGTH ? `${text.slice(0, MAX_REASON_LENGTH)}…` : text;
+
+// Error responses carry the reason in `details`; acknowledgements describe the outcome in `data`
+const extractReason = (body: unknown): string | null => {
+    if (!body || typeof body !== 'object') return null;
+    const { details, error, data } = body as { details?: unknown; error?: unknown; data?: unknown };
+    const reason = details ?? error ?? data;
+    if (reason === undefined || reason === null) return null;
+    return truncateReason(typeof reason === 'string' ? reason : JSON.stringify(reason));
+};
+
+/**
+ * Records the request once its response is sent.
+ * Mount before the controller on each ingress route.
+ */
+export const recordIngressAttempt = (req: Request, res: Response, next: NextFunction): void => {
+    const startedAt = Date.now();
+    // Read now: the router restores the parent's params and paths once the route is done
+    const ingressToken = req.params.ingressToken ?? null;
+    const path = `${req.baseUrl}${req.path}`; // The query string may hold the secret
+    let responseBody: unknown;
+    const sendJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+        responseBody = body;
+        return sendJson(body);
+    };
+
+    res.on('finish', () => {
+        const context: IngressAttemptContext = res.locals.ingressAttempt ?? {};
+        logIngressAttempt({
+            webhookId: context.webhookId ?? null,
+            clientUserId: context.clientUserId ?? null,
+            clientOrganizationId: context.clientOrganizationId ?? null,
+            ingressToken,
+            webhookEventId: context.webhookEventId ?? null,
+            method: req.method,
+            path,
+            statusCode: res.statusCode,
+            reason: context.reason !== undefined ? truncateReason(context.reason) : extractReason(responseBody),
+            latencyMs: Date.now() - startedAt,
+            headers: summarizeHeaders(req),
+        }).catch(error => {
+            console.error(`[Ingress Attempt Log] Failed to record ${req.method} ${path}:`, error);
+        });
+    });
+    next();
+};
@@ -0,0 +1,28 @@
+/**
+ * Raw Body Capture
+ *
+ * Body-parser `verify` hook that keeps the exact request bytes on the request object.
+ * Provider signatures are computed over the raw body, so it must be preserved before parsing.
+ */
+import { IncomingMessage, ServerResponse } from 'http';
+import express from 'express';
+
+// Request type exposing the captured raw body
+export interface RawBodyRequest extends IncomingMessage {
+  rawBody?: Buffer;
+}
+
+/**
+ * Stores the raw request body on `req.rawBody`.
+ * Pass as the `verify` option of `express.json()` / `express.urlencoded()`.
+ */
+export const captureRawBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer): void => {
+  (req as RawBodyRequest).rawBody = buf;
+};
+
+/**
+ * Reads any body not already handled by express.json() / express.urlencoded()
+ * (XML, plain text, binary, missing content type) into a Buffer on `req.body`.
+ * Mount on ingress routes after the global parsers; see lib/payloadParser.ts for normalization.
+ */
+export const captureUnparsedBody = express.raw({ type: () => true, verify: captureRawBody });
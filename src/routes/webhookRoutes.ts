@@ -10,20 +10,43 @@ import { searchWebhooksController } from '../controllers/searchWebhooksControlle
 import { linkUserController } from '../controllers/linkUserController.js';
 import { linkAgentController } from '../controllers/linkAgentController.js';
 import { incomingWebhookController } from '../controllers/incomingWebhookController.js';
+import { incomingHandshakeController } from '../controllers/incomingHandshakeController.js';
 import { getUserCreatedWebhooksController } from '../controllers/getUserCreatedWebhooksController.js';
 import { getWebhookEventsController } from '../controllers/getWebhookEventsController.js';
+import { getIngressAttemptsController } from '../controllers/getIngressAttemptsController.js';
 import { getLatestWebhookEventsController } from '../controllers/getLatestWebhookEventsController.js';
 import { renameWebhookController } from '../controllers/renameWebhookController.js';
 import { deleteWebhookController } from '../controllers/deleteWebhookController.js';
 import { updateWebhookController } from '../controllers/updateWebhookController.js';
+import { setSigningSecretController } from '../controllers/setSigningSecretController.js';
+import { setEventFiltersController } from '../controllers/setEventFiltersController.js';
+import { rotateWebhookSecretController } from '../controllers/rotateWebhookSecretController.js';
+import { testWebhookController } from '../controllers/testWebhookController.js';
+import { setListeningController } from '../controllers/setListeningController.js';
+import { getWebhookSamplesController } from '../controllers/getWebhookSamplesController.js';
+import { pauseWebhookController } from '../controllers/pauseWebhookController.js';
+import { resumeWebhookController } from '../controllers/resumeWebhookController.js';
+import { getFailedDeliveriesController } from '../controllers/getFailedDeliveriesController.js';
+import { replayDeliveriesController } from '../controllers/replayDeliveriesController.js';
+import { replayWebhookEventController } from '../controllers/replayWebhookEventController.js';
+import { getAgentLinksController } from '../controllers/getAgentLinksController.js';
+import { updateAgentLinkController } from '../controllers/updateAgentLinkController.js';
 import { authMiddleware } from '../middleware/auth.js';
 import { apiKeyAuth } from '../middleware/apiKeyAuth.js';
+import { captureUnparsedBody } from '../middleware/rawBody.js';
+import { recordIngressAttempt } from '../middleware/ingressAttemptLog.js';
 
 const router: Router = Router();
 
 // Define public routes FIRST
 // Route for internal gateway service to resolve incoming webhooks - NO AUTH
-router.post('/incoming/:webhookProviderId/:subscribedEventId/:clientUserId/:clientOrganizationId', incomingWebhookController);
+// Non-JSON/form bodies (XML, text, binary) are read raw and normalized by the controller
+router.post('/incoming/:webhookProviderId/:subscribedEventId/:clientUserId/:clientOrganizationId', recordIngressAttempt, captureUnparsedBody, incomingWebhookController);
+// Provider endpoint verification challenges sent with GET (e.g. Meta hub.challenge) - NO AUTH
+router.get('/incoming/:webhookProviderId/:subscribedEventId/:clientUserId/:clientOrganizationId', recordIngressAttempt, incomingHandshakeController);
+// Short webhook URLs handed out to providers: the opaque ingress token resolves to the user link - NO AUTH
+router.post('/in/:ingressToken', recordIngressAttempt, captureUnparsedBody, incomingWebhookController);
+router.get('/in/:ingressToken', recordIngressAttempt, incomingHandshakeController);
 
 // Routes requiring standard user/service authentication
 const authenticatedRouter = Router();
@@ -34,12 +57,27 @@ authenticatedRouter.post('/', createWebhookController);
 authenticatedRouter.post('/search', searchWebhooksController);
 authenticatedRouter.post('/:webhookId/link-user', linkUserController);
 authenticatedRouter.post('/:webhookId/link-agent', linkAgentController);
+authenticatedRouter.get('/:webhookId/agents', getAgentLinksController);
+authenticatedRouter.patch('/:webhookId/agents/:agentId', updateAgentLinkController);
+authenticatedRouter.put('/:webhookId/signing-secret', setSigningSecretController);
+authenticatedRouter.put('/:webhookId/filters', setEventFiltersController);
+authenticatedRouter.post('/:webhookId/rotate-secret', rotateWebhookSecretController);
+authenticatedRouter.post('/:webhookId/test', testWebhookController);
+authenticatedRouter.put('/:webhookId/listening', setListeningController);
+authenticatedRouter.get('/:webhookId/samples', getWebhookSamplesController);
+authenticatedRouter.post('/:webhookId/pause', pauseWebhookController);
+authenticatedRouter.post('/:webhookId/resume', resumeWebhookController);
 authenticatedRouter.patch('/:webhookId/rename', renameWebhookController);
 authenticatedRouter.delete('/:webhookId', deleteWebhookController);
 authenticatedRouter.put('/:webhookId', updateWebhookController);
 authenticatedRouter.get('/get-user-created-webhooks', getUserCreatedWebhooksController);
 authenticatedRouter.get('/:webhookId/events', getWebhookEventsController);
+authenticatedRouter.get('/:webhookId/ingress-attempts', getIngressAttemptsController);
+authenticatedRouter.post('/:webhookId/events/:eventId/replay', replayWebhookEventController);
 authenticatedRouter.get('/events/latest', getLatestWebhookEventsController);
+authenticatedRouter.get('/deliveries/failed', getFailedDeliveriesController);
+authenticatedRouter.post('/deliveries/replay', replayDeliveriesController);
+authenticatedRouter.post('/deliveries/:deliveryId/replay', replayDeliveriesController);
 
 router.use('/', authenticatedRouter); // Mount authenticated routes AFTER public routes
 
@@ -7,41 +7,84 @@
 import { query } from '../lib/db.js';
 import { WebhookAgentLinkRecord } from '../types/db.js';
 import { AgentUserWebhook } from '@agent-base/types';
+import { WebhookAgentLink } from '../types/webhook.js';
+import { Predicate } from '../lib/predicates.js';
+
+/**
+ * Settings of an agent link. See LinkAgentSchema for the semantics.
+ * Undefined settings are left unchanged on an existing link; null unsets them.
+ */
+export interface AgentLinkSettings {
+    routingRule?: Predicate | null;
+    priority?: number;
+    isDefault?: boolean;
+    messageTemplate?: string | null;
+}
+
+/**
+ * Columns of the settings, overwritten on an existing link when sent.
+ */
+const AGENT_LINK_SETTING_COLUMNS: Record<keyof AgentLinkSettings, string> = {
+    routingRule: 'routing_rule',
+    priority: 'priority',
+    isDefault: 'is_default',
+    messageTemplate: 'message_template',
+};
 
 /**
  * Links an agent to an existing user-webhook configuration.
  * Assumes the user-webhook link already exists and is ideally active.
+ * Linking an already linked agent only overwrites the settings that are sent; it does not
+ * re-enable a disabled link (see setAgentLinkEnabled). As a default agent has no routing rule,
+ * making it the default unsets its rule and giving it a rule makes it a non-default agent.
  *
  * @param webhookId The ID of the webhook.
  * @param clientUserId The ID of the client user.
  * @param platformUserId The ID of the platform user (required for the table).
  * @param agentId The ID of the agent.
- * @returns The newly created or existing WebhookAgentLinkRecord.
+ * @param settings The routing rule, priority, default flag and message template of the link.
+ * @returns The newly created or updated link.
  */
 export const linkAgentToWebhook = async (
     webhookId: string,
     clientUserId: string,
     clientOrganizationId: string,
     platformUserId: string,
-    agentId: string
-): Promise<AgentUserWebhook> => {
+    agentId: string,
+    settings: AgentLinkSettings = {}
+): Promise<WebhookAgentLink> => {
+    const sentColumns = (Object.keys(AGENT_LINK_SETTING_COLUMNS) as (keyof AgentLinkSettings)[])
+        .filter(setting => settings[setting] !== undefined)
+        .map(setting => AGENT_LINK_SETTING_COLUMNS[setting]);
+    if (settings.isDefault && settings.routingRule === undefined) sentColumns.push('routing_rule');
+    if (settings.routingRule && settings.isDefault === undefined) sentColumns.push('is_default');
+    // A no-op assignment when nothing is sent, so RETURNING still yields the existing link
+    const setClauses = sentColumns.length > 0
+        ? sentColumns.map(column => `${column} = EXCLUDED.${column}`).join(', ')
+        : 'agent_id = EXCLUDED.agent_id';
+
     // Include platform_user_id in the INSERT statement
     const sql = `
-        INSERT INTO webhook_agent_links (webhook_id, client_user_id, client_organization_id, platform_user_id, agent_id, created_at)
-        VALUES ($1, $2, $3, $4, $5, NOW())
-        ON CONFLICT (webhook_id, client_user_id, agent_id) DO NOTHING
+        INSERT INTO webhook_agent_links (
+            webhook_id, client_user_id, client_organization_id, platform_user_id, agent_id,
+            routing_rule, priority, is_default, message_template, created_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
+        ON CONFLICT (webhook_id, client_user_id, agent_id) DO UPDATE SET ${setClauses}
         RETURNING *;
     `;
     try {
-        // Pass all four arguments to the query
-        const result = await query<WebhookAgentLinkRecord>(sql, [webhookId, clientUserId, clientOrganizationId, platformUserId, agentId]);
-         if (result.rows.length === 0) {
-             // If ON CONFLICT DO NOTHING and it conflicted, re-fetch the existing record.
-             // findWebhookAgentLink should also be updated if platformUserId becomes part of the key, but currently it isn't.
-             const existing = await findWebhookAgentLink(webhookId, clientUserId, clientOrganizationId, agentId);
-             if (!existing) throw new Error("Failed to create or find agent link after conflict.");
-             return existing;
-        }
+        const result = await query<WebhookAgentLinkRecord>(sql, [
+            webhookId,
+            clientUserId,
+            clientOrganizationId,
+            platformUserId,
+            agentId,
+            settings.routingRule ? JSON.stringify(settings.routingRule) : null,
+            settings.priority ?? 0,
+            settings.isDefault ?? false,
+            settings.messageTemplate ?? null,
+        ]);
         return mapWebhookAgentLinkRecordToWebhookAgentLink(result.rows[0]);
     } catch (err) {
         console.error("Error linking agent to webhook:", err);
@@ -57,7 +100,7 @@ export const linkAgentToWebhook = async (
  * @param agentId The ID of the agent.
  * @returns The WebhookAgentLinkRecord or null if not found.
  */
-export const findWebhookAgentLink = async (webhookId: string, clientUserId: string, clientOrganizationId: string, agentId: string): Promise<AgentUserWebhook | null> => {
+export const findWebhookAgentLink = async (webhookId: string, clientUserId: string, clientOrganizationId: string, agentId: string): Promise<WebhookAgentLink | null> => {
     const sql = "SELECT * FROM webhook_agent_links WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3 AND agent_id = $4";
     try {
         const result = await query<WebhookAgentLinkRecord>(sql, [webhookId, clientUserId, clientOrganizationId, agentId]);
@@ -86,6 +129,7 @@ export const findAgentLink = async (
         SELECT * 
         FROM webhook_agent_links 
         WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+        ORDER BY created_at ASC
         LIMIT 1;
     `;
     try {
@@ -97,17 +141,116 @@ export const findAgentLink = async (
     }
 };
 
+/**
+ * Finds all agents linked to a user-webhook, oldest link first.
+ * The oldest link is the primary one: it keeps the conversation ID extracted from the payload.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @returns The links, including disabled ones.
+ */
+export const findAgentLinks = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string,
+): Promise<WebhookAgentLink[]> => {
+    const sql = `
+        SELECT *
+        FROM webhook_agent_links
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+        ORDER BY created_at ASC, agent_id ASC;
+    `;
+    try {
+        const result = await query<WebhookAgentLinkRecord>(sql, [webhookId, clientUserId, clientOrganizationId]);
+        return result.rows.map(mapWebhookAgentLinkRecordToWebhookAgentLink);
+    } catch (err) {
+        console.error("Error finding agent webhook links:", err);
+        throw new Error(`Database error finding agent webhook links: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Enables or disables an agent link. Disabled links receive no events.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @param agentId The ID of the agent.
+ * @param enabled The new state.
+ * @returns The updated link, or null if the agent is not linked.
+ */
+export const setAgentLinkEnabled = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string,
+    agentId: string,
+    enabled: boolean
+): Promise<WebhookAgentLink | null> => {
+    const sql = `
+        UPDATE webhook_agent_links
+        SET enabled = $5
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3 AND agent_id = $4
+        RETURNING *;
+    `;
+    try {
+        const result = await query<WebhookAgentLinkRecord>(sql, [webhookId, clientUserId, clientOrganizationId, agentId, enabled]);
+        return result.rows.length > 0 ? mapWebhookAgentLinkRecordToWebhookAgentLink(result.rows[0]) : null;
+    } catch (err) {
+        console.error("Error updating agent webhook link:", err);
+        throw new Error(`Database error updating agent webhook link: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Finds the template of the message sent to an agent for a webhook's events:
+ * the agent link's template, else the webhook's template.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @param agentId The ID of the agent.
+ * @returns The template, or null if neither defines one (the built-in message is used).
+ */
+export const findAgentMessageTemplate = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string,
+    agentId: string
+): Promise<string | null> => {
+    const sql = `
+        SELECT COALESCE(l.message_template, w.agent_message_template) AS message_template
+        FROM webhooks w
+        LEFT JOIN webhook_agent_links l
+            ON l.webhook_id = w.id AND l.client_user_id = $2 AND l.client_organization_id = $3 AND l.agent_id = $4
+        WHERE w.id = $1;
+    `;
+    try {
+        const result = await query<{ message_template: string | null }>(sql, [webhookId, clientUserId, clientOrganizationId, agentId]);
+        return result.rows[0]?.message_template ?? null;
+    } catch (err) {
+        console.error("Error finding agent message template:", err);
+        throw new Error(`Database error finding agent message template: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
 /**
  * Helper to convert DB record to application-level WebhookAgentLink type.
  */
 export const mapWebhookAgentLinkRecordToWebhookAgentLink = (
     record: WebhookAgentLinkRecord
-): AgentUserWebhook => {
+): WebhookAgentLink => {
     return {
         webhookId: record.webhook_id,
         clientUserId: record.client_user_id,
         clientOrganizationId: record.client_organization_id,
         platformUserId: record.platform_user_id,
         agentId: record.agent_id,
+        enabled: record.enabled,
+        routingRule: record.routing_rule,
+        priority: record.priority,
+        isDefault: record.is_default,
+        messageTemplate: record.message_template,
+        createdAt: record.created_at,
     };
 }; 
\ No newline at end of file
@@ -0,0 +1,573 @@
+/**
+ * Delivery Queue Service Layer
+ *
+ * Contains data access functions for the agent delivery outbox (webhook_deliveries table):
+ * enqueueing jobs, claiming due jobs and recording attempt outcomes with exponential backoff.
+ *
+ * Deliveries enqueued with a batch key (see the `batching` setting of webhook definitions) are
+ * debounced: each new delivery of the key postpones the pending ones to the end of the window,
+ * up to maxWaitSeconds after the oldest. When due, the oldest delivery of the key is claimed and
+ * the other due ones are coalesced into it (status 'batched'), so the agent gets one message.
+ */
+import pg from 'pg';
+import { query, pool } from '../lib/db.js';
+import { WebhookDeliveryRecord, WebhookDeliveryWithEventRecord, WebhookEventRecord } from '../types/db.js';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookDeliveryTrigger } from '../types/delivery.js';
+import { BatchingSettings } from '../types/webhook.js';
+import { readPositiveIntEnv } from '../lib/configUtils.js';
+import { computeBatchDueAt, selectCoalescedDeliveries } from '../lib/deliveryBatching.js';
+
+/**
+ * A claimed delivery together with the webhook event it delivers.
+ */
+export interface ClaimedDeliveryRecord extends WebhookDeliveryRecord {
+    event: WebhookEventRecord;
+    batched_events: WebhookEventRecord[]; // Events of the deliveries coalesced into this one, oldest first
+}
+
+/**
+ * Debounce batching of a new delivery.
+ */
+export interface DeliveryBatchOptions {
+    key: string; // Deliveries with the same key are coalesced into one agent run
+    settings: BatchingSettings;
+}
+
+/**
+ * Optional settings of a new delivery job.
+ */
+export interface EnqueueDeliveryOptions {
+    agentIdOverride?: string | null;
+    conversationIdOverride?: string | null;
+    trigger?: WebhookDeliveryTrigger;
+    batch?: DeliveryBatchOptions | null;
+    paused?: boolean; // Held with status 'paused' until the user-webhook link is resumed
+}
+
+interface DeliveryQueueConfig {
+    maxAttempts: number;
+    retryBaseDelayMs: number;
+    retryMaxDelayMs: number;
+    lockTimeoutMs: number;
+}
+
+/**
+ * Reads the queue retry configuration from the environment.
+ */
+export const getDeliveryQueueConfig = (): DeliveryQueueConfig => ({
+    maxAttempts: readPositiveIntEnv('DELIVERY_MAX_ATTEMPTS', 8),
+    retryBaseDelayMs: readPositiveIntEnv('DELIVERY_RETRY_BASE_DELAY_MS', 5_000),
+    retryMaxDelayMs: readPositiveIntEnv('DELIVERY_RETRY_MAX_DELAY_MS', 60 * 60 * 1000),
+    lockTimeoutMs: readPositiveIntEnv('DELIVERY_LOCK_TIMEOUT_MS', 5 * 60 * 1000),
+});
+
+/**
+ * Computes the delay before the next attempt: base * 2^(attempts - 1), capped, with +/-20% jitter.
+ * @param attempts Number of attempts already made.
+ */
+export const computeRetryDelayMs = (attempts: number, config: DeliveryQueueConfig = getDeliveryQueueConfig()): number => {
+    const exponential = config.retryBaseDelayMs * Math.pow(2, Math.max(attempts - 1, 0));
+    const capped = Math.min(exponential, config.retryMaxDelayMs);
+    const jitter = capped * 0.2 * (Math.random() * 2 - 1);
+    return Math.round(capped + jitter);
+};
+
+/**
+ * Postpones the pending deliveries of a batch key to the end of the debounce window, capped at
+ * maxWaitSeconds after the oldest one. A batch reaching maxBatchSize is due right away (see computeBatchDueAt).
+ */
+const _debounceBatch = async (client: pg.PoolClient | pg.Pool, batch: DeliveryBatchOptions): Promise<void> => {
+    const pendingSql = `
+        SELECT id, created_at, NOW() AS now
+        FROM webhook_deliveries
+        WHERE batch_key = $1 AND status = $2
+        FOR UPDATE;
+    `;
+    const pending = await client.query<{ id: string; created_at: Date; now: Date }>(pendingSql, [batch.key, WebhookDeliveryStatus.PENDING]);
+    if (pending.rows.length === 0) return;
+    const nextAttemptAt = computeBatchDueAt(pending.rows.map(row => row.created_at), batch.settings, pending.rows[0].now);
+    await client.query(
+        'UPDATE webhook_deliveries SET next_attempt_at = $2 WHERE id = ANY($1);',
+        [pending.rows.map(row => row.id), nextAttemptAt]
+    );
+};
+
+/**
+ * Tells whether a user-webhook link is paused, holding a share lock on it until the transaction ends,
+ * so a concurrent resume waits for the deliveries held by this transaction before releasing them.
+ * Deliveries enqueued while the link is paused must be held (see EnqueueDeliveryOptions.paused).
+ *
+ * @param client The pool client of the enqueueing transaction.
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @returns True when the deliveries of new events must be held.
+ */
+export const lockUserWebhookPauseState = async (
+    client: pg.PoolClient,
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string
+): Promise<boolean> => {
+    const sql = `
+        SELECT paused_since FROM user_webhooks
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+        FOR SHARE;
+    `;
+    const result = await client.query<{ paused_since: Date | null }>(sql, [webhookId, clientUserId, clientOrganizationId]);
+    return !!result.rows[0]?.paused_since;
+};
+
+/**
+ * Enqueues a delivery job for a logged webhook event.
+ * Accepts a client so it can run inside the transaction that logged the event.
+ * The delivery is ordered after the open deliveries of the same user link, agent and conversation.
+ * With batch options, the delivery is debounced with the pending deliveries of its batch key.
+ * A paused delivery is held until released by releasePausedDeliveries.
+ *
+ * @param client The pool client (or pool) to run the insert on.
+ * @param webhookEventId The ID of the webhook_events row to deliver.
+ * @param options Optional agent/conversation overrides, the trigger (defaults to ingress) and batching.
+ * @returns The created WebhookDeliveryRecord.
+ */
+export const enqueueDelivery = async (
+    client: pg.PoolClient | pg.Pool,
+    webhookEventId: string,
+    options: EnqueueDeliveryOptions = {}
+): Promise<WebhookDeliveryRecord> => {
+    const sql = `
+        INSERT INTO webhook_deliveries (
+            webhook_event_id, agent_id_override, conversation_id_override, trigger,
+            status, max_attempts, next_attempt_at, batch_key, batch_max_size, ordering_key
+        )
+        SELECT e.id, $2, $3, $4, $5, $6, NOW(), $7, $8,
+               json_build_array(
+                   e.client_user_id,
+                   e.client_organization_id,
+                   COALESCE($2, e.agent_id),
+                   COALESCE($3, e.conversation_id)
+               )::text
+        FROM webhook_events e
+        WHERE e.id = $1
+        RETURNING *;
+    `;
+    try {
+        const result = await client.query<WebhookDeliveryRecord>(sql, [
+            webhookEventId,
+            options.agentIdOverride ?? null,
+            options.conversationIdOverride ?? null,
+            options.trigger ?? WebhookDeliveryTrigger.INGRESS,
+            options.paused ? WebhookDeliveryStatus.PAUSED : WebhookDeliveryStatus.PENDING,
+            getDeliveryQueueConfig().maxAttempts,
+            options.batch?.key ?? null,
+            options.batch?.settings.maxBatchSize ?? null,
+        ]);
+        if (result.rows.length === 0) {
+            throw new Error(`Webhook event ${webhookEventId} not found.`);
+        }
+        if (options.batch && !options.paused) {
+            await _debounceBatch(client, options.batch);
+        }
+        return result.rows[0];
+    } catch (err) {
+        console.error("Error enqueueing webhook delivery:", err);
+        throw new Error(`Database error enqueueing webhook delivery: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Coalesces the other due pending deliveries of a claimed delivery's batch key into it (status 'batched'),
+ * oldest first, up to its batch_max_size (see selectCoalescedDeliveries).
+ */
+const _coalesceBatch = async (client: pg.PoolClient, claimed: WebhookDeliveryRecord): Promise<void> => {
+    const candidatesSql = `
+        SELECT id, created_at
+        FROM webhook_deliveries
+        WHERE batch_key = $1 AND id <> $2 AND status = $3 AND next_attempt_at <= NOW()
+        FOR UPDATE SKIP LOCKED;
+    `;
+    const candidates = await client.query<{ id: string; created_at: Date }>(candidatesSql, [
+        claimed.batch_key,
+        claimed.id,
+        WebhookDeliveryStatus.PENDING,
+    ]);
+    if (candidates.rows.length === 0) return;
+    const coalescedCount = await client.query<{ count: string }>(
+        'SELECT COUNT(*) AS count FROM webhook_deliveries WHERE batched_into_delivery_id = $1;',
+        [claimed.id]
+    );
+    const coalescedIds = selectCoalescedDeliveries(
+        candidates.rows.map(row => ({ id: row.id, createdAt: row.created_at })),
+        claimed.batch_max_size ?? 1,
+        Number(coalescedCount.rows[0].count)
+    );
+    if (coalescedIds.length === 0) return;
+    await client.query(
+        'UPDATE webhook_deliveries SET status = $2, batched_into_delivery_id = $3 WHERE id = ANY($1);',
+        [coalescedIds, WebhookDeliveryStatus.BATCHED, claimed.id]
+    );
+};
+
+/**
+ * Claims up to `limit` deliveries that are due, marking them as processing.
+ * Deliveries stuck in processing longer than the lock timeout (e.g. after a crash) are reclaimed.
+ * Uses SKIP LOCKED so several workers can poll concurrently.
+ * Deliveries of one conversation (same ordering key) run one at a time and in creation order: a delivery
+ * is only claimed while no other delivery of its key is processing, and no older one is pending or
+ * waiting for a retry. Different conversations are still processed in parallel.
+ * For a batch key, only the oldest due delivery is claimed, and only while no other delivery of the
+ * key is processing or waiting for a retry; the other due pending deliveries of the key are coalesced
+ * into it in the same transaction.
+ *
+ * @param limit Maximum number of deliveries to claim.
+ * @returns The claimed deliveries with their webhook events and the events coalesced into them.
+ */
+export const claimDueDeliveries = async (limit: number): Promise<ClaimedDeliveryRecord[]> => {
+    const claimSql = `
+        UPDATE webhook_deliveries
+        SET status = $1, locked_at = NOW(), attempts = attempts + 1
+        WHERE id IN (
+            SELECT d.id
+            FROM webhook_deliveries d
+            WHERE ((d.status IN ($2, $3) AND d.next_attempt_at <= NOW())
+               OR (d.status = $1 AND d.locked_at < NOW() - make_interval(secs => $4::double precision / 1000)))
+              AND (d.ordering_key IS NULL OR NOT EXISTS (
+                  SELECT 1
+                  FROM webhook_deliveries o
+                  WHERE o.ordering_key = d.ordering_key AND o.id <> d.id
+                    AND (o.status = $1
+                      OR (o.status IN ($2, $3) AND (o.created_at, o.id) < (d.created_at, d.id)))
+              ))
+              AND (d.batch_key IS NULL OR NOT EXISTS (
+                  SELECT 1
+                  FROM webhook_deliveries s
+                  WHERE s.batch_key = d.batch_key AND s.id <> d.id
+                    AND (s.status = $1
+                      OR (s.status = $3 AND s.created_at < d.created_at)
+                      OR (s.status = $2 AND s.next_attempt_at <= NOW() AND (s.created_at, s.id) < (d.created_at, d.id)))
+              ))
+            ORDER BY d.next_attempt_at ASC
+            LIMIT $5
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *;
+    `;
+    const claimedSql = `
+        SELECT d.*, row_to_json(e.*) AS event,
+               COALESCE((
+                   SELECT json_agg(row_to_json(be.*) ORDER BY be.created_at, be.id)
+                   FROM webhook_events be
+                   WHERE be.id IN (SELECT webhook_event_id FROM webhook_deliveries WHERE batched_into_delivery_id = d.id)
+               ), '[]'::json) AS batched_events
+        FROM webhook_deliveries d
+        JOIN webhook_events e ON e.id = d.webhook_event_id
+        WHERE d.id = ANY($1)
+        ORDER BY d.created_at ASC;
+    `;
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const claimed = await client.query<WebhookDeliveryRecord>(claimSql, [
+            WebhookDeliveryStatus.PROCESSING,
+            WebhookDeliveryStatus.PENDING,
+            WebhookDeliveryStatus.FAILED,
+            getDeliveryQueueConfig().lockTimeoutMs,
+            limit,
+        ]);
+        for (const delivery of claimed.rows) {
+            if (delivery.batch_key !== null) {
+                await _coalesceBatch(client, delivery);
+            }
+        }
+        const result = await client.query<ClaimedDeliveryRecord>(claimedSql, [claimed.rows.map(delivery => delivery.id)]);
+        await client.query('COMMIT');
+        return result.rows;
+    } catch (err) {
+        await client.query('ROLLBACK');
+        console.error("Error claiming due webhook deliveries:", err);
+        throw new Error(`Database error claiming webhook deliveries: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Marks a delivery as succeeded.
+ * @param deliveryId The ID of the delivery.
+ * @param agentReply The text of the agent's reply, if any (see findDeliveryReply).
+ */
+export const markDeliverySucceeded = async (deliveryId: string, agentReply: string | null = null): Promise<void> => {
+    const sql = `
+        UPDATE webhook_deliveries
+        SET status = $2, locked_at = NULL, last_error = NULL, completed_at = NOW(), agent_reply = $3
+        WHERE id = $1;
+    `;
+    try {
+        await query(sql, [deliveryId, WebhookDeliveryStatus.SUCCEEDED, agentReply]);
+    } catch (err) {
+        console.error("Error marking webhook delivery as succeeded:", err);
+        throw new Error(`Database error updating webhook delivery: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Reads the outcome of a delivery for an ingress request waiting for the agent's reply.
+ * A delivery coalesced into another (status 'batched') reports the outcome of that delivery.
+ *
+ * @param deliveryId The ID of the delivery.
+ * @returns The status and the reply (set once succeeded), or null if the delivery does not exist.
+ */
+export const findDeliveryReply = async (deliveryId: string): Promise<{ status: WebhookDeliveryStatus; agentReply: string | null } | null> => {
+    const sql = `
+        SELECT COALESCE(leader.status, d.status) AS status,
+               COALESCE(leader.agent_reply, d.agent_reply) AS agent_reply
+        FROM webhook_deliveries d
+        LEFT JOIN webhook_deliveries leader ON leader.id = d.batched_into_delivery_id
+        WHERE d.id = $1;
+    `;
+    try {
+        const result = await query<Pick<WebhookDeliveryRecord, 'status' | 'agent_reply'>>(sql, [deliveryId]);
+        if (result.rows.length === 0) return null;
+        return { status: result.rows[0].status, agentReply: result.rows[0].agent_reply };
+    } catch (err) {
+        console.error("Error finding webhook delivery reply:", err);
+        throw new Error(`Database error finding webhook delivery reply: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Records a failed attempt. Schedules a retry with exponential backoff,
+ * or moves the delivery to the dead-letter state once max_attempts is reached.
+ *
+ * @param delivery The delivery that failed (as claimed, i.e. with attempts already incremented).
+ * @param errorMessage The failure reason.
+ * @returns The resulting status (FAILED or DEAD_LETTERED).
+ */
+export const markDeliveryFailed = async (
+    delivery: WebhookDeliveryRecord,
+    errorMessage: string
+): Promise<WebhookDeliveryStatus> => {
+    const exhausted = delivery.attempts >= delivery.max_attempts;
+    const status = exhausted ? WebhookDeliveryStatus.DEAD_LETTERED : WebhookDeliveryStatus.FAILED;
+    const retryDelayMs = exhausted ? 0 : computeRetryDelayMs(delivery.attempts);
+    const sql = `
+        UPDATE webhook_deliveries
+        SET status = $2,
+            locked_at = NULL,
+            last_error = $3,
+            next_attempt_at = NOW() + make_interval(secs => $4::double precision / 1000),
+            completed_at = CASE WHEN $5::boolean THEN NOW() ELSE NULL END
+        WHERE id = $1;
+    `;
+    try {
+        await query(sql, [delivery.id, status, errorMessage, retryDelayMs, exhausted]);
+        return status;
+    } catch (err) {
+        console.error("Error marking webhook delivery as failed:", err);
+        throw new Error(`Database error updating webhook delivery: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Releases the deliveries held while a user-webhook link was paused: they become due at once and are
+ * processed in the order the events were received (see claimDueDeliveries), or are discarded.
+ * Accepts a client so it can run inside the transaction that resumes the link.
+ *
+ * @param client The pool client (or pool) to run the update on.
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @param discard Whether to discard the held deliveries instead of delivering them.
+ * @returns The IDs of the released deliveries, oldest first.
+ */
+export const releasePausedDeliveries = async (
+    client: pg.PoolClient | pg.Pool,
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string,
+    discard: boolean
+): Promise<string[]> => {
+    const sql = `
+        WITH released AS (
+            UPDATE webhook_deliveries d
+            SET status = $5,
+                next_attempt_at = NOW(),
+                completed_at = CASE WHEN $6 THEN NOW() ELSE NULL END
+            FROM webhook_events e
+            WHERE e.id = d.webhook_event_id
+              AND e.webhook_id = $1 AND e.client_user_id = $2 AND e.client_organization_id = $3
+              AND d.status = $4
+            RETURNING d.id, d.created_at
+        )
+        SELECT id FROM released ORDER BY created_at ASC, id ASC;
+    `;
+    try {
+        const result = await client.query<{ id: string }>(sql, [
+            webhookId,
+            clientUserId,
+            clientOrganizationId,
+            WebhookDeliveryStatus.PAUSED,
+            discard ? WebhookDeliveryStatus.DISCARDED : WebhookDeliveryStatus.PENDING,
+            discard,
+        ]);
+        return result.rows.map(row => row.id);
+    } catch (err) {
+        console.error("Error releasing paused webhook deliveries:", err);
+        throw new Error(`Database error releasing paused webhook deliveries: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Lists failed (retry scheduled) and dead-lettered deliveries for a client user and organization.
+ *
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @param statuses The statuses to include.
+ * @param limit Maximum number of deliveries to return, most recently updated first.
+ * @returns The matching deliveries.
+ */
+export const listFailedDeliveries = async (
+    clientUserId: string,
+    clientOrganizationId: string,
+    statuses: WebhookDeliveryStatus[],
+    limit: number
+): Promise<WebhookDelivery[]> => {
+    const sql = `
+        SELECT d.*, e.webhook_id, e.provider_id, e.subscribed_event_id,
+               COALESCE(d.agent_id_override, e.agent_id) AS agent_id,
+               COALESCE(d.conversation_id_override, e.conversation_id) AS conversation_id
+        FROM webhook_deliveries d
+        JOIN webhook_events e ON e.id = d.webhook_event_id
+        WHERE e.client_user_id = $1 AND e.client_organization_id = $2 AND d.status = ANY($3)
+        ORDER BY d.updated_at DESC
+        LIMIT $4;
+    `;
+    try {
+        const result = await query<WebhookDeliveryWithEventRecord>(sql, [clientUserId, clientOrganizationId, statuses, limit]);
+        return result.rows.map(mapWebhookDeliveryRecordToWebhookDelivery);
+    } catch (err) {
+        console.error("Error listing failed webhook deliveries:", err);
+        throw new Error(`Database error listing failed webhook deliveries: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Puts failed or dead-lettered deliveries back in the queue with a fresh attempt budget.
+ * The worker then re-runs them from the original webhook_events payload.
+ * Deliveries of a paused user-webhook link are held (status 'paused') until it is resumed; the
+ * paused links are share-locked, so a concurrent resume releases them too.
+ * Only deliveries belonging to the given client user and organization are affected.
+ *
+ * @param deliveryIds The IDs of the deliveries to replay.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @returns The requeued deliveries.
+ */
+export const requeueFailedDeliveries = async (
+    deliveryIds: string[],
+    clientUserId: string,
+    clientOrganizationId: string
+): Promise<WebhookDelivery[]> => {
+    const sql = `
+        WITH paused_links AS (
+            SELECT webhook_id FROM user_webhooks
+            WHERE client_user_id = $2 AND client_organization_id = $3 AND paused_since IS NOT NULL
+            FOR SHARE
+        ),
+        requeued AS (
+            UPDATE webhook_deliveries d
+            SET status = CASE WHEN e.webhook_id IN (SELECT webhook_id FROM paused_links) THEN $6 ELSE $4 END,
+                attempts = 0, next_attempt_at = NOW(), locked_at = NULL, completed_at = NULL
+            FROM webhook_events e
+            WHERE e.id = d.webhook_event_id
+              AND d.id = ANY($1)
+              AND e.client_user_id = $2 AND e.client_organization_id = $3
+              AND d.status = ANY($5)
+            RETURNING d.*, e.webhook_id, e.provider_id, e.subscribed_event_id,
+                      COALESCE(d.agent_id_override, e.agent_id) AS agent_id,
+                      COALESCE(d.conversation_id_override, e.conversation_id) AS conversation_id
+        )
+        SELECT * FROM requeued ORDER BY created_at ASC;
+    `;
+    try {
+        const result = await query<WebhookDeliveryWithEventRecord>(sql, [
+            deliveryIds,
+            clientUserId,
+            clientOrganizationId,
+            WebhookDeliveryStatus.PENDING,
+            [WebhookDeliveryStatus.FAILED, WebhookDeliveryStatus.DEAD_LETTERED],
+            WebhookDeliveryStatus.PAUSED,
+        ]);
+        return result.rows.map(mapWebhookDeliveryRecordToWebhookDelivery);
+    } catch (err) {
+        console.error("Error requeueing webhook deliveries:", err);
+        throw new Error(`Database error requeueing webhook deliveries: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Enqueues a new delivery that re-runs a stored webhook event, optionally for another agent
+ * or conversation. The original event and its previous deliveries are left untouched.
+ * While the user-webhook link is paused, the delivery is held until it is resumed.
+ *
+ * @param event The stored webhook event to replay.
+ * @param overrides Optional agent and conversation to use instead of the event's.
+ * @returns The created delivery.
+ */
+export const enqueueEventReplay = async (
+    event: WebhookEventRecord,
+    overrides: { agentId?: string; conversationId?: string } = {}
+): Promise<WebhookDelivery> => {
+    const client = await pool.connect();
+    let record: WebhookDeliveryRecord;
+    try {
+        await client.query('BEGIN');
+        const paused = await lockUserWebhookPauseState(client, event.webhook_id, event.client_user_id, event.client_organization_id);
+        record = await enqueueDelivery(client, event.id, {
+            agentIdOverride: overrides.agentId,
+            conversationIdOverride: overrides.conversationId,
+            trigger: WebhookDeliveryTrigger.REPLAY,
+            paused,
+        });
+        await client.query('COMMIT');
+    } catch (err) {
+        await client.query('ROLLBACK');
+        console.error("Error enqueueing webhook event replay:", err);
+        throw new Error(`Database error enqueueing webhook event replay: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+        client.release();
+    }
+    return mapWebhookDeliveryRecordToWebhookDelivery({
+        ...record,
+        webhook_id: event.webhook_id,
+        provider_id: event.provider_id,
+        subscribed_event_id: event.subscribed_event_id,
+        agent_id: record.agent_id_override ?? event.agent_id ?? null,
+        conversation_id: record.conversation_id_override ?? event.conversation_id ?? null,
+    });
+};
+
+/**
+ * Helper to convert a delivery record joined with its event to the application-level WebhookDelivery type.
+ */
+export const mapWebhookDeliveryRecordToWebhookDelivery = (record: WebhookDeliveryWithEventRecord): WebhookDelivery => {
+    return {
+        deliveryId: record.id,
+        webhookEventId: record.webhook_event_id,
+        webhookId: record.webhook_id,
+        providerId: record.provider_id,
+        subscribedEventId: record.subscribed_event_id,
+        agentId: record.agent_id,
+        conversationId: record.conversation_id,
+        trigger: record.trigger,
+        status: record.status,
+        attempts: record.attempts,
+        maxAttempts: record.max_attempts,
+        lastError: record.last_error,
+        batchedIntoDeliveryId: record.batched_into_delivery_id,
+        nextAttemptAt: record.next_attempt_at,
+        completedAt: record.completed_at,
+        createdAt: record.created_at,
+        updatedAt: record.updated_at,
+    };
+};
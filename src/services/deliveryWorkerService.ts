@@ -0,0 +1,166 @@
+/**
+ * Service: Delivery Worker
+ * Polls the webhook_deliveries outbox, claims due jobs and runs processResolvedWebhook for each.
+ * Failures are retried with exponential backoff until max attempts, then dead-lettered.
+ * Ingress requests of 'sync' webhooks wait here for the agent's reply of their delivery, stored on the
+ * delivery row so it reaches them whichever instance processed the delivery.
+ */
+import { WebhookProviderId } from '@agent-base/types';
+import {
+    ClaimedDeliveryRecord,
+    claimDueDeliveries,
+    findDeliveryReply,
+    markDeliveryFailed,
+    markDeliverySucceeded,
+} from './deliveryQueueService.js';
+import { processResolvedWebhook } from './webhookProcessorService.js';
+import { WebhookDeliveryStatus } from '../types/delivery.js';
+import { readPositiveIntEnv } from '../lib/configUtils.js';
+
+const POLL_INTERVAL_MS = readPositiveIntEnv('DELIVERY_POLL_INTERVAL_MS', 2_000);
+const BATCH_SIZE = readPositiveIntEnv('DELIVERY_WORKER_CONCURRENCY', 5);
+const REPLY_POLL_INTERVAL_MS = readPositiveIntEnv('SYNC_RESPONSE_POLL_INTERVAL_MS', 250);
+
+let started = false;
+let running = false;
+let rerunRequested = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Delivers one claimed job and records the outcome.
+ * Never throws: errors are recorded on the delivery.
+ */
+const _processDelivery = async (delivery: ClaimedDeliveryRecord): Promise<void> => {
+    const event = delivery.event;
+    const agentId = delivery.agent_id_override ?? event.agent_id;
+    const conversationId = delivery.conversation_id_override ?? event.conversation_id;
+    try {
+        if (!agentId || !conversationId) {
+            throw new Error(`Webhook event ${event.id} is missing agent_id or conversation_id.`);
+        }
+        const reply = await processResolvedWebhook({
+            platformUserId: event.platform_user_id,
+            clientUserId: event.client_user_id,
+            clientOrganizationId: event.client_organization_id,
+            agentId,
+            conversationId,
+            webhookProviderId: event.provider_id as WebhookProviderId,
+            subscribedEventId: event.subscribed_event_id,
+            payload: event.payload,
+            webhookId: event.webhook_id,
+            webhookEventId: event.id,
+            receivedAt: new Date(event.created_at), // row_to_json serializes timestamps as strings
+            batchedEvents: delivery.batched_events.map(batchedEvent => ({
+                webhookEventId: batchedEvent.id,
+                subscribedEventId: batchedEvent.subscribed_event_id,
+                payload: batchedEvent.payload,
+                receivedAt: new Date(batchedEvent.created_at),
+            })),
+        });
+        await markDeliverySucceeded(delivery.id, reply);
+        console.log(`[Delivery Worker] Delivery ${delivery.id} succeeded (attempt ${delivery.attempts}/${delivery.max_attempts}).`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        try {
+            const status = await markDeliveryFailed(delivery, errorMessage);
+            if (status === WebhookDeliveryStatus.DEAD_LETTERED) {
+                console.error(`[Delivery Worker] Delivery ${delivery.id} dead-lettered after ${delivery.attempts} attempts: ${errorMessage}`);
+            } else {
+                console.warn(`[Delivery Worker] Delivery ${delivery.id} failed (attempt ${delivery.attempts}/${delivery.max_attempts}), retry scheduled: ${errorMessage}`);
+            }
+        } catch (markError) {
+            // The lock timeout will make the delivery claimable again
+            console.error(`[Delivery Worker] Could not record failure for delivery ${delivery.id}:`, markError);
+        }
+    }
+};
+
+/**
+ * Claims and processes due deliveries until a claim returns less than a full batch.
+ */
+const _drainQueue = async (): Promise<void> => {
+    if (running) {
+        rerunRequested = true;
+        return;
+    }
+    running = true;
+    try {
+        do {
+            rerunRequested = false;
+            let claimed: ClaimedDeliveryRecord[];
+            do {
+                claimed = await claimDueDeliveries(BATCH_SIZE);
+                await Promise.all(claimed.map(_processDelivery));
+            } while (started && claimed.length === BATCH_SIZE);
+        } while (started && rerunRequested);
+    } catch (error) {
+        console.error('[Delivery Worker] Error while draining the delivery queue:', error);
+    } finally {
+        running = false;
+    }
+};
+
+const _schedulePoll = (): void => {
+    if (!started) return;
+    pollTimer = setTimeout(async () => {
+        await _drainQueue();
+        _schedulePoll();
+    }, POLL_INTERVAL_MS);
+    pollTimer.unref();
+};
+
+/**
+ * Starts polling the delivery queue. Safe to call more than once.
+ */
+export const startDeliveryWorker = (): void => {
+    if (started) return;
+    started = true;
+    console.log(`[Delivery Worker] Started (poll interval ${POLL_INTERVAL_MS}ms, batch size ${BATCH_SIZE}).`);
+    void _drainQueue();
+    _schedulePoll();
+};
+
+/**
+ * Stops polling. Deliveries in progress finish; unclaimed ones stay in the queue.
+ */
+export const stopDeliveryWorker = (): void => {
+    started = false;
+    if (pollTimer) {
+        clearTimeout(pollTimer);
+        pollTimer = null;
+    }
+};
+
+/**
+ * Asks the worker to drain the queue now instead of waiting for the next poll.
+ * Called right after a delivery is enqueued to keep latency low.
+ */
+export const triggerDeliveryWorker = (): void => {
+    if (!started) return;
+    void _drainQueue();
+};
+
+/**
+ * Waits for the agent's reply of a delivery, polling the delivery row every SYNC_RESPONSE_POLL_INTERVAL_MS.
+ * Failed attempts keep the wait going, as the delivery is retried; the wait ends on success, on
+ * dead-lettering or discarding, or on timeout. A delivery held back by older deliveries of its
+ * conversation (see claimDueDeliveries) may only run after the timeout.
+ *
+ * @param deliveryId The ID of the delivery.
+ * @param timeoutMs Longest wait.
+ * @returns The reply, or null on timeout, when the delivery is given up or when the agent returned no text.
+ */
+export const waitForDeliveryReply = async (deliveryId: string, timeoutMs: number): Promise<string | null> => {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+        const outcome = await findDeliveryReply(deliveryId);
+        if (!outcome) return null;
+        if (outcome.status === WebhookDeliveryStatus.SUCCEEDED) return outcome.agentReply;
+        if (outcome.status === WebhookDeliveryStatus.DEAD_LETTERED || outcome.status === WebhookDeliveryStatus.DISCARDED) {
+            return null;
+        }
+        const remainingMs = deadline - Date.now();
+        if (remainingMs <= 0) return null;
+        await new Promise(resolve => setTimeout(resolve, Math.min(REPLY_POLL_INTERVAL_MS, remainingMs)));
+    }
+};
@@ -5,11 +5,11 @@
 import { 
     ServiceResponse,
     ErrorResponse,
-    WebhookEvent,
     WebhookProviderId // Changed from UtilityProvider for clarity, as it's used as WebhookProviderId
 } from '@agent-base/types';
 import { query } from '../lib/db.js'; // Import the database query helper
 import { WebhookEventRecord } from '../types/db.js'; // Import the DB record type
+import { WebhookEventDetails } from '../types/webhook.js';
 
 
 /**
@@ -18,13 +18,13 @@ import { WebhookEventRecord } from '../types/db.js'; // Import the DB record typ
  * @param {string} webhookId - The ID of the webhook.
  * @param {string} clientUserId - The ID of the client user making the request.
  * @param {string} clientOrganizationId - The ID of the client organization.
- * @returns {Promise<ServiceResponse<WebhookEvent[]>>} - A promise resolving to a service response containing the list of events or an error.
+ * @returns {Promise<ServiceResponse<WebhookEventDetails[]>>} - A promise resolving to a service response containing the list of events or an error.
  */
 export const getWebhookEventsService = async (
     webhookId: string, 
     clientUserId: string,
     clientOrganizationId: string
-): Promise<ServiceResponse<WebhookEvent[]>> => {
+): Promise<ServiceResponse<WebhookEventDetails[]>> => {
 
     const sql = `
         SELECT * 
@@ -43,11 +43,11 @@ export const getWebhookEventsService = async (
        }
 
         // Map the database records to the API response type
-        const events: WebhookEvent[] = result.rows.map(mapWebhookEventRecordToWebhookEvent);
+        const events: WebhookEventDetails[] = result.rows.map(mapWebhookEventRecordToWebhookEvent);
         
         console.log(`[Service:getWebhookEventsService] Found ${events.length} events for webhookId: ${webhookId}`);
 
-        const response: ServiceResponse<WebhookEvent[]> = {
+        const response: ServiceResponse<WebhookEventDetails[]> = {
             success: true,
             data: events,
         };
@@ -81,13 +81,13 @@ export const getWebhookEventsService = async (
  * @param {string} clientUserId - The ID of the client user.
  * @param {string} clientOrganizationId - The ID of the client organization.
  * @param {number} limit - The maximum number of events to retrieve.
- * @returns {Promise<ServiceResponse<WebhookEvent[]>>} - The service response containing the list of events or an error.
+ * @returns {Promise<ServiceResponse<WebhookEventDetails[]>>} - The service response containing the list of events or an error.
  */
 export const getLatestWebhookEventsForUserOrgService = async (
     clientUserId: string,
     clientOrganizationId: string,
     limit: number
-): Promise<ServiceResponse<WebhookEvent[]>> => {
+): Promise<ServiceResponse<WebhookEventDetails[]>> => {
     try {
         // Basic input validation, though controller should also do this
         if (!clientUserId || !clientOrganizationId) {
@@ -121,7 +121,7 @@ export const getLatestWebhookEventsForUserOrgService = async (
             return { success: true, data: [] };
         }
 
-        const webhookEvents: WebhookEvent[] = result.rows.map(mapWebhookEventRecordToWebhookEvent);
+        const webhookEvents: WebhookEventDetails[] = result.rows.map(mapWebhookEventRecordToWebhookEvent);
         
         console.log(`[Service:getLatestWebhookEventsForUserOrgService] Successfully fetched ${webhookEvents.length} latest events.`);
         return {
@@ -153,14 +153,44 @@ export const getLatestWebhookEventsForUserOrgService = async (
 };
 
 
+/**
+ * Finds a single stored webhook event belonging to a webhook and client user/organization.
+ *
+ * @param {string} eventId - The ID of the event.
+ * @param {string} webhookId - The ID of the webhook the event must belong to.
+ * @param {string} clientUserId - The ID of the client user.
+ * @param {string} clientOrganizationId - The ID of the client organization.
+ * @returns {Promise<WebhookEventRecord | null>} - The event record, or null if not found.
+ * @throws {Error} if the database query fails.
+ */
+export const findWebhookEventRecord = async (
+    eventId: string,
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string
+): Promise<WebhookEventRecord | null> => {
+    const sql = `
+        SELECT *
+        FROM webhook_events
+        WHERE id = $1 AND webhook_id = $2 AND client_user_id = $3 AND client_organization_id = $4;
+    `;
+    try {
+        const result = await query<WebhookEventRecord>(sql, [eventId, webhookId, clientUserId, clientOrganizationId]);
+        return result.rows[0] ?? null;
+    } catch (error) {
+        console.error(`[Service:findWebhookEventRecord] Error for eventId ${eventId}:`, error);
+        throw new Error(`Database error finding webhook event: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
 /**
  * Maps a database WebhookEventRecord (snake_case) to the application/API WebhookEvent type (camelCase).
  * Includes strict checks for conversation_id and agent_id.
  * @param {WebhookEventRecord} record - The database record.
- * @returns {WebhookEvent} - The mapped application-level event object.
+ * @returns {WebhookEventDetails} - The mapped application-level event object.
  * @throws {Error} if critical fields (conversation_id, agent_id) are missing.
  */
-const mapWebhookEventRecordToWebhookEvent = (record: WebhookEventRecord): WebhookEvent => {
+const mapWebhookEventRecordToWebhookEvent = (record: WebhookEventRecord): WebhookEventDetails => {
     // Critical checks for fields required by the WebhookEvent type but potentially nullable in DB
     if (record.conversation_id === null || record.conversation_id === undefined) {
         throw new Error(`Data Integrity Issue: WebhookEventRecord with id ${record.id} is missing conversation_id.`);
@@ -190,9 +220,16 @@ const mapWebhookEventRecordToWebhookEvent = (record: WebhookEventRecord): Webhoo
         payload: parsedPayload, 
         providerId: record.provider_id as WebhookProviderId, // Ensure this casting is safe or add validation
         subscribedEventId: record.subscribed_event_id,
-        webhookSecret: record.webhook_secret,
+        secretFingerprint: record.secret_fingerprint,
+        secretVersion: record.secret_version,
         conversationId: record.conversation_id, // Now guaranteed string due to checks above
         agentId: record.agent_id, // Now guaranteed string due to checks above
+        contentType: record.content_type,
+        outcome: record.outcome,
+        deduplicationKey: record.deduplication_key,
+        duplicateOfEventId: record.duplicate_of_event_id,
+        matchedFilter: record.matched_filter ?? null,
+        payloadValidationErrors: record.payload_validation_errors ?? null,
         createdAt: record.created_at,
         updatedAt: record.updated_at,
     };
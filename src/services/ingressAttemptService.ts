@@ -0,0 +1,170 @@
+/**
+ * Ingress Attempt Service Layer
+ *
+ * Contains data access functions for the log of requests to the incoming webhook routes
+ * (webhook_ingress_attempts table). Only the latest WEBHOOK_INGRESS_ATTEMPT_LIMIT attempts of each
+ * link are kept, and the latest WEBHOOK_UNATTRIBUTED_INGRESS_ATTEMPT_LIMIT attempts that could not be
+ * attributed to a link (null webhook_id).
+ */
+import { query } from '../lib/db.js';
+import { readPositiveIntEnv } from '../lib/configUtils.js';
+import { WebhookIngressAttemptRecord } from '../types/db.js';
+import { IngressAttemptDelivery, IngressHeadersSummary, WebhookIngressAttempt } from '../types/ingress.js';
+
+const ATTEMPT_LIMIT = readPositiveIntEnv('WEBHOOK_INGRESS_ATTEMPT_LIMIT', 200);
+const UNATTRIBUTED_ATTEMPT_LIMIT = readPositiveIntEnv('WEBHOOK_UNATTRIBUTED_INGRESS_ATTEMPT_LIMIT', 1000);
+
+/**
+ * Data recorded for one request to an incoming webhook route.
+ */
+export interface LogIngressAttemptParams {
+    webhookId: string | null;
+    clientUserId: string | null;
+    clientOrganizationId: string | null;
+    ingressToken: string | null; // Resolves the link of a rejected /in/:ingressToken request
+    webhookEventId: string | null;
+    method: string;
+    path: string;
+    statusCode: number;
+    reason: string | null;
+    latencyMs: number;
+    headers: IngressHeadersSummary;
+}
+
+/**
+ * Records a request to an incoming webhook route, and prunes the attempts of its link beyond
+ * the latest WEBHOOK_INGRESS_ATTEMPT_LIMIT.
+ * A request rejected before its link was resolved (e.g. a wrong secret) is still attributed
+ * to the link of its ingress token, if any, so it shows up in that link's log. Requests that
+ * cannot be attributed to a link (e.g. an unknown token, or a wrong secret on the legacy route)
+ * are recorded without a webhook_id, with the client user if known, and pruned beyond the latest
+ * WEBHOOK_UNATTRIBUTED_INGRESS_ATTEMPT_LIMIT.
+ *
+ * @param params The request, its response and the resolved link if known.
+ * @throws Error if the insert or the pruning fails.
+ */
+export const logIngressAttempt = async (params: LogIngressAttemptParams): Promise<void> => {
+    const insertSql = `
+        INSERT INTO webhook_ingress_attempts (
+            webhook_id, client_user_id, client_organization_id, webhook_event_id,
+            method, path, status_code, reason, latency_ms, headers_summary
+        )
+        SELECT
+            COALESCE($1::uuid, uw.webhook_id),
+            COALESCE($2, uw.client_user_id),
+            COALESCE($3, uw.client_organization_id),
+            $5, $6, $7, $8, $9, $10, $11
+        FROM (SELECT 1) AS attempt
+        LEFT JOIN user_webhooks uw ON uw.ingress_token = $4
+        RETURNING webhook_id, client_user_id, client_organization_id;
+    `;
+    const pruneSql = `
+        DELETE FROM webhook_ingress_attempts
+        WHERE id IN (
+            SELECT id FROM webhook_ingress_attempts
+            WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+            ORDER BY created_at DESC
+            OFFSET $4
+        );
+    `;
+    const pruneUnattributedSql = `
+        DELETE FROM webhook_ingress_attempts
+        WHERE id IN (
+            SELECT id FROM webhook_ingress_attempts
+            WHERE webhook_id IS NULL
+            ORDER BY created_at DESC
+            OFFSET $1
+        );
+    `;
+    try {
+        const result = await query<Pick<WebhookIngressAttemptRecord, 'webhook_id' | 'client_user_id' | 'client_organization_id'>>(insertSql, [
+            params.webhookId,
+            params.clientUserId,
+            params.clientOrganizationId,
+            params.ingressToken,
+            params.webhookEventId,
+            params.method,
+            params.path,
+            params.statusCode,
+            params.reason,
+            params.latencyMs,
+            JSON.stringify(params.headers),
+        ]);
+        const attempt = result.rows[0];
+        if (attempt.webhook_id === null) {
+            await query(pruneUnattributedSql, [UNATTRIBUTED_ATTEMPT_LIMIT]);
+        } else {
+            await query(pruneSql, [attempt.webhook_id, attempt.client_user_id, attempt.client_organization_id, ATTEMPT_LIMIT]);
+        }
+    } catch (err) {
+        throw new Error(`Database error logging ingress attempt: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Lists the latest requests received for a user-webhook link, newest first,
+ * with the agent deliveries of the events they recorded.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @param limit Maximum number of attempts to return.
+ * @returns The attempts.
+ */
+export const listIngressAttempts = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string,
+    limit: number
+): Promise<WebhookIngressAttempt[]> => {
+    const sql = `
+        SELECT a.*, COALESCE(d.deliveries, '[]'::json) AS deliveries
+        FROM webhook_ingress_attempts a
+        LEFT JOIN LATERAL (
+            SELECT json_agg(json_build_object(
+                'deliveryId', wd.id,
+                'agentId', COALESCE(wd.agent_id_override, we.agent_id),
+                'status', wd.status,
+                'attempts', wd.attempts,
+                'lastError', wd.last_error
+            ) ORDER BY wd.created_at) AS deliveries
+            FROM webhook_deliveries wd
+            JOIN webhook_events we ON we.id = wd.webhook_event_id
+            WHERE wd.webhook_event_id = a.webhook_event_id
+        ) d ON TRUE
+        WHERE a.webhook_id = $1 AND a.client_user_id = $2 AND a.client_organization_id = $3
+        ORDER BY a.created_at DESC
+        LIMIT $4;
+    `;
+    try {
+        const result = await query<WebhookIngressAttemptRecord & { deliveries: IngressAttemptDelivery[] }>(sql, [
+            webhookId,
+            clientUserId,
+            clientOrganizationId,
+            limit,
+        ]);
+        return result.rows.map(record => mapIngressAttemptRecordToIngressAttempt(record, record.deliveries));
+    } catch (err) {
+        console.error("Error listing ingress attempts:", err);
+        throw new Error(`Database error listing ingress attempts: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Helper to convert a DB record to the application-level WebhookIngressAttempt type.
+ */
+export const mapIngressAttemptRecordToIngressAttempt = (record: WebhookIngressAttemptRecord, deliveries: IngressAttemptDelivery[]): WebhookIngressAttempt => ({
+    attemptId: record.id,
+    webhookId: record.webhook_id,
+    clientUserId: record.client_user_id,
+    clientOrganizationId: record.client_organization_id,
+    webhookEventId: record.webhook_event_id,
+    method: record.method,
+    path: record.path,
+    statusCode: record.status_code,
+    reason: record.reason,
+    latencyMs: record.latency_ms,
+    headers: record.headers_summary,
+    deliveries,
+    createdAt: record.created_at,
+});
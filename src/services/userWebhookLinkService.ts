@@ -4,10 +4,13 @@
  * Contains business logic and data access functions related to
  * linking users to webhooks (user_webhooks table).
  */
-import { query } from '../lib/db.js';
+import { query, pool } from '../lib/db.js';
 import { UserWebhookRecord, WebhookRecord } from '../types/db.js';
 import { WebhookStatus, UserWebhook, UtilitySecretType, WebhookProviderId, Webhook } from '@agent-base/types';
 import { randomUUID } from 'crypto'; // Added for generating webhook_secret
+import { EventFilter } from '../lib/eventFilters.js';
+import { generateIngressToken } from '../lib/ingress.js';
+import { releasePausedDeliveries } from './deliveryQueueService.js';
 
 /**
  * Finds an existing user-webhook link.
@@ -54,15 +57,17 @@ export const createUserWebhook = async (
             platform_user_id,
             status, 
             webhook_secret, -- Added webhook_secret
+            ingress_token,
             created_at, 
             updated_at
         )
-        VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
+        VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
         ON CONFLICT ON CONSTRAINT ${constraintName} 
         DO UPDATE SET 
             platform_user_id = EXCLUDED.platform_user_id, 
             status = EXCLUDED.status, 
             webhook_secret = EXCLUDED.webhook_secret, -- Ensure webhook_secret is updated on conflict if necessary
+            -- ingress_token is kept on conflict, so the short URL of an existing link stays the same
             updated_at = NOW()
         RETURNING *;
     `;
@@ -73,7 +78,8 @@ export const createUserWebhook = async (
             clientOrganizationId,
             platformUserId,
             status, 
-            newWebhookSecret // Pass the generated secret
+            newWebhookSecret, // Pass the generated secret
+            generateIngressToken()
         ]);
         if (result.rows.length === 0) { 
              throw new Error("Failed to create or update user webhook link (conflict resolution failed?).");
@@ -129,6 +135,336 @@ export const updateUserWebhookStatus = async (
     }
 };
 
+/**
+ * Result of rotating the URL secret of a user-webhook link.
+ */
+export interface UserWebhookSecretRotation {
+    userWebhook: UserWebhook; // Holds the new secret
+    previousSecretExpiresAt: Date; // The replaced secret is accepted until then
+}
+
+/**
+ * Replaces the URL secret of an existing user-webhook link.
+ * The replaced secret stays valid for the grace period, so events keep flowing until the provider
+ * is updated with the new URL. A secret still in its grace period from an earlier rotation is revoked.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @param gracePeriodSeconds How long the replaced secret stays valid; 0 revokes it immediately.
+ * @returns The updated UserWebhook and the expiry of the replaced secret.
+ * @throws Error if the record doesn't exist or update fails.
+ */
+export const rotateUserWebhookSecret = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string,
+    gracePeriodSeconds: number
+): Promise<UserWebhookSecretRotation> => {
+    const sql = `
+        UPDATE user_webhooks
+        SET
+            previous_webhook_secret = webhook_secret,
+            previous_webhook_secret_expires_at = NOW() + make_interval(secs => $5),
+            webhook_secret = $4,
+            updated_at = NOW()
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+        RETURNING *;
+    `;
+    try {
+        const result = await query<UserWebhookRecord>(sql, [
+            webhookId,
+            clientUserId,
+            clientOrganizationId,
+            randomUUID(),
+            gracePeriodSeconds
+        ]);
+        if (result.rows.length === 0) {
+            throw new Error("User webhook link not found for secret rotation.");
+        }
+        const record = result.rows[0];
+        return {
+            userWebhook: mapUserWebhookRecordToUserWebhook(record),
+            previousSecretExpiresAt: record.previous_webhook_secret_expires_at!,
+        };
+    } catch (err) {
+        console.error("Error rotating user webhook secret:", err);
+        throw new Error(`Database error rotating user webhook secret: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Retrieves the provider signing secret configured on a user-webhook link.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @returns The signing secret, or null if none is configured.
+ */
+export const findUserWebhookSigningSecret = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string
+): Promise<string | null> => {
+    const sql = `
+        SELECT signing_secret
+        FROM user_webhooks
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3;
+    `;
+    try {
+        const result = await query<Pick<UserWebhookRecord, 'signing_secret'>>(sql, [webhookId, clientUserId, clientOrganizationId]);
+        return result.rows[0]?.signing_secret || null;
+    } catch (err) {
+        console.error("Error finding user webhook signing secret:", err);
+        throw new Error(`Database error finding user webhook signing secret: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Sets or clears the provider signing secret of an existing user-webhook link.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @param signingSecret The provider signing secret, or null to disable signature verification.
+ * @returns The updated UserWebhook.
+ * @throws Error if the record doesn't exist or update fails.
+ */
+export const updateUserWebhookSigningSecret = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string,
+    signingSecret: string | null
+): Promise<UserWebhook> => {
+    const sql = `
+        UPDATE user_webhooks
+        SET signing_secret = $4, updated_at = NOW()
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+        RETURNING *;
+    `;
+    try {
+        const result = await query<UserWebhookRecord>(sql, [webhookId, clientUserId, clientOrganizationId, signingSecret]);
+        if (result.rows.length === 0) {
+            throw new Error("User webhook link not found for signing secret update.");
+        }
+        return mapUserWebhookRecordToUserWebhook(result.rows[0]);
+    } catch (err) {
+        console.error("Error updating user webhook signing secret:", err);
+        throw new Error(`Database error updating user webhook signing secret: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Retrieves the event filters configured on a user-webhook link.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @returns The filters, or an empty array if none are configured.
+ */
+export const findUserWebhookEventFilters = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string
+): Promise<EventFilter[]> => {
+    const sql = `
+        SELECT event_filters
+        FROM user_webhooks
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3;
+    `;
+    try {
+        const result = await query<Pick<UserWebhookRecord, 'event_filters'>>(sql, [webhookId, clientUserId, clientOrganizationId]);
+        return result.rows[0]?.event_filters ?? [];
+    } catch (err) {
+        console.error("Error finding user webhook event filters:", err);
+        throw new Error(`Database error finding user webhook event filters: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Replaces the event filters of an existing user-webhook link.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @param eventFilters The validated filters; an empty array delivers every event.
+ * @returns The stored filters.
+ * @throws Error if the record doesn't exist or update fails.
+ */
+export const updateUserWebhookEventFilters = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string,
+    eventFilters: EventFilter[]
+): Promise<EventFilter[]> => {
+    const sql = `
+        UPDATE user_webhooks
+        SET event_filters = $4, updated_at = NOW()
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+        RETURNING event_filters;
+    `;
+    try {
+        const result = await query<Pick<UserWebhookRecord, 'event_filters'>>(sql, [
+            webhookId,
+            clientUserId,
+            clientOrganizationId,
+            JSON.stringify(eventFilters)
+        ]);
+        if (result.rows.length === 0) {
+            throw new Error("User webhook link not found for event filters update.");
+        }
+        return result.rows[0].event_filters ?? [];
+    } catch (err) {
+        console.error("Error updating user webhook event filters:", err);
+        throw new Error(`Database error updating user webhook event filters: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Retrieves when a user-webhook link started listening.
+ * While listening, incoming events are captured as samples instead of being processed.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @returns The start of the listening session, or null if the link is not listening.
+ */
+export const findUserWebhookListeningSince = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string
+): Promise<Date | null> => {
+    const sql = `
+        SELECT listening_since
+        FROM user_webhooks
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3;
+    `;
+    try {
+        const result = await query<Pick<UserWebhookRecord, 'listening_since'>>(sql, [webhookId, clientUserId, clientOrganizationId]);
+        return result.rows[0]?.listening_since ?? null;
+    } catch (err) {
+        console.error("Error finding user webhook listening state:", err);
+        throw new Error(`Database error finding user webhook listening state: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Starts or stops listening on an existing user-webhook link.
+ * Starting again while already listening keeps the original start.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @param listening Whether incoming events should be captured as samples instead of processed.
+ * @returns The start of the listening session, or null if the link is not listening anymore.
+ * @throws Error if the record doesn't exist or update fails.
+ */
+export const updateUserWebhookListening = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string,
+    listening: boolean
+): Promise<Date | null> => {
+    const sql = `
+        UPDATE user_webhooks
+        SET listening_since = CASE WHEN $4 THEN COALESCE(listening_since, NOW()) ELSE NULL END, updated_at = NOW()
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+        RETURNING listening_since;
+    `;
+    try {
+        const result = await query<Pick<UserWebhookRecord, 'listening_since'>>(sql, [
+            webhookId,
+            clientUserId,
+            clientOrganizationId,
+            listening
+        ]);
+        if (result.rows.length === 0) {
+            throw new Error("User webhook link not found for listening update.");
+        }
+        return result.rows[0].listening_since ?? null;
+    } catch (err) {
+        console.error("Error updating user webhook listening state:", err);
+        throw new Error(`Database error updating user webhook listening state: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Pauses an existing user-webhook link: incoming events are still accepted and recorded, but their
+ * deliveries are held until the link is resumed. Pausing again keeps the original start.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @returns When the link was paused.
+ * @throws Error if the record doesn't exist or update fails.
+ */
+export const pauseUserWebhook = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string
+): Promise<Date> => {
+    const sql = `
+        UPDATE user_webhooks
+        SET paused_since = COALESCE(paused_since, NOW()), updated_at = NOW()
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+        RETURNING paused_since;
+    `;
+    try {
+        const result = await query<Pick<UserWebhookRecord, 'paused_since'>>(sql, [webhookId, clientUserId, clientOrganizationId]);
+        if (result.rows.length === 0) {
+            throw new Error("User webhook link not found for pause.");
+        }
+        return result.rows[0].paused_since!;
+    } catch (err) {
+        console.error("Error pausing user webhook link:", err);
+        throw new Error(`Database error pausing user webhook link: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Resumes a paused user-webhook link and releases the deliveries held while it was paused,
+ * in a single transaction: they are delivered in the order the events were received, or discarded.
+ * Resuming a link that is not paused releases nothing.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @param discard Whether to discard the held deliveries instead of delivering them.
+ * @returns The IDs of the released (or discarded) deliveries, oldest first.
+ * @throws Error if the record doesn't exist or the transaction fails.
+ */
+export const resumeUserWebhook = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string,
+    discard: boolean
+): Promise<string[]> => {
+    const sql = `
+        UPDATE user_webhooks
+        SET paused_since = NULL, updated_at = NOW()
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+        RETURNING webhook_id;
+    `;
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        // Waits for the ingestions holding the link (see ingestResolvedWebhook), so their deliveries are released too
+        const result = await client.query(sql, [webhookId, clientUserId, clientOrganizationId]);
+        if (result.rows.length === 0) {
+            throw new Error("User webhook link not found for resume.");
+        }
+        const deliveryIds = await releasePausedDeliveries(client, webhookId, clientUserId, clientOrganizationId, discard);
+        await client.query('COMMIT');
+        return deliveryIds;
+    } catch (err) {
+        await client.query('ROLLBACK');
+        console.error("Error resuming user webhook link:", err);
+        throw new Error(`Database error resuming user webhook link: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+        client.release();
+    }
+};
+
 // // Get UserWebhook by webhookId and clientUserId
 // export const getUserWebhookByWebhookIdAndClientUserId = async (webhookId: string, clientUserId: string): Promise<UserWebhook> => {
 //     const sql = "SELECT * FROM user_webhooks WHERE webhook_id = $1 AND client_user_id = $2";
@@ -157,6 +493,8 @@ export const mapUserWebhookRecordToUserWebhook = (record: UserWebhookRecord): Us
 /**
  * Finds an active UserWebhook link and its associated Webhook definition (as Webhook type)
  * by matching provider, event, client user ID, and the unique webhook secret.
+ * A secret replaced by a rotation also matches until its grace period ends; the returned
+ * link always holds the current secret.
  *
  * @param webhookProviderId The ID of the webhook provider.
  * @param subscribedEventId The ID of the subscribed event.
@@ -172,7 +510,8 @@ export const findUserWebhookBySecret = async (
     const sql = `
         SELECT *
         FROM user_webhooks uw
-        WHERE uw.webhook_secret = $1;
+        WHERE uw.webhook_secret = $1
+           OR (uw.previous_webhook_secret = $1 AND uw.previous_webhook_secret_expires_at > NOW());
     `;
     try {
         const result = await query<any>(sql, [secret]);
@@ -186,6 +525,63 @@ export const findUserWebhookBySecret = async (
     }
 };
 
+/**
+ * Finds a UserWebhook link by the ingress token of its short URL, authenticated by its secret.
+ * As with findUserWebhookBySecret, a rotated secret matches until its grace period ends.
+ *
+ * @param ingressToken The opaque token from the /in/:ingressToken URL.
+ * @param secret The secret sent with the request.
+ * @returns The UserWebhook, or null if the token is unknown or the secret does not match.
+ */
+export const findUserWebhookByIngressToken = async (
+    ingressToken: string,
+    secret: string
+): Promise<UserWebhook | null> => {
+    const sql = `
+        SELECT *
+        FROM user_webhooks uw
+        WHERE uw.ingress_token = $1
+          AND (
+              uw.webhook_secret = $2
+              OR (uw.previous_webhook_secret = $2 AND uw.previous_webhook_secret_expires_at > NOW())
+          );
+    `;
+    try {
+        const result = await query<UserWebhookRecord>(sql, [ingressToken, secret]);
+        return result.rows.length > 0 ? mapUserWebhookRecordToUserWebhook(result.rows[0]) : null;
+    } catch (err) {
+        console.error("Error finding user webhook by ingress token:", err);
+        throw new Error(`Database error finding user webhook by ingress token: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Retrieves the ingress token of a user-webhook link, used to build its short URL.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @returns The ingress token, or null if the link doesn't exist.
+ */
+export const findUserWebhookIngressToken = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string
+): Promise<string | null> => {
+    const sql = `
+        SELECT ingress_token
+        FROM user_webhooks
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3;
+    `;
+    try {
+        const result = await query<Pick<UserWebhookRecord, 'ingress_token'>>(sql, [webhookId, clientUserId, clientOrganizationId]);
+        return result.rows[0]?.ingress_token ?? null;
+    } catch (err) {
+        console.error("Error finding user webhook ingress token:", err);
+        throw new Error(`Database error finding user webhook ingress token: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
 // // Function to find user webhook by hash (needed for resolver)
 // import { computeIdentifierHash } from '../lib/crypto.js'; // Ensure crypto is imported if not already
 
@@ -17,6 +17,8 @@ import {
 import pgvector from 'pgvector/pg'; // Import for vector type usage
 import { v4 as uuidv4 } from 'uuid'; // For generating webhook IDs
 import { constructWebhookTargetUrl } from '../lib/urlUtils.js'; // Import the helper
+import { ConversationStrategy, PayloadSchemaMode, WebhookDefinition, WebhookDefinitionData, WebhookResponseMode } from '../types/webhook.js';
+import { validateConversationSettings } from '../lib/conversationStrategy.js';
 
 // --- Import UserWebhookLinkService and AgentWebhookLinkService ---
 import * as userWebhookLinkService from './userWebhookLinkService.js';
@@ -73,11 +75,11 @@ import * as agentWebhookLinkService from './agentWebhookLinkService.js';
  * @throws Error if database insertion fails.
  */
 export const createWebhook = async (
-    webhookData: WebhookData, // Uses application-level type
+    webhookData: WebhookDefinitionData, // Uses application-level type
     embedding: number[],
     clientUserId: string, // Add clientUserId parameter
     clientOrganizationId: string,
-): Promise<Webhook> => {
+): Promise<WebhookDefinition> => {
     const newId = uuidv4(); // Use a different variable name than the type
     const {
       name, 
@@ -85,11 +87,22 @@ export const createWebhook = async (
       webhookProviderId, 
       subscribedEventId, 
       conversationIdIdentificationMapping, // Correct app-level name
+      deduplicationKeyMapping,
+      agentMessageTemplate,
+      conversationStrategy,
+      conversationHashFields,
+      payloadSchema,
+      payloadSchemaMode,
+      batching,
+      responseMode,
+      syncResponse,
+      acknowledgement,
     } = webhookData;
   
     // --- Validation Step --- 
-    if (!conversationIdIdentificationMapping || typeof conversationIdIdentificationMapping !== 'string') {
-        throw new Error('Validation Error: conversationIdIdentificationMapping must be provided as a string.');
+    const conversationSettingsError = validateConversationSettings(webhookData);
+    if (conversationSettingsError) {
+        throw new Error(`Validation Error: ${conversationSettingsError}`);
     }
     // --- End Validation --- 
   
@@ -102,19 +115,39 @@ export const createWebhook = async (
         embedding, 
         creator_client_user_id, -- Add new column here
         creator_client_organization_id,
+        deduplication_key_mapping,
+        agent_message_template,
+        conversation_strategy,
+        conversation_hash_fields,
+        payload_schema,
+        payload_schema_mode,
+        batching,
+        response_mode,
+        sync_response,
+        acknowledgement,
         created_at, 
         updated_at
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW()) -- Corrected to 8 placeholders + 2 NOW()
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, NOW(), NOW())
       RETURNING *;
     `;
     try {
       const result = await query<WebhookRecord>(sql, [
         newId, name, description, webhookProviderId, subscribedEventId,
-        conversationIdIdentificationMapping, // Pass string directly for TEXT column
+        conversationIdIdentificationMapping ?? '', // Pass string directly for TEXT column (empty unless the strategy is 'mapped')
         embeddingSql,
         clientUserId, // Pass the clientUserId for the new column
         clientOrganizationId,
+        deduplicationKeyMapping ?? null,
+        agentMessageTemplate ?? null,
+        conversationStrategy ?? ConversationStrategy.MAPPED,
+        conversationHashFields ? JSON.stringify(conversationHashFields) : null,
+        payloadSchema ? JSON.stringify(payloadSchema) : null,
+        payloadSchemaMode ?? PayloadSchemaMode.FLAG,
+        batching ? JSON.stringify(batching) : null,
+        responseMode ?? WebhookResponseMode.ASYNC,
+        syncResponse ? JSON.stringify(syncResponse) : null,
+        acknowledgement ? JSON.stringify(acknowledgement) : null,
       ]);
       if (result.rows.length === 0) {
         throw new Error("Failed to create webhook definition, INSERT query returned no rows.");
@@ -199,7 +232,7 @@ export const deleteWebhook = async (
  * @returns The WebhookRecord or null if not found.
  * @throws Error if database query fails.
  */
-export const getWebhookById = async (id: string): Promise<Webhook | null> => {
+export const getWebhookById = async (id: string): Promise<WebhookDefinition | null> => {
   const sql = "SELECT * FROM webhooks WHERE id = $1";
   try {
     const result = await query<WebhookRecord>(sql, [id]);
@@ -364,7 +397,7 @@ export const getWebhookRecordsByProviderAndEvent = async (
  * Helper to convert DB record to application-level Webhook type.
  * Assumes JSON fields are parsed correctly by the DB driver or need parsing here.
  */
-const mapWebhookRecordToWebhook = async (record: WebhookRecord): Promise<Webhook> => {
+const mapWebhookRecordToWebhook = async (record: WebhookRecord): Promise<WebhookDefinition> => {
 
   return {
       id: record.id,
@@ -375,6 +408,16 @@ const mapWebhookRecordToWebhook = async (record: WebhookRecord): Promise<Webhook
       conversationIdIdentificationMapping: record.conversation_id_identification_mapping,
       creatorClientUserId: record.creator_client_user_id,
       creatorClientOrganizationId: record.creator_client_organization_id,
+      deduplicationKeyMapping: record.deduplication_key_mapping,
+      agentMessageTemplate: record.agent_message_template,
+      conversationStrategy: record.conversation_strategy,
+      conversationHashFields: record.conversation_hash_fields,
+      payloadSchema: record.payload_schema,
+      payloadSchemaMode: record.payload_schema_mode,
+      batching: record.batching,
+      responseMode: record.response_mode,
+      syncResponse: record.sync_response,
+      acknowledgement: record.acknowledgement,
   };
 };
 
@@ -438,8 +481,35 @@ export const getUserCreatedWebhooksService = async (
     }
 };
 
+/**
+ * Maps the updatable application-level webhook fields to their database columns.
+ */
+const UPDATABLE_WEBHOOK_COLUMNS: Partial<Record<keyof WebhookDefinitionData, string>> = {
+    name: 'name',
+    description: 'description',
+    webhookProviderId: 'webhook_provider_id',
+    subscribedEventId: 'subscribed_event_id',
+    conversationIdIdentificationMapping: 'conversation_id_identification_mapping',
+    deduplicationKeyMapping: 'deduplication_key_mapping',
+    agentMessageTemplate: 'agent_message_template',
+    conversationStrategy: 'conversation_strategy',
+    conversationHashFields: 'conversation_hash_fields',
+    payloadSchema: 'payload_schema',
+    payloadSchemaMode: 'payload_schema_mode',
+    batching: 'batching',
+    responseMode: 'response_mode',
+    syncResponse: 'sync_response',
+    acknowledgement: 'acknowledgement',
+};
+
+/**
+ * Updatable fields stored in JSONB columns, serialized before being sent to the database.
+ */
+const JSON_WEBHOOK_FIELDS: (keyof WebhookDefinitionData)[] = ['conversationHashFields', 'payloadSchema', 'batching', 'syncResponse', 'acknowledgement'];
+
 /**
  * Updates a webhook definition in the database.
+ * Fields without a mapping in UPDATABLE_WEBHOOK_COLUMNS are ignored.
  *
  * @param webhookId The ID of the webhook to update.
  * @param updates The data to update.
@@ -450,11 +520,12 @@ export const getUserCreatedWebhooksService = async (
  */
 export const updateWebhook = async (
     webhookId: string,
-    updates: Partial<WebhookData>,
+    updates: Partial<WebhookDefinitionData>,
     clientUserId: string,
     clientOrganizationId: string
-): Promise<Webhook> => {
-    const updateFields = Object.keys(updates);
+): Promise<WebhookDefinition> => {
+    const updateFields = (Object.keys(updates) as (keyof WebhookDefinitionData)[])
+        .filter(field => UPDATABLE_WEBHOOK_COLUMNS[field] && updates[field] !== undefined);
     if (updateFields.length === 0) {
         const webhook = await getWebhookById(webhookId);
         if (!webhook) {
@@ -464,8 +535,10 @@ export const updateWebhook = async (
         return webhook;
     }
 
-    const setClauses = updateFields.map((field, index) => `"${field}" = $${index + 1}`).join(', ');
-    const params = updateFields.map(field => updates[field as keyof typeof updates]);
+    const setClauses = updateFields.map((field, index) => `"${UPDATABLE_WEBHOOK_COLUMNS[field]}" = $${index + 1}`).join(', ');
+    const params: any[] = updateFields.map(field =>
+        JSON_WEBHOOK_FIELDS.includes(field) && updates[field] !== null ? JSON.stringify(updates[field]) : updates[field]
+    );
     
     params.push(webhookId, clientUserId, clientOrganizationId);
 
@@ -0,0 +1,125 @@
+/**
+ * Service: Webhook Dry Run
+ * Resolves a sample event the way the incoming webhook route would (payload schema, conversation ID,
+ * deduplication key, event filters, agent routing and agent messages) without writing to webhook_events or
+ * calling agent-base, so a webhook definition can be checked before its URL is handed out.
+ */
+import { IncomingHttpHeaders } from 'http';
+import { WebhookStatus, sanitizeConversationId } from '@agent-base/types';
+import {
+    ConversationStrategy,
+    PayloadSchemaMode,
+    WebhookDefinition,
+    WebhookDryRunOutcome,
+    WebhookDryRunResult,
+} from '../types/webhook.js';
+import { findUserWebhook, findUserWebhookEventFilters } from './userWebhookLinkService.js';
+import { findAgentLinks } from './agentWebhookLinkService.js';
+import { renderAgentMessage } from './webhookProcessorService.js';
+import { resolveConversationId } from '../lib/conversationStrategy.js';
+import { extractDeduplicationKey } from '../lib/deduplication.js';
+import { findMatchingEventFilter } from '../lib/eventFilters.js';
+import { buildDeliveryTargets, routeToAgentLinks } from '../lib/agentRouting.js';
+import { validatePayload } from '../lib/payloadSchema.js';
+
+// Stands in for the webhook event ID in rendered messages, since nothing is recorded
+const DRY_RUN_EVENT_ID = 'dry-run';
+
+/**
+ * Parameters of a dry run: the webhook definition, the caller's link and the sample request.
+ */
+export interface DryRunWebhookParams {
+    webhook: WebhookDefinition;
+    clientUserId: string;
+    clientOrganizationId: string;
+    payload: Record<string, unknown>;
+    headers: IncomingHttpHeaders; // Lowercase header names
+    query: Record<string, unknown>;
+}
+
+/**
+ * Computes what the incoming webhook route would do with a sample event for the caller's user-webhook link.
+ * The conversation ID and deduplication key are resolved even when the caller is not linked yet.
+ *
+ * @param params - The webhook definition, the caller and the sample request.
+ * @returns The resolution of the event, including the agent message each agent would receive.
+ */
+export const dryRunWebhookEvent = async (params: DryRunWebhookParams): Promise<WebhookDryRunResult> => {
+    const { webhook, clientUserId, clientOrganizationId, payload, headers, query } = params;
+
+    const conversationId = resolveConversationId(webhook, {
+        payload,
+        headers,
+        query,
+        webhookId: webhook.id,
+        clientUserId,
+        clientOrganizationId,
+    });
+    const result: WebhookDryRunResult = {
+        webhookId: webhook.id,
+        outcome: WebhookDryRunOutcome.NOT_LINKED,
+        conversationStrategy: webhook.conversationStrategy ?? ConversationStrategy.MAPPED,
+        conversationId,
+        sanitizedConversationId: conversationId ? sanitizeConversationId(conversationId) : null,
+        deduplicationKey: extractDeduplicationKey(webhook.deduplicationKeyMapping, { payload, headers, query }),
+        userWebhookStatus: null,
+        matchedFilter: null,
+        matchedRuleAgentId: null,
+        payloadValidationErrors: webhook.payloadSchema ? validatePayload(webhook.payloadSchema, payload) : [],
+        deliveries: [],
+    };
+    if (result.payloadValidationErrors.length > 0 && webhook.payloadSchemaMode === PayloadSchemaMode.REJECT) {
+        return { ...result, outcome: WebhookDryRunOutcome.INVALID_PAYLOAD };
+    }
+    if (!conversationId) {
+        return { ...result, outcome: WebhookDryRunOutcome.NO_CONVERSATION_ID };
+    }
+
+    // The link checks of the incoming route: an active user link with at least one enabled agent
+    const userWebhook = await findUserWebhook(webhook.id, clientUserId, clientOrganizationId);
+    if (!userWebhook) {
+        return result;
+    }
+    result.userWebhookStatus = userWebhook.status;
+    if (userWebhook.status === WebhookStatus.UNSET || userWebhook.status === WebhookStatus.DISABLED) {
+        return result;
+    }
+    const agentLinks = await findAgentLinks(webhook.id, clientUserId, clientOrganizationId);
+    if (!agentLinks.some(link => link.enabled)) {
+        return result;
+    }
+
+    const eventFilters = await findUserWebhookEventFilters(webhook.id, clientUserId, clientOrganizationId);
+    const matchedFilter = findMatchingEventFilter(eventFilters, payload);
+    if (matchedFilter) {
+        return { ...result, outcome: WebhookDryRunOutcome.FILTERED, matchedFilter };
+    }
+
+    const { recipients, matchedRuleLink } = routeToAgentLinks(agentLinks, payload);
+    result.matchedRuleAgentId = matchedRuleLink?.agentId ?? null;
+    if (recipients.length === 0) {
+        return { ...result, outcome: WebhookDryRunOutcome.NOT_ROUTED };
+    }
+
+    const receivedAt = new Date();
+    const deliveries = await Promise.all(
+        buildDeliveryTargets(agentLinks, recipients, conversationId).map(async target => {
+            const sanitizedConversationId = sanitizeConversationId(target.conversationId);
+            const message = await renderAgentMessage({
+                platformUserId: userWebhook.platformUserId,
+                clientUserId,
+                clientOrganizationId,
+                agentId: target.agentId,
+                conversationId: sanitizedConversationId,
+                webhookProviderId: webhook.webhookProviderId,
+                subscribedEventId: webhook.subscribedEventId,
+                payload,
+                webhookId: webhook.id,
+                webhookEventId: DRY_RUN_EVENT_ID,
+                receivedAt,
+            }, receivedAt);
+            return { agentId: target.agentId, conversationId: sanitizedConversationId, message };
+        })
+    );
+    return { ...result, outcome: WebhookDryRunOutcome.DELIVERED, deliveries };
+};
@@ -1,8 +1,9 @@
 /**
  * Service: Webhook Processor
- * Handles the asynchronous tasks required after a webhook event has been successfully
+ * Handles the tasks required after a webhook event has been successfully
  * received, validated, and resolved to specific user, agent, and conversation identifiers.
- * This includes fetching API keys, managing conversations, and triggering agent runs.
+ * Ingestion logs the event and enqueues a delivery in one transaction; the delivery worker
+ * then calls processResolvedWebhook to manage conversations and trigger agent runs.
  */
 import { 
     getOrCreateConversationClientUserApiService,
@@ -19,11 +20,19 @@ import {
 import { Message } from 'ai'; // Vercel AI SDK Message type
 import { randomUUID } from 'crypto'; // Use built-in crypto module for UUIDs
 
-// Import the database query utility
-import { query } from '../lib/db.js';
-// Import the type for the new table if it exists, otherwise define inline for now
-// Assuming a type WebhookEventRecord might exist in ../types/db.js
-// import { WebhookEventRecord } from '../types/db.js';
+import pg from 'pg';
+
+// Import the database pool for the ingestion transaction
+import { pool } from '../lib/db.js';
+import { computeSecretFingerprint } from '../lib/crypto.js';
+import { DeliveryBatchOptions, enqueueDelivery, lockUserWebhookPauseState } from './deliveryQueueService.js';
+import { BatchingSettings, WebhookEventOutcome, WebhookSecretVersion } from '../types/webhook.js';
+import { EventFilter } from '../lib/eventFilters.js';
+import { PayloadValidationError } from '../lib/payloadSchema.js';
+import { DeliveryTarget } from '../lib/agentRouting.js';
+import { findAgentMessageTemplate } from './agentWebhookLinkService.js';
+import { DEFAULT_AGENT_MESSAGE_TEMPLATE, renderMessageTemplate } from '../lib/messageTemplate.js';
+import { buildDeliveryBatchKey, renderBatchMessage } from '../lib/deliveryBatching.js';
 
 /**
  * Interface defining the parameters required for logging a webhook event.
@@ -34,65 +43,123 @@ interface LogWebhookEventParams {
     subscribedEventId: string;
     clientUserId: string;
     clientOrganizationId: string;
-    webhookSecret: string;
+    secretFingerprint: string;
+    secretVersion: WebhookSecretVersion;
     conversationId: string;
     webhookId: string;
     agentId: string;
     platformUserId: string; // Changed type to string
+    contentType: string | null;
+    deduplicationKey: string | null;
+    outcome: WebhookEventOutcome;
+    duplicateOfEventId: string | null;
+    matchedFilter: EventFilter | null;
+    payloadValidationErrors: PayloadValidationError[] | null;
 }
 
 /**
  * Logs an incoming webhook event to the webhook_events table.
- * Handles its own errors by logging them.
+ * Runs on the given client so it can share the ingestion transaction.
+ * An accepted event whose deduplication key was already accepted for the same webhook and user
+ * is not inserted (see the webhook_events_deduplication_key_unique index).
+ * @param client - The pool client to run the insert on.
  * @param params - Data required for the event log record.
+ * @returns The ID of the inserted event, or null if the deduplication key was already accepted.
+ * @throws Error if the insert fails, so the caller can roll back.
  */
-const _logWebhookEvent = async (params: LogWebhookEventParams): Promise<void> => {
+const _logWebhookEvent = async (client: pg.PoolClient, params: LogWebhookEventParams): Promise<string | null> => {
     const { 
         payload, providerId, subscribedEventId, clientUserId, clientOrganizationId,
-        webhookSecret, conversationId, webhookId, agentId, 
-        platformUserId // Now expects a string
+        secretFingerprint, secretVersion, conversationId, webhookId, agentId, 
+        platformUserId, // Now expects a string
+        contentType, deduplicationKey, outcome, duplicateOfEventId, matchedFilter, payloadValidationErrors
     } = params;
 
     try {
         const insertSql = `
             INSERT INTO webhook_events (
                 id, payload, provider_id, subscribed_event_id, client_user_id, client_organization_id,
-                webhook_secret, conversation_id, webhook_id, agent_id, platform_user_id,
-                created_at, updated_at
+                secret_fingerprint, conversation_id, webhook_id, agent_id, platform_user_id,
+                content_type, deduplication_key, outcome, duplicate_of_event_id, matched_filter, secret_version,
+                payload_validation_errors, created_at, updated_at
             )
-            VALUES (uuid_generate_v4(), $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
+            VALUES (uuid_generate_v4(), $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW(), NOW())
+            ON CONFLICT (webhook_id, client_user_id, client_organization_id, deduplication_key)
+                WHERE deduplication_key IS NOT NULL AND outcome <> 'duplicate'
+                DO NOTHING
             RETURNING id; -- Return the ID of the inserted event
         `;
-        // Note: Storing webhook_secret directly is a security risk.
-        const result = await query<{ id: string }>(insertSql, [
+        const result = await client.query<{ id: string }>(insertSql, [
             JSON.stringify(payload), // Ensure payload is stored as JSON string/jsonb
             providerId,
             subscribedEventId,
             clientUserId,
             clientOrganizationId,
-            webhookSecret, // Storing the actual secret!
+            secretFingerprint, // Never the secret itself
             conversationId,
             webhookId,
             agentId,
-            platformUserId // Now correctly passing the string to the query
+            platformUserId, // Now correctly passing the string to the query
+            contentType,
+            deduplicationKey,
+            outcome,
+            duplicateOfEventId,
+            matchedFilter ? JSON.stringify(matchedFilter) : null,
+            secretVersion,
+            payloadValidationErrors ? JSON.stringify(payloadValidationErrors) : null
         ]);
         
-        if (result.rows.length > 0) {
-            console.log(`[Webhook Event Logger] Logged event to webhook_events with ID: ${result.rows[0].id}`);
-        } else {
-             console.warn(`[Webhook Event Logger] Failed to log event to webhook_events for webhook ${webhookId}. INSERT query returned no rows.`);
+        if (result.rows.length === 0) {
+            if (deduplicationKey && outcome !== WebhookEventOutcome.DUPLICATE) {
+                return null; // Conflict on the deduplication key
+            }
+            throw new Error("INSERT query returned no rows.");
         }
+        console.log(`[Webhook Event Logger] Logged event to webhook_events with ID: ${result.rows[0].id}`);
+        return result.rows[0].id;
 
     } catch(dbError) {
         console.error(`[Webhook Event Logger] Failed to insert event into webhook_events for webhook ${webhookId}:`, dbError);
-        // Log error internally, don't re-throw to avoid halting main processing if logging fails
+        throw new Error(`Database error logging webhook event: ${dbError instanceof Error ? dbError.message : String(dbError)}`);
     }
 }
 
 /**
- * Interface defining the parameters required for asynchronous webhook processing.
+ * Finds the original (accepted or filtered) event holding a deduplication key for a user-webhook link.
+ * @param client - The pool client to run the query on.
+ * @returns The ID of the original event, or null if none exists.
+ */
+const _findOriginalEventIdByDeduplicationKey = async (
+    client: pg.PoolClient,
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string,
+    deduplicationKey: string
+): Promise<string | null> => {
+    const sql = `
+        SELECT id FROM webhook_events
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+          AND deduplication_key = $4 AND outcome <> 'duplicate'
+        LIMIT 1;
+    `;
+    const result = await client.query<{ id: string }>(sql, [webhookId, clientUserId, clientOrganizationId, deduplicationKey]);
+    return result.rows[0]?.id ?? null;
+};
+
+/**
+ * An event coalesced into a batched agent run (see the `batching` setting of webhook definitions).
  */
-interface ProcessWebhookParams {
+export interface BatchedWebhookEvent {
+    webhookEventId: string;
+    subscribedEventId: string;
+    payload: WebhookEventPayload;
+    receivedAt: Date;
+}
+
+/**
+ * Interface defining the parameters required for webhook processing.
+ */
+export interface ProcessWebhookParams {
     platformUserId: string;
     clientUserId: string; // Use string for clientUserId
     clientOrganizationId: string;
@@ -102,18 +169,216 @@ interface ProcessWebhookParams {
     subscribedEventId: string;
     payload: WebhookEventPayload;
     webhookId: string; // Added: ID of the specific webhook definition
-    webhookSecret: string; // Added: Secret used for validation (Caution: Security concern)
+    webhookEventId: string; // ID of the logged event, available to message templates
+    receivedAt: Date; // When the event was logged, available to message templates
+    batchedEvents?: BatchedWebhookEvent[]; // Other events of the conversation delivered in the same agent message
+}
+
+/**
+ * Interface defining the parameters required to ingest a resolved webhook event.
+ */
+export interface IngestWebhookParams extends Omit<ProcessWebhookParams, 'agentId' | 'conversationId' | 'webhookEventId' | 'receivedAt'> {
+    targets: DeliveryTarget[]; // One delivery per target; the first one is recorded on the event itself
+    webhookSecret: string; // Secret used for validation; only its fingerprint is stored
+    secretVersion: WebhookSecretVersion; // Whether the secret is the current one or a rotated one in its grace period
+    contentType: string | null; // Media type of the original request body
+    deduplicationKey: string | null; // Provider delivery ID, null when deduplication is not configured
+    matchedFilter?: EventFilter | null; // Event filter of the link that dropped the event, if any
+    payloadValidationErrors?: PayloadValidationError[] | null; // Set to flag a payload not conforming to the schema
+    batching?: BatchingSettings | null; // Debounce batching of the webhook definition, if enabled
+}
+
+/**
+ * Result of ingesting a resolved webhook event.
+ * For a duplicate, no delivery is enqueued and duplicateOfEventId points to the accepted event.
+ */
+export interface IngestWebhookResult {
+    webhookEventId: string;
+    outcome: WebhookEventOutcome;
+    deliveryIds: string[];
+    duplicateOfEventId: string | null;
+    paused: boolean; // The user-webhook link is paused: the deliveries are held until it is resumed
 }
 
 /**
- * Processes a resolved webhook event asynchronously.
+ * Batches the deliveries of one user-webhook link, agent and (sanitized) conversation together.
+ * @returns The batch options, or null when the webhook definition does not enable batching.
+ */
+const _buildDeliveryBatch = (params: IngestWebhookParams, target: DeliveryTarget): DeliveryBatchOptions | null => {
+    if (!params.batching) return null;
+    return {
+        key: buildDeliveryBatchKey({
+            webhookId: params.webhookId,
+            clientUserId: params.clientUserId,
+            clientOrganizationId: params.clientOrganizationId,
+            agentId: target.agentId,
+            conversationId: target.conversationId,
+        }),
+        settings: params.batching,
+    };
+};
+
+/**
+ * Durably records a resolved webhook event and enqueues one delivery per target agent.
+ * The event log and the delivery jobs are written in a single transaction, so an event
+ * acknowledged to the provider is never lost even if the process restarts before delivery.
+ * An event whose deduplication key was already accepted (a provider retry) is recorded
+ * with outcome 'duplicate' and no delivery is enqueued. An event matching an event filter
+ * is recorded with outcome 'filtered' against its first target, also without delivery.
+ * While the user-webhook link is paused, the deliveries are enqueued with status 'paused'.
+ *
+ * @param params - The resolved identifiers and payload.
+ * @returns The ID and outcome of the logged event and the IDs of the enqueued deliveries.
+ * @throws Error if the transaction fails; the caller should not acknowledge the event.
+ */
+export const ingestResolvedWebhook = async (params: IngestWebhookParams): Promise<IngestWebhookResult> => {
+    if (params.targets.length === 0) {
+        throw new Error('Cannot ingest a webhook event without a target agent.');
+    }
+    const targets = params.targets.map(target => ({
+        agentId: target.agentId,
+        conversationId: sanitizeConversationId(target.conversationId),
+    }));
+    const [primaryTarget, ...additionalTargets] = targets;
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const paused = await lockUserWebhookPauseState(client, params.webhookId, params.clientUserId, params.clientOrganizationId);
+        const logParams: LogWebhookEventParams = {
+            payload: params.payload,
+            providerId: params.webhookProviderId,
+            subscribedEventId: params.subscribedEventId,
+            clientUserId: params.clientUserId,
+            clientOrganizationId: params.clientOrganizationId,
+            secretFingerprint: computeSecretFingerprint(params.webhookSecret),
+            secretVersion: params.secretVersion,
+            conversationId: primaryTarget.conversationId,
+            webhookId: params.webhookId,
+            agentId: primaryTarget.agentId,
+            platformUserId: params.platformUserId,
+            contentType: params.contentType,
+            deduplicationKey: params.deduplicationKey,
+            outcome: params.matchedFilter ? WebhookEventOutcome.FILTERED : WebhookEventOutcome.ACCEPTED,
+            duplicateOfEventId: null,
+            matchedFilter: params.matchedFilter ?? null,
+            payloadValidationErrors: params.payloadValidationErrors ?? null
+        };
+        const webhookEventId = await _logWebhookEvent(client, logParams);
+
+        if (webhookEventId === null) {
+            const duplicateOfEventId = await _findOriginalEventIdByDeduplicationKey(
+                client, params.webhookId, params.clientUserId, params.clientOrganizationId, params.deduplicationKey!
+            );
+            const duplicateEventId = await _logWebhookEvent(client, {
+                ...logParams,
+                outcome: WebhookEventOutcome.DUPLICATE,
+                duplicateOfEventId,
+                matchedFilter: null
+            });
+            await client.query('COMMIT');
+            console.log(`[Webhook Processor] Event with deduplication key '${params.deduplicationKey}' already accepted as ${duplicateOfEventId}; recorded duplicate ${duplicateEventId}`);
+            return { webhookEventId: duplicateEventId!, outcome: WebhookEventOutcome.DUPLICATE, deliveryIds: [], duplicateOfEventId, paused };
+        }
+
+        if (logParams.outcome === WebhookEventOutcome.FILTERED) {
+            await client.query('COMMIT');
+            console.log(`[Webhook Processor] Event ${webhookEventId} matched event filter '${params.matchedFilter!.name}'; recorded without delivery`);
+            return { webhookEventId, outcome: WebhookEventOutcome.FILTERED, deliveryIds: [], duplicateOfEventId: null, paused };
+        }
+
+        // The primary target is the event's own agent/conversation; the others are overrides
+        const deliveryIds = [(await enqueueDelivery(client, webhookEventId, {
+            batch: _buildDeliveryBatch(params, primaryTarget),
+            paused,
+        })).id];
+        for (const target of additionalTargets) {
+            const delivery = await enqueueDelivery(client, webhookEventId, {
+                agentIdOverride: target.agentId,
+                conversationIdOverride: target.conversationId,
+                batch: _buildDeliveryBatch(params, target),
+                paused,
+            });
+            deliveryIds.push(delivery.id);
+        }
+        await client.query('COMMIT');
+        console.log(`[Webhook Processor] Ingested event ${webhookEventId}, enqueued deliveries ${deliveryIds.join(', ')}${paused ? ' (held, link paused)' : ''}`);
+        return { webhookEventId, outcome: WebhookEventOutcome.ACCEPTED, deliveryIds, duplicateOfEventId: null, paused };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Renders the user message sent to the agent for an event, from the agent link's template,
+ * else the webhook's template, else the built-in one.
+ * For a batch (params.batchedEvents), each event is rendered with the template and the
+ * messages are listed oldest first in a single message.
+ *
+ * @param params - The event identifiers and payload; conversationId should already be sanitized.
+ * @param deliveredAt - When the message is (or would be) sent to the agent.
+ * @returns The message content.
+ */
+export const renderAgentMessage = async (params: ProcessWebhookParams, deliveredAt: Date): Promise<string> => {
+    const messageTemplate = await findAgentMessageTemplate(params.webhookId, params.clientUserId, params.clientOrganizationId, params.agentId);
+    const render = (event: BatchedWebhookEvent): string => renderMessageTemplate(messageTemplate ?? DEFAULT_AGENT_MESSAGE_TEMPLATE, {
+        payload: event.payload,
+        webhookProviderId: params.webhookProviderId,
+        subscribedEventId: event.subscribedEventId,
+        webhookId: params.webhookId,
+        eventId: event.webhookEventId,
+        agentId: params.agentId,
+        conversationId: params.conversationId,
+        receivedAt: event.receivedAt,
+        deliveredAt,
+    });
+
+    const event: BatchedWebhookEvent = {
+        webhookEventId: params.webhookEventId,
+        subscribedEventId: params.subscribedEventId,
+        payload: params.payload,
+        receivedAt: params.receivedAt,
+    };
+    return renderBatchMessage([event, ...(params.batchedEvents ?? [])], render);
+};
+
+/**
+ * Checks that an agent run result is a Vercel AI SDK Message with text content.
+ */
+const _isTextMessage = (value: unknown): value is Message =>
+    typeof value === 'object'
+    && value !== null
+    && typeof (value as Partial<Message>).role === 'string'
+    && typeof (value as Partial<Message>).content === 'string';
+
+/**
+ * Reads the text of the agent's reply: the `content` of the assistant message an agent run
+ * returns (a Vercel AI SDK Message, like the message sent to it).
+ * @param runResult The data of the agent run response, checked at runtime.
+ * @returns The reply, or null when the run result carries no message or the message has no text.
+ */
+const _getAgentReplyText = (runResult: unknown): string | null => {
+    if (!_isTextMessage(runResult)) {
+        // The run itself succeeded, so this must not fail the delivery
+        console.warn('[Webhook Processor] Agent run result is not a message with text content; no reply recorded.');
+        return null;
+    }
+    return runResult.content.trim() || null;
+};
+
+/**
+ * Processes a resolved webhook event.
  * Fetches necessary credentials, ensures a conversation exists, and triggers the agent run.
- * This function is designed to be called *after* the initial webhook request has been acknowledged (e.g., with a 202 Accepted response).
- * It intentionally does not return anything and handles its own errors internally by logging them.
+ * This function is called by the delivery worker for each claimed delivery.
+ * It throws on any failure so the worker can record the error and schedule a retry.
  *
  * @param params - An object containing all necessary identifiers and the payload.
+ * @returns The text of the agent's reply, or null when the run returned none.
+ * @throws Error if the conversation cannot be established or the agent run cannot be triggered.
  */
-export const processResolvedWebhook = async (params: ProcessWebhookParams): Promise<void> => {
+export const processResolvedWebhook = async (params: ProcessWebhookParams): Promise<string | null> => {
     const {
         platformUserId,
         clientUserId,
@@ -122,104 +387,73 @@ export const processResolvedWebhook = async (params: ProcessWebhookParams): Prom
         conversationId,
         webhookProviderId, 
         subscribedEventId,
-        payload,
-        webhookId,
-        webhookSecret
     } = params;
 
     // Sanitize the conversation ID received from params
     const originalConversationId = conversationId;
     const sanitizedConversationId = sanitizeConversationId(originalConversationId);
 
-    console.log(`[Webhook Processor] Starting async processing for ${webhookProviderId}/${subscribedEventId}, User: ${platformUserId}, Agent: ${agentId}`);
+    console.log(`[Webhook Processor] Starting processing for ${webhookProviderId}/${subscribedEventId}, User: ${platformUserId}, Agent: ${agentId}`);
     console.log(`[Webhook Processor] Original Conversation ID: '${originalConversationId}', Sanitized Conversation ID: '${sanitizedConversationId}'`);
 
-    // --- Log the incoming event to the database ---    
-    await _logWebhookEvent({
-        payload,
-        providerId: webhookProviderId,
-        subscribedEventId,
-        clientUserId,
-        clientOrganizationId,
-        webhookSecret,
-        conversationId: sanitizedConversationId,
-        webhookId, 
-        agentId,
-        platformUserId
-    });
-
-    try {
-        // --- 1. Get or Create Platform API Key ---
+    // --- 1. Get or Create Platform API Key ---
 
-        const platformApiKey = process.env.AGENT_BASE_API_KEY;
-        if (!platformApiKey) {
-          throw new Error(
-            "AGENT_BASE_API_KEY environment variable is not set. Cannot construct target URL.",
-          );
-        }
-        // --- 2. Prepare Internal Credentials ---
+    const platformApiKey = process.env.AGENT_BASE_API_KEY;
+    if (!platformApiKey) {
+      throw new Error(
+        "AGENT_BASE_API_KEY environment variable is not set. Cannot construct target URL.",
+      );
+    }
+    // --- 2. Prepare Internal Credentials ---
 
-        const internalCredentials: MinimalInternalCredentials = {
-            platformApiKey,
-            clientUserId,
-            clientOrganizationId
-        };
+    const internalCredentials: MinimalInternalCredentials = {
+        platformApiKey,
+        clientUserId,
+        clientOrganizationId
+    };
 
-        // --- 3. Get or Create Conversation ---
+    // --- 3. Get or Create Conversation ---
 
-        const conversationInput: CreateConversationInput = {
-            agentId,
-            channelId: webhookProviderId,
-            conversationId: sanitizedConversationId
-        };
+    const conversationInput: CreateConversationInput = {
+        agentId,
+        channelId: webhookProviderId,
+        conversationId: sanitizedConversationId
+    };
 
-        console.debug(`[Webhook Processor] Getting or creating conversation for Agent ${agentId}, Sanitized Conversation ID ${sanitizedConversationId}`);
-        console.debug(`[Webhook Processor] Internal Credentials: ${JSON.stringify(internalCredentials)}`);
-        console.debug(`[Webhook Processor] Conversation Input: ${JSON.stringify(conversationInput)}`);
-        const getOrCreateConversationResponse : ServiceResponse<ConversationId> = await getOrCreateConversationClientUserApiService(
-            conversationInput,
-            internalCredentials
-        );
-
-        if (!getOrCreateConversationResponse.success) {
-            console.error(`[Webhook Processor] Failed to get/create conversation for Agent ${agentId}, Sanitized Conversation ID ${sanitizedConversationId}:`, getOrCreateConversationResponse.error);
-            // Stop processing if conversation cannot be established
-            return;
-        }
+    console.debug(`[Webhook Processor] Getting or creating conversation for Agent ${agentId}, Sanitized Conversation ID ${sanitizedConversationId}`);
+    console.debug(`[Webhook Processor] Internal Credentials: ${JSON.stringify(internalCredentials)}`);
+    console.debug(`[Webhook Processor] Conversation Input: ${JSON.stringify(conversationInput)}`);
+    const getOrCreateConversationResponse : ServiceResponse<ConversationId> = await getOrCreateConversationClientUserApiService(
+        conversationInput,
+        internalCredentials
+    );
 
-        // --- 4. Prepare and Trigger Agent Run ---
-        // Construct a user message containing the webhook payload details.
-        const messageContent = `
-        This is an automated message from ${webhookProviderId}/${subscribedEventId}.
-        You received this webhook event with the following payload:
-        ${JSON.stringify(payload, null, 2)}
-        If you need more context about the event (like an incoming WhatsApp without history),
-        you may want to retrieve past tool calls and past webhook events to get the relevant context.
-        `;
+    if (!getOrCreateConversationResponse.success) {
+        console.error(`[Webhook Processor] Failed to get/create conversation for Agent ${agentId}, Sanitized Conversation ID ${sanitizedConversationId}:`, getOrCreateConversationResponse.error);
+        throw new Error(`Failed to get or create conversation: ${getOrCreateConversationResponse.error}`);
+    }
 
-        const webhookMessage: Message = {
-            id: randomUUID(), // Generate a unique ID for this message using crypto.randomUUID
-            role: 'user', // Webhook event triggers a 'user' message for the agent
-            content: messageContent,
-            createdAt: new Date(),
-        };
+    // --- 4. Prepare and Trigger Agent Run ---
+    const messageContent = await renderAgentMessage({ ...params, conversationId: sanitizedConversationId }, new Date());
 
-        const runResponse = await triggerAgentRunClientUserApiService(
-            sanitizedConversationId,
-            webhookMessage,
-            internalCredentials
-        );
+    const webhookMessage: Message = {
+        id: randomUUID(), // Generate a unique ID for this message using crypto.randomUUID
+        role: 'user', // Webhook event triggers a 'user' message for the agent
+        content: messageContent,
+        createdAt: new Date(),
+    };
 
-        if (!runResponse.success) {
-            console.error(`[Webhook Processor] Failed to trigger agent run for Agent ${agentId}, Sanitized Conversation ID ${sanitizedConversationId}:`, runResponse.error);
-            // Error logged, processing stops here for this event
-        }
+    const runResponse = await triggerAgentRunClientUserApiService(
+        sanitizedConversationId,
+        webhookMessage,
+        internalCredentials
+    );
 
-    } catch (error: unknown) {
-        // Catch any unexpected errors during the asynchronous processing
-        console.error(`[Webhook Processor] Unhandled error during async processing for ${webhookProviderId}/${subscribedEventId}, User: ${platformUserId}, Sanitized Conversation ID: ${sanitizedConversationId}:`, error);
-        // Log the error, but can't send a response back to the original caller.
+    if (!runResponse.success) {
+        console.error(`[Webhook Processor] Failed to trigger agent run for Agent ${agentId}, Sanitized Conversation ID ${sanitizedConversationId}:`, runResponse.error);
+        throw new Error(`Failed to trigger agent run: ${runResponse.error}`);
     }
-};
 
-// Potentially add other related functions here if needed 
\ No newline at end of file
+    // Answered to the provider by webhooks in 'sync' response mode
+    return _getAgentReplyText(runResponse.data);
+};
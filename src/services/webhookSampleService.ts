@@ -0,0 +1,141 @@
+/**
+ * Webhook Sample Service Layer
+ *
+ * Contains data access functions for the events captured while a user-webhook link is listening
+ * (webhook_samples table). Only the latest WEBHOOK_SAMPLE_LIMIT samples of each link are kept.
+ */
+import { IncomingHttpHeaders } from 'http';
+import { query } from '../lib/db.js';
+import { readPositiveIntEnv } from '../lib/configUtils.js';
+import { WebhookSampleRecord } from '../types/db.js';
+import { WebhookSample } from '../types/webhook.js';
+
+const SAMPLE_LIMIT = readPositiveIntEnv('WEBHOOK_SAMPLE_LIMIT', 20);
+
+// Header values that may hold credentials are never stored
+const SENSITIVE_HEADER_PATTERN = /(secret|signature|authorization|cookie|token|key|password)/i;
+
+/**
+ * Data of an incoming event captured as a sample.
+ */
+export interface CaptureWebhookSampleParams {
+    webhookId: string;
+    clientUserId: string;
+    clientOrganizationId: string;
+    payload: unknown;
+    contentType: string | null;
+    headers: IncomingHttpHeaders;
+}
+
+const sanitizeSampleHeaders = (headers: IncomingHttpHeaders): Record<string, string> => {
+    const sanitized: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+        if (value === undefined || SENSITIVE_HEADER_PATTERN.test(name)) continue;
+        sanitized[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    return sanitized;
+};
+
+/**
+ * Stores an incoming event as a sample of its user-webhook link and drops the samples
+ * beyond the latest WEBHOOK_SAMPLE_LIMIT.
+ *
+ * @param params The event and its user-webhook link.
+ * @returns The stored sample.
+ * @throws Error if the insert fails.
+ */
+export const captureWebhookSample = async (params: CaptureWebhookSampleParams): Promise<WebhookSample> => {
+    const insertSql = `
+        INSERT INTO webhook_samples (webhook_id, client_user_id, client_organization_id, payload, content_type, headers)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING *;
+    `;
+    const pruneSql = `
+        DELETE FROM webhook_samples
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+          AND id NOT IN (
+            SELECT id FROM webhook_samples
+            WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+            ORDER BY created_at DESC
+            LIMIT $4
+          );
+    `;
+    try {
+        const result = await query<WebhookSampleRecord>(insertSql, [
+            params.webhookId,
+            params.clientUserId,
+            params.clientOrganizationId,
+            JSON.stringify(params.payload),
+            params.contentType,
+            JSON.stringify(sanitizeSampleHeaders(params.headers)),
+        ]);
+        await query(pruneSql, [params.webhookId, params.clientUserId, params.clientOrganizationId, SAMPLE_LIMIT]);
+        return mapWebhookSampleRecordToWebhookSample(result.rows[0]);
+    } catch (err) {
+        console.error("Error capturing webhook sample:", err);
+        throw new Error(`Database error capturing webhook sample: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Lists the samples captured for a user-webhook link, newest first.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ * @returns The samples.
+ */
+export const listWebhookSamples = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string
+): Promise<WebhookSample[]> => {
+    const sql = `
+        SELECT * FROM webhook_samples
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3
+        ORDER BY created_at DESC;
+    `;
+    try {
+        const result = await query<WebhookSampleRecord>(sql, [webhookId, clientUserId, clientOrganizationId]);
+        return result.rows.map(mapWebhookSampleRecordToWebhookSample);
+    } catch (err) {
+        console.error("Error listing webhook samples:", err);
+        throw new Error(`Database error listing webhook samples: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Deletes the samples captured for a user-webhook link.
+ *
+ * @param webhookId The ID of the webhook.
+ * @param clientUserId The ID of the client user.
+ * @param clientOrganizationId The ID of the client organization.
+ */
+export const deleteWebhookSamples = async (
+    webhookId: string,
+    clientUserId: string,
+    clientOrganizationId: string
+): Promise<void> => {
+    const sql = `
+        DELETE FROM webhook_samples
+        WHERE webhook_id = $1 AND client_user_id = $2 AND client_organization_id = $3;
+    `;
+    try {
+        await query(sql, [webhookId, clientUserId, clientOrganizationId]);
+    } catch (err) {
+        console.error("Error deleting webhook samples:", err);
+        throw new Error(`Database error deleting webhook samples: ${err instanceof Error ? err.message : String(err)}`);
+    }
+};
+
+/**
+ * Helper to convert a DB record to the application-level WebhookSample type.
+ */
+export const mapWebhookSampleRecordToWebhookSample = (record: WebhookSampleRecord): WebhookSample => ({
+    sampleId: record.id,
+    webhookId: record.webhook_id,
+    payload: record.payload,
+    contentType: record.content_type,
+    headers: record.headers,
+    createdAt: record.created_at,
+});
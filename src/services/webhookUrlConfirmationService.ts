@@ -0,0 +1,52 @@
+/**
+ * Service: Webhook URL Confirmation
+ * Reads and records the WEBHOOK_URL_INPUTED action confirmation stored in Google Secret Manager,
+ * which tells link-user that the webhook URL was entered in the provider dashboard.
+ */
+import {
+    UserType,
+    UtilityActionConfirmation,
+    Webhook,
+} from '@agent-base/types';
+import { generateSecretManagerId } from '@agent-base/secret-client';
+import { gsmClient } from '../index.js';
+
+/**
+ * Builds the Secret Manager ID holding the URL input confirmation of a user for a webhook.
+ * @param webhook The webhook definition.
+ * @param clientUserId The client user's ID.
+ * @param clientOrganizationId The client organization's ID.
+ */
+export const getWebhookUrlConfirmationSecretId = (
+    webhook: Webhook,
+    clientUserId: string,
+    clientOrganizationId: string
+): string => {
+    return generateSecretManagerId(
+        UserType.Client,
+        clientUserId,
+        clientOrganizationId,
+        webhook.webhookProviderId,
+        UtilityActionConfirmation.WEBHOOK_URL_INPUTED,
+        webhook.subscribedEventId,
+    );
+};
+
+/**
+ * Records that the webhook URL was entered in the provider dashboard,
+ * e.g. after the provider completed a verification handshake against it.
+ * @throws Error if the confirmation cannot be stored.
+ */
+export const confirmWebhookUrlInput = async (
+    webhook: Webhook,
+    clientUserId: string,
+    clientOrganizationId: string
+): Promise<void> => {
+    const secretId = getWebhookUrlConfirmationSecretId(webhook, clientUserId, clientOrganizationId);
+    try {
+        await gsmClient.storeSecret(secretId, 'true');
+        console.log(`[Webhook URL Confirmation] Marked ${UtilityActionConfirmation.WEBHOOK_URL_INPUTED} for webhook ${webhook.id}, client user ${clientUserId}.`);
+    } catch (error) {
+        throw new Error(`Secret Manager error storing webhook URL confirmation: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
@@ -11,6 +11,22 @@ import {
     UtilitySecretType,
     Webhook
 } from '@agent-base/types';
+import { WebhookDeliveryStatus, WebhookDeliveryTrigger } from './delivery.js';
+import { IngressHeadersSummary } from './ingress.js';
+import {
+    AcknowledgementSettings,
+    BatchingSettings,
+    ConversationStrategy,
+    PayloadSchemaMode,
+    SyncResponseSettings,
+    WebhookDefinition,
+    WebhookEventOutcome,
+    WebhookResponseMode,
+    WebhookSecretVersion,
+} from './webhook.js';
+import { Predicate } from '../lib/predicates.js';
+import { EventFilter } from '../lib/eventFilters.js';
+import { PayloadSchema, PayloadValidationError } from '../lib/payloadSchema.js';
 
 /**
  * Represents the structure of a record in the 'webhooks' table.
@@ -22,6 +38,16 @@ export interface WebhookRecord {
     webhook_provider_id: WebhookProviderId;
     subscribed_event_id: string;
     conversation_id_identification_mapping: string; // Added (Stored as TEXT in PG)
+    deduplication_key_mapping: string | null; // Value expression reading the provider delivery ID
+    agent_message_template: string | null; // Template of the message sent to agents (see lib/messageTemplate.ts)
+    conversation_strategy: ConversationStrategy; // How the conversation of an event is chosen
+    conversation_hash_fields: string[] | null; // JSONB: value expressions hashed by the 'hashed' strategy
+    payload_schema: PayloadSchema | null; // JSONB: JSON Schema of incoming payloads, null disables validation
+    payload_schema_mode: PayloadSchemaMode; // What happens to payloads not conforming to payload_schema
+    batching: BatchingSettings | null; // JSONB: debounce batching of agent deliveries, null disables it
+    response_mode: WebhookResponseMode; // How incoming webhook requests are answered
+    sync_response: SyncResponseSettings | null; // JSONB: timeout and fallback of the 'sync' response mode
+    acknowledgement: AcknowledgementSettings | null; // JSONB: custom acknowledgement response, null sends the JSON envelope
     embedding?: number[]; // Assuming numeric vector, adjust if needed
     creator_client_user_id: string; // Added: ID of the user who created this webhook definition
     creator_client_organization_id: string; // Added: ID of the organization who created this webhook definition
@@ -40,6 +66,13 @@ export interface UserWebhookRecord {
     platform_user_id: string; // Added platform user ID
     status: WebhookStatus; // e.g., 'pending', 'active'
     webhook_secret: string; // Unique secret for this webhook link
+    previous_webhook_secret?: string | null; // Secret replaced by the last rotation, accepted until it expires
+    previous_webhook_secret_expires_at?: Date | null;
+    ingress_token: string; // Opaque token of the short webhook URL (/in/:ingressToken)
+    signing_secret?: string | null; // Provider signing secret for native signature verification
+    event_filters?: EventFilter[]; // JSONB: events matching any filter are not delivered
+    listening_since?: Date | null; // Set while incoming events are captured as samples instead of processed
+    paused_since?: Date | null; // Set while the deliveries of incoming events are held (status 'paused')
     created_at: Date;
     updated_at: Date;
 }
@@ -53,13 +86,92 @@ export interface WebhookEventRecord {
     payload: Record<string, unknown>;
     provider_id: string;
     subscribed_event_id: string;
-    webhook_secret: string;
+    secret_fingerprint: string; // SHA-256 hex of the URL secret the event was received with
+    secret_version: WebhookSecretVersion;
     conversation_id?: string;
     agent_id?: string;
+    content_type: string | null; // Media type of the original request body, e.g. 'application/xml'
+    deduplication_key: string | null; // Provider delivery ID extracted with the webhook's mapping
+    outcome: WebhookEventOutcome;
+    duplicate_of_event_id: string | null; // Set when outcome is 'duplicate'
+    matched_filter: EventFilter | null; // JSONB: set when outcome is 'filtered'
+    payload_validation_errors: PayloadValidationError[] | null; // JSONB: set when the payload did not conform to the schema
     created_at: Date;
     updated_at: Date;
 }
 
+/**
+ * Represents the structure of a record in the 'webhook_deliveries' table.
+ * Each record is an outbox job handing a logged webhook event to its agent.
+ */
+export interface WebhookDeliveryRecord {
+    id: string;
+    webhook_event_id: string; // Foreign key to webhook_events.id
+    agent_id_override: string | null; // Replaces the event's agent_id when set
+    conversation_id_override: string | null; // Replaces the event's conversation_id when set
+    trigger: WebhookDeliveryTrigger;
+    status: WebhookDeliveryStatus;
+    attempts: number; // Attempts started so far
+    max_attempts: number;
+    next_attempt_at: Date;
+    locked_at: Date | null; // Set while a worker holds the job
+    last_error: string | null;
+    batch_key: string | null; // Deliveries with the same key are coalesced into one agent run
+    batch_max_size: number | null; // Most deliveries coalesced into one agent run
+    batched_into_delivery_id: string | null; // Set when status is 'batched'
+    ordering_key: string | null; // Deliveries with the same key (user link, agent and conversation) run one at a time, in order
+    completed_at: Date | null; // Set when succeeded or dead-lettered
+    agent_reply: string | null; // Text of the agent's reply, set when succeeded
+    created_at: Date;
+    updated_at: Date;
+}
+
+/**
+ * Represents the structure of a record in the 'webhook_ingress_attempts' table.
+ * Each record is one request to the incoming webhook routes, accepted or rejected.
+ */
+export interface WebhookIngressAttemptRecord {
+    id: string;
+    webhook_id: string | null; // Null when the request could not be resolved to a user-webhook link
+    client_user_id: string | null;
+    client_organization_id: string | null;
+    webhook_event_id: string | null; // Set when the event was recorded in webhook_events
+    method: string;
+    path: string; // Without the query string
+    status_code: number;
+    reason: string | null;
+    latency_ms: number;
+    headers_summary: IngressHeadersSummary; // JSONB
+    created_at: Date;
+}
+
+/**
+ * Represents the structure of a record in the 'webhook_samples' table.
+ * Each record is an incoming event captured while its user-webhook link was listening.
+ */
+export interface WebhookSampleRecord {
+    id: string;
+    webhook_id: string;
+    client_user_id: string;
+    client_organization_id: string;
+    payload: unknown; // JSONB: the normalized payload
+    content_type: string | null;
+    headers: Record<string, string>; // JSONB, without credential headers
+    created_at: Date;
+}
+
+/**
+ * A 'webhook_deliveries' record joined with the identifying columns of its webhook event.
+ * agent_id and conversation_id are the effective values (override first, then the event's).
+ */
+export interface WebhookDeliveryWithEventRecord extends WebhookDeliveryRecord {
+    webhook_id: string;
+    provider_id: string;
+    subscribed_event_id: string;
+    agent_id: string | null;
+    conversation_id: string | null;
+}
+
 /**
  * Represents the structure of a record in the 'webhook_agent_links' table.
  * Links an active user webhook configuration to a specific agent.
@@ -70,11 +182,16 @@ export interface WebhookAgentLinkRecord {
     client_organization_id: string; // Added: ID of the organization who created this webhook definition
     platform_user_id: string; // Added platform user ID
     agent_id: string; // Identifier for the agent
+    enabled: boolean; // Disabled links receive no events
+    routing_rule: Predicate | null; // JSONB: events must match it to reach this agent
+    priority: number; // Routing rule evaluation order (ascending)
+    is_default: boolean; // Receives events no routing rule matched
+    message_template: string | null; // Overrides the webhook's agent message template for this agent
     created_at: Date;
     updated_at: Date;
 }
 
-export function mapWebhookRecordToWebhook(record: WebhookRecord): Webhook {
+export function mapWebhookRecordToWebhook(record: WebhookRecord): WebhookDefinition {
     return {
         id: record.id,
         name: record.name,
@@ -84,5 +201,9 @@ export function mapWebhookRecordToWebhook(record: WebhookRecord): Webhook {
         creatorClientUserId: record.creator_client_user_id,
         creatorClientOrganizationId: record.creator_client_organization_id,
         conversationIdIdentificationMapping: record.conversation_id_identification_mapping,
+        deduplicationKeyMapping: record.deduplication_key_mapping,
+        agentMessageTemplate: record.agent_message_template,
+        conversationStrategy: record.conversation_strategy,
+        conversationHashFields: record.conversation_hash_fields,
     };
 }
\ No newline at end of file
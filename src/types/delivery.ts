@@ -0,0 +1,66 @@
+/**
+ * Delivery Type Definitions
+ *
+ * Application-level types for the agent delivery outbox (webhook_deliveries table).
+ */
+
+/**
+ * Lifecycle of a delivery job.
+ * - PENDING: waiting to be claimed by the worker.
+ * - PROCESSING: claimed by a worker; reclaimed if its lock expires.
+ * - FAILED: last attempt failed, a retry is scheduled at next_attempt_at.
+ * - SUCCEEDED: the agent run was triggered.
+ * - DEAD_LETTERED: retries exhausted, no further attempts will be made.
+ * - BATCHED: coalesced into the agent run of another delivery (batchedIntoDeliveryId), whose outcome it shares.
+ * - PAUSED: held while the user-webhook link is paused; becomes PENDING or DISCARDED when it is resumed.
+ * - DISCARDED: held while paused and dropped on resume, never delivered.
+ */
+export enum WebhookDeliveryStatus {
+    PENDING = 'pending',
+    PROCESSING = 'processing',
+    FAILED = 'failed',
+    SUCCEEDED = 'succeeded',
+    DEAD_LETTERED = 'dead_lettered',
+    BATCHED = 'batched',
+    PAUSED = 'paused',
+    DISCARDED = 'discarded',
+}
+
+/**
+ * What created a delivery job.
+ */
+export enum WebhookDeliveryTrigger {
+    INGRESS = 'ingress', // Created when the event was received
+    REPLAY = 'replay',   // Created on demand from a stored event
+}
+
+/**
+ * A delivery job as exposed by the API, with the identifiers of the event it delivers.
+ */
+export interface WebhookDelivery {
+    deliveryId: string;
+    webhookEventId: string;
+    webhookId: string;
+    providerId: string;
+    subscribedEventId: string;
+    agentId: string | null;        // Effective agent (override or the event's agent)
+    conversationId: string | null; // Effective conversation (override or the event's conversation)
+    trigger: WebhookDeliveryTrigger;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    maxAttempts: number;
+    lastError: string | null; // Failure reason of the last attempt
+    batchedIntoDeliveryId: string | null; // The delivery whose agent run included this one (status 'batched')
+    nextAttemptAt: Date;
+    completedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Result of a replay request.
+ */
+export interface ReplayDeliveriesResult {
+    replayed: WebhookDelivery[];
+    notReplayed: string[]; // IDs not found for the caller or not in a failed/dead-lettered state
+}
@@ -0,0 +1,48 @@
+/**
+ * Ingress Type Definitions
+ *
+ * Application-level types for the log of requests to the incoming webhook routes
+ * (webhook_ingress_attempts table).
+ */
+import { WebhookDeliveryStatus } from './delivery.js';
+
+/**
+ * The request headers worth keeping for support: a few values and the names of the others.
+ * Header values that may hold credentials (secrets, signatures) are never stored.
+ */
+export interface IngressHeadersSummary {
+    contentType: string | null;
+    contentLength: number | null;
+    userAgent: string | null;
+    names: string[]; // Lowercase names of all request headers
+}
+
+/**
+ * Delivery state of an agent run created by an accepted request.
+ */
+export interface IngressAttemptDelivery {
+    deliveryId: string;
+    agentId: string | null;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    lastError: string | null; // Failure reason of the last agent run attempt
+}
+
+/**
+ * A request to the incoming webhook routes as exposed by the API.
+ */
+export interface WebhookIngressAttempt {
+    attemptId: string;
+    webhookId: string | null;
+    clientUserId: string | null;
+    clientOrganizationId: string | null;
+    webhookEventId: string | null; // Set when the event was recorded
+    method: string;
+    path: string;
+    statusCode: number;
+    reason: string | null; // Rejection reason, or what happened to an acknowledged event
+    latencyMs: number;
+    headers: IngressHeadersSummary;
+    deliveries: IngressAttemptDelivery[]; // Agent runs of the recorded event, if any
+    createdAt: Date;
+}
@@ -0,0 +1,193 @@
+/**
+ * Webhook Type Definitions
+ *
+ * Application-level extensions of the shared @agent-base/types webhook types
+ * for settings and event details specific to this service.
+ */
+import { AgentUserWebhook, Webhook, WebhookData, WebhookEvent, WebhookStatus } from '@agent-base/types';
+import { Predicate } from '../lib/predicates.js';
+import { EventFilter } from '../lib/eventFilters.js';
+import { PayloadSchema, PayloadValidationError } from '../lib/payloadSchema.js';
+
+/**
+ * How the conversation of an incoming event is chosen.
+ */
+export enum ConversationStrategy {
+    MAPPED = 'mapped',       // Extracted with conversationIdIdentificationMapping
+    PER_EVENT = 'per_event', // A new conversation for every event
+    FIXED = 'fixed',         // One long-running conversation per user-webhook link
+    HASHED = 'hashed',       // Hash of the values of conversationHashFields
+}
+
+/**
+ * What happens to an incoming event whose payload does not conform to the payload schema.
+ */
+export enum PayloadSchemaMode {
+    REJECT = 'reject', // Rejected with 422; not recorded nor delivered
+    FLAG = 'flag',     // Delivered and recorded with its validation errors
+}
+
+/**
+ * Debounce batching of agent deliveries: the events of one conversation arriving within
+ * windowSeconds of each other are delivered to the agent as a single message.
+ */
+export interface BatchingSettings {
+    windowSeconds: number;  // Quiet period after the last event before the batch is delivered
+    maxBatchSize: number;   // A batch reaching this many events is delivered right away
+    maxWaitSeconds: number; // Longest delay of the first event of a batch, even if events keep coming
+}
+
+/**
+ * How the incoming webhook request is answered.
+ */
+export enum WebhookResponseMode {
+    ASYNC = 'async', // Acknowledged as soon as the event is queued
+    SYNC = 'sync',   // Answered with the agent's reply, formatted for the provider (see lib/syncResponses.ts)
+}
+
+/**
+ * Settings of the 'sync' response mode.
+ */
+export interface SyncResponseSettings {
+    timeoutMs: number;              // Longest wait for the agent's reply
+    fallbackMessage: string | null; // Answered on timeout or agent failure; null sends an empty acknowledgement
+}
+
+/**
+ * Response sent to the provider when an incoming event is acknowledged, instead of the JSON envelope.
+ */
+export interface AcknowledgementSettings {
+    statusCode: number;           // 2xx status code
+    contentType: string;          // Media type of the body, e.g. 'text/plain'
+    bodyTemplate: string | null;  // Message template of the body (see lib/acknowledgements.ts); null sends an empty body
+    ackInternalFailures: boolean; // Also acknowledge events not processed because of the setup (link not active, no agent, no conversation ID)
+}
+
+/**
+ * Webhook definition fields handled by this service on top of WebhookData.
+ */
+export interface WebhookDefinitionSettings {
+    conversationStrategy?: ConversationStrategy; // Defaults to 'mapped'
+    // Value expressions hashed into the conversation ID by the 'hashed' strategy
+    conversationHashFields?: string[] | null;
+    // Where to read the provider delivery ID used for deduplication:
+    // a value expression such as `$headers.X-GitHub-Delivery` or a payload path. Null disables deduplication.
+    deduplicationKeyMapping?: string | null;
+    // Template of the message sent to the linked agents (see lib/messageTemplate.ts).
+    // Null uses the built-in message.
+    agentMessageTemplate?: string | null;
+    // JSON Schema of the normalized payload (see lib/payloadSchema.ts). Null disables validation.
+    payloadSchema?: PayloadSchema | null;
+    payloadSchemaMode?: PayloadSchemaMode; // Defaults to 'flag'
+    // Coalesces the events of a conversation into one agent message. Null delivers every event on its own.
+    batching?: BatchingSettings | null;
+    responseMode?: WebhookResponseMode; // Defaults to 'async'
+    // Timeout and fallback of the 'sync' response mode. Null uses the defaults.
+    syncResponse?: SyncResponseSettings | null;
+    // Status, content type and body of acknowledgements. Null sends the JSON envelope.
+    acknowledgement?: AcknowledgementSettings | null;
+}
+
+/**
+ * Input data for creating or updating a webhook definition.
+ */
+export interface WebhookDefinitionData extends WebhookData, WebhookDefinitionSettings {}
+
+/**
+ * A webhook definition as returned by this service.
+ */
+export interface WebhookDefinition extends Webhook, WebhookDefinitionSettings {}
+
+/**
+ * How an incoming event was handled.
+ */
+export enum WebhookEventOutcome {
+    ACCEPTED = 'accepted',   // Queued for delivery to the agent
+    DUPLICATE = 'duplicate', // Same deduplication key already accepted; not delivered again
+    FILTERED = 'filtered',   // Matched an event filter of the user-webhook link; not delivered
+}
+
+/**
+ * Which URL secret of the user-webhook link an incoming event was received with.
+ */
+export enum WebhookSecretVersion {
+    CURRENT = 'current',   // The secret of the current webhook URL
+    PREVIOUS = 'previous', // The secret replaced by the last rotation, during its grace period
+}
+
+/**
+ * A stored webhook event with the details recorded by this service.
+ * The URL secret is never stored or returned, only its fingerprint.
+ */
+export interface WebhookEventDetails extends Omit<WebhookEvent, 'webhookSecret'> {
+    secretFingerprint: string;
+    secretVersion: WebhookSecretVersion;
+    contentType: string | null;
+    outcome: WebhookEventOutcome;
+    deduplicationKey: string | null;
+    duplicateOfEventId: string | null;
+    matchedFilter: EventFilter | null;
+    payloadValidationErrors: PayloadValidationError[] | null; // Set when the payload did not conform to the schema
+}
+
+/**
+ * An agent linked to a user-webhook, with the settings stored by this service.
+ */
+export interface WebhookAgentLink extends AgentUserWebhook {
+    enabled: boolean; // Disabled links receive no events
+    routingRule: Predicate | null; // Events must match it to reach this agent
+    priority: number; // Routing rule evaluation order (ascending)
+    isDefault: boolean; // Receives events that matched no routing rule
+    messageTemplate: string | null; // Overrides the webhook's agent message template
+    createdAt: Date;
+}
+
+/**
+ * An incoming event captured while its user-webhook link was listening (not processed).
+ */
+export interface WebhookSample {
+    sampleId: string;
+    webhookId: string;
+    payload: unknown;                // The normalized payload, as the mappings see it
+    contentType: string | null;
+    headers: Record<string, string>; // Without the headers that may hold credentials
+    createdAt: Date;
+}
+
+/**
+ * What a test event sent to POST /:webhookId/test would lead to.
+ */
+export enum WebhookDryRunOutcome {
+    DELIVERED = 'delivered',                   // Delivered to at least one agent
+    FILTERED = 'filtered',                     // Matches an event filter of the user-webhook link
+    NOT_ROUTED = 'not_routed',                 // No routing rule matched and no default agent is linked
+    NO_CONVERSATION_ID = 'no_conversation_id', // Rejected: the conversation strategy yields no ID
+    NOT_LINKED = 'not_linked',                 // The caller has no active user link or no enabled agent
+    INVALID_PAYLOAD = 'invalid_payload',       // Rejected: the payload does not conform to the payload schema ('reject' mode)
+}
+
+/**
+ * An agent run a test event would trigger.
+ */
+export interface WebhookDryRunDelivery {
+    agentId: string;
+    conversationId: string; // Sanitized, as sent to agent-base
+    message: string;        // The rendered agent message
+}
+
+/**
+ * The resolution of a test event, computed without recording or delivering it.
+ */
+export interface WebhookDryRunResult {
+    webhookId: string;
+    outcome: WebhookDryRunOutcome;
+    conversationStrategy: ConversationStrategy;
+    conversationId: string | null;          // As resolved by the conversation strategy
+    sanitizedConversationId: string | null; // As used for the primary agent's conversation
+    deduplicationKey: string | null;
+    userWebhookStatus: WebhookStatus | null; // Null when the caller is not linked to the webhook
+    matchedFilter: EventFilter | null;
+    matchedRuleAgentId: string | null;       // The agent whose routing rule matched, if any
+    payloadValidationErrors: PayloadValidationError[]; // Empty when the payload conforms or no schema is set
+    deliveries: WebhookDryRunDelivery[];
+}